@@ -0,0 +1,66 @@
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { encodeApng } from './apng';
+import { crc32 } from './crc32';
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readChunks(bytes: Uint8Array): Chunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 8; offset < bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(bytes.subarray(offset + 4, offset + 8 + length)));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+// Undo the filter bytes (all type 0) at the start of each scanline
+function unfilter(data: Uint8Array, width: number): number[] {
+  const rows: number[] = [];
+  for (let offset = 0; offset < data.length; offset += width * 4 + 1) {
+    expect(data[offset]).toBe(0);
+    rows.push(...data.subarray(offset + 1, offset + 1 + width * 4));
+  }
+  return rows;
+}
+
+describe('encodeApng', () => {
+  const width = 5;
+  const height = 3;
+  const frames = [0, 1, 2].map(frame => Uint8ClampedArray.from({ length: width * height * 4 }, (_, i) => (i * 7 + frame * 50) % 256));
+
+  it('writes one frame control per frame with a shared sequence', async () => {
+    const blob = await encodeApng(frames, { width, height, delay: 125, loop: false });
+    const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND']);
+    const animation = new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset);
+    expect([animation.getUint32(0), animation.getUint32(4)]).toEqual([3, 1]);
+
+    const sequence = chunks
+      .filter(chunk => chunk.type === 'fcTL' || chunk.type === 'fdAT')
+      .map(chunk => new DataView(chunk.data.buffer, chunk.data.byteOffset).getUint32(0));
+    expect(sequence).toEqual([0, 1, 2, 3, 4]);
+
+    const control = new DataView(chunks[2].data.buffer, chunks[2].data.byteOffset);
+    expect([control.getUint32(4), control.getUint32(8), control.getUint16(20), control.getUint16(22)]).toEqual([width, height, 125, 1000]);
+  });
+
+  it('stores every frame losslessly', async () => {
+    const blob = await encodeApng(frames, { width, height, delay: 100, loop: true });
+    const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()));
+
+    const data = [
+      chunks.find(chunk => chunk.type === 'IDAT')!.data,
+      ...chunks.filter(chunk => chunk.type === 'fdAT').map(chunk => chunk.data.subarray(4))
+    ];
+    expect(data.map(compressed => unfilter(inflateSync(compressed), width))).toEqual(frames.map(frame => Array.from(frame)));
+  });
+});
@@ -0,0 +1,70 @@
+// Minimal animated PNG writer: full-size RGBA frames, each replacing the last,
+// compressed with the browser's zlib stream like the still PNG export
+
+import { PNG_SIGNATURE, pngChunk } from './raster';
+
+export interface ApngOptions {
+  width: number;
+  height: number;
+  delay: number; // Milliseconds per frame
+  loop: boolean; // Repeat forever; otherwise play once
+}
+
+// Filtered (filter type 0 on every scanline) and zlib-compressed image data
+async function compressFrame(frame: Uint8ClampedArray, width: number, height: number): Promise<Uint8Array> {
+  const stride = width * 4;
+  const scanlines = new Uint8Array(height * (stride + 1));
+  for (let row = 0; row < height; row++) {
+    scanlines.set(frame.subarray(row * stride, (row + 1) * stride), row * (stride + 1) + 1);
+  }
+  const compressed = new Blob([scanlines]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(compressed).arrayBuffer());
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const data = new Uint8Array(values.length * 4);
+  const view = new DataView(data.buffer);
+  values.forEach((value, index) => view.setUint32(index * 4, value));
+  return data;
+}
+
+export async function encodeApng(frames: Uint8ClampedArray[], options: ApngOptions): Promise<Blob> {
+  const { width, height } = options;
+  const header = new Uint8Array(13);
+  header.set(uint32s(width, height));
+  header[8] = 8; // Bit depth
+  header[9] = 6; // Colour type: RGBA
+
+  const parts: Uint8Array[] = [
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    // Animation control: frame count and plays (0 = forever)
+    pngChunk('acTL', uint32s(frames.length, options.loop ? 0 : 1))
+  ];
+
+  // fcTL and fdAT chunks share one sequence counter
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    const control = new Uint8Array(26);
+    control.set(uint32s(sequence++, width, height, 0, 0));
+    const view = new DataView(control.buffer);
+    view.setUint16(20, Math.round(options.delay)); // Delay as a fraction: ms / 1000
+    view.setUint16(22, 1000);
+    // Dispose and blend ops stay 0: leave the frame, and replace rather than blend
+    parts.push(pngChunk('fcTL', control));
+
+    const data = await compressFrame(frames[i], width, height);
+    if (i === 0) {
+      // The first frame doubles as the still image for viewers without APNG support
+      parts.push(pngChunk('IDAT', data));
+    } else {
+      const frameData = new Uint8Array(4 + data.length);
+      frameData.set(uint32s(sequence++));
+      frameData.set(data, 4);
+      parts.push(pngChunk('fdAT', frameData));
+    }
+  }
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+
+  return new Blob(parts as BlobPart[], { type: 'image/png' });
+}
@@ -0,0 +1,97 @@
+// Project bundles: a single JSON file holding every seed and the full settings,
+// so a pattern can be handed to someone else and regenerated exactly
+
+import { type SeedTone, isSeedTone } from './core/mosaic';
+
+export const BUNDLE_FORMAT = 'minka-pattern-bundle';
+export const BUNDLE_VERSION = 2; // v2: seed ids are content hashes and generation ignores seed order
+
+export interface BundleSeed {
+  id: string; // Bundles before v2 number their seeds; importers replace these with content-hashed ids
+  filename: string;
+  footprint: { width: number; height: number };
+  weight?: number; // Defaults to 1 when absent
+  enabled?: boolean; // Disabled seeds are kept but not generated; defaults to true
+  tags?: string[];
+  tone?: SeedTone; // Measured in the browser; lets the CLI reproduce mosaic patterns
+  svg: string; // Standalone SVG document for the seed's symbol
+}
+
+export interface ProjectBundle {
+  format: string;
+  version: number;
+  exportedAt: string;
+  state: Record<string, unknown>;
+  seeds: BundleSeed[];
+}
+
+export function createBundle(state: object, seeds: BundleSeed[]): ProjectBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    state: { ...state },
+    seeds
+  };
+}
+
+// Whether the bundle's seed ids are the ones the app assigned (v2 and later),
+// rather than numbers to be replaced on import
+export function hasStableSeedIds(bundle: ProjectBundle): boolean {
+  return typeof bundle.version === 'number' && bundle.version >= 2;
+}
+
+function isFootprint(value: unknown): value is BundleSeed['footprint'] {
+  const footprint = value as BundleSeed['footprint'];
+  return typeof footprint === 'object' && footprint !== null &&
+    Number.isInteger(footprint.width) && footprint.width >= 1 &&
+    Number.isInteger(footprint.height) && footprint.height >= 1;
+}
+
+// Parse and validate a bundle file. Throws on files that cannot be imported;
+// returns warnings for files that can be imported but may not match exactly.
+export function parseBundle(text: string): { bundle: ProjectBundle; warnings: string[] } {
+  let data: ProjectBundle;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null || data.format !== BUNDLE_FORMAT) {
+    throw new Error('File is not a pattern project bundle');
+  }
+  if (typeof data.state !== 'object' || data.state === null || !Array.isArray(data.seeds)) {
+    throw new Error('Bundle is missing its settings or seeds');
+  }
+
+  data.seeds.forEach((seed, index) => {
+    if (typeof seed?.svg !== 'string' || !isFootprint(seed.footprint)) {
+      throw new Error(`Seed ${index + 1} in the bundle is malformed`);
+    }
+    seed.filename = typeof seed.filename === 'string' ? seed.filename : '';
+    if (seed.weight !== undefined && !(typeof seed.weight === 'number' && seed.weight >= 0)) {
+      throw new Error(`Seed ${index + 1} in the bundle has an invalid weight`);
+    }
+    if (seed.enabled !== undefined && typeof seed.enabled !== 'boolean') {
+      throw new Error(`Seed ${index + 1} in the bundle has an invalid enabled flag`);
+    }
+    if (seed.tags !== undefined && !(Array.isArray(seed.tags) && seed.tags.every(tag => typeof tag === 'string'))) {
+      throw new Error(`Seed ${index + 1} in the bundle has invalid tags`);
+    }
+    if (seed.tone !== undefined && !isSeedTone(seed.tone)) {
+      throw new Error(`Seed ${index + 1} in the bundle has an invalid tone`);
+    }
+  });
+
+  const warnings: string[] = [];
+  if (typeof data.version !== 'number') {
+    warnings.push('The bundle has no format version, so it may not reproduce the same pattern.');
+  } else if (data.version > BUNDLE_VERSION) {
+    warnings.push(`The bundle was made by a newer version of the app (format v${data.version}, this app reads v${BUNDLE_VERSION}). Some settings may be ignored.`);
+  } else if (data.version < BUNDLE_VERSION) {
+    warnings.push(`The bundle uses an older format (v${data.version}, current is v${BUNDLE_VERSION}). The pattern may differ slightly.`);
+  }
+
+  return { bundle: data, warnings };
+}
@@ -0,0 +1,380 @@
+// Headless pattern generator: renders patterns from a folder of seed SVGs (or a
+// project bundle) without a browser. Output matches the app's SVG export byte for byte.
+//
+//   npm run cli -- <seed-dir> [options]
+//   npm run cli -- --bundle project.json [options]
+
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { hasStableSeedIds, parseBundle } from './bundle';
+import {
+  ANIMATION_MODES,
+  type AnimationMode,
+  type AnimationSettings,
+  addAnimationMarkup,
+  getCrossfadeSeed,
+  prepareAnimation,
+  restoreAnimation
+} from './core/animation';
+import { EMPTY_CELL_MODES, type EmptyCellMode } from './core/emptyCells';
+import { type SvgExportOptions, defaultExportOptions } from './core/exportSvg';
+import { layoutPattern } from './core/layout';
+import { sanitizeSvg } from './core/sanitize';
+import { normalizeColor } from './core/palette';
+import { renderPdf } from './core/pdf';
+import {
+  type PrintSettings,
+  type PrintUnit,
+  MM_PER_UNIT,
+  buildPrintSvg,
+  isOutsideCmykGamut,
+  printLimits,
+  restorePrint
+} from './core/print';
+import { buildPatternSvg, exportPatternSvg, exportRepeatingPatternSvg } from './core/render';
+import { SEED_FITS, type Seed, type SeedFit, createSeed, parseSeedSvg, planSeedImport } from './core/seeds';
+import { type PatternSettings, gridLimits, parseGridValue, renameSeedIds, restoreSettings } from './core/settings';
+import { transformLimits } from './core/transforms';
+import { serializeXml } from './core/xml';
+
+const USAGE = `Usage: npm run cli -- <seed-dir> [options]
+       npm run cli -- --bundle <project.json> [options]
+
+Seeds:
+  <seed-dir>              Folder of seed SVGs, added in filename order
+  --fit <mode>            Seeds that aren't a whole footprint: fit (default), fill,
+                          stretch or reject
+  --bundle <file>         Project bundle exported from the app; its settings are the defaults
+
+Seed strings:
+  --seed <string>         Seed string (default pattern-2024); repeat for several patterns
+  --range <from>..<to>    Append each number in the range to the seed string, e.g.
+                          --seed pattern- --range 1..20 renders pattern-1 ... pattern-20
+
+Grid:
+  --cols <n>, --rows <n>, --tile-size <px>
+  --large-chance <pct>    Chance of trying a multi-cell seed where one fits
+  --seamless
+
+Transforms:
+  --no-rotation           Keep every tile upright
+  --rotation-step <deg>   Turn tiles by multiples of this angle (default 90)
+  --flips, --vflips       Mirror half the tiles left to right / top to bottom
+  --scale-jitter <min>..<max>
+                          Resize every tile to between min% and max% of its cells
+  --offset-jitter <pct>   Shift every tile by up to this share of a cell
+  --no-clip               Let resized, shifted and turned tiles spill out of their cells
+  --empty <strategy>      How empty cells are chosen: none, clusters, noise, caves,
+                          gradient or image (image needs a bundle with a mask)
+
+Colour:
+  --background <color>
+  --palette <c1,c2,...>   Recolour tiles from these colours
+
+Export:
+  --out <dir>             Output folder (default .)
+  --repeat                Write the repeating <pattern> variant instead
+  --animate <effect>      Write an animated SVG instead: reveal, crossfade (to the layout
+                          of <seed>-1, or the bundle's crossfade seed string) or spin
+  --css                   Animate with CSS rather than SMIL
+  --print <width>         Write a print document trimmed to this width, e.g. 210mm or 8.5in
+  --pdf                   Write the print document as a vector PDF
+  --bleed <length>        Artwork beyond the trim on every side (default 3mm)
+  --no-crop-marks, --registration-marks
+  --check-colors          Warn about colours likely to print duller in CMYK
+  --no-strip-editor, --no-prune, --no-prefix-ids, --inline-uses
+`;
+
+// Report a usage error and stop
+function fail(message: string): never {
+  process.stderr.write(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function readWholeNumber(value: string | undefined, name: string, limits: { min: number; max: number }): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseGridValue(value, limits);
+  if (parsed === null) fail(`--${name} must be a whole number from ${limits.min} to ${limits.max}`);
+  return parsed;
+}
+
+// A print length such as 210mm or 8.5in, in the given unit; a bare number is taken to be in it
+function readPrintLength(value: string, name: string, unit: PrintUnit, limits: { min: number; max: number }): number {
+  const match = /^(\d+(?:\.\d+)?)(mm|in)?$/.exec(value);
+  const mm = match ? parseFloat(match[1]) * MM_PER_UNIT[(match[2] ?? unit) as PrintUnit] : NaN;
+  if (!(mm >= limits.min && mm <= limits.max)) {
+    fail(`--${name} must be a length from ${limits.min}mm to ${limits.max}mm, e.g. ${limits.min * 2}mm`);
+  }
+  return Math.round(mm / MM_PER_UNIT[unit] * 10000) / 10000;
+}
+
+// Seed strings from --seed and --range
+function getSeedStrings(seeds: string[], range: string | undefined, fallback: string): string[] {
+  const bases = seeds.length > 0 ? seeds : [fallback];
+  if (!range) return bases;
+
+  const match = /^(\d+)\.\.(\d+)$/.exec(range);
+  if (!match) fail('--range must look like 1..20');
+  const from = parseInt(match[1], 10);
+  const to = parseInt(match[2], 10);
+  if (to < from) fail('--range must not run backwards');
+
+  return bases.flatMap(base => Array.from({ length: to - from + 1 }, (_, i) => `${base}${from + i}`));
+}
+
+// Load every SVG in a folder as a seed, the same way the app handles uploads
+async function loadSeedDirectory(dir: string, tileSize: number, fitMode: SeedFit): Promise<Seed[]> {
+  const filenames = (await readdir(dir)).filter(name => name.toLowerCase().endsWith('.svg')).sort();
+  const seeds: Seed[] = [];
+
+  for (const filename of filenames) {
+    try {
+      const svgRoot = parseSeedSvg(await readFile(join(dir, filename), 'utf8'));
+      const removed = sanitizeSvg(svgRoot);
+      const { footprint, fit, warnings } = planSeedImport(svgRoot, tileSize, fitMode);
+      [...removed, ...warnings].forEach(warning => process.stderr.write(`${filename}: ${warning}\n`));
+      const seed = createSeed(svgRoot, footprint, filename, fit);
+      const duplicate = seeds.find(existing => existing.id === seed.id);
+      if (duplicate) throw new Error(`Same seed as ${duplicate.filename}`);
+      seeds.push(seed);
+    } catch (error) {
+      process.stderr.write(`Skipping ${filename}: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+    }
+  }
+
+  return seeds;
+}
+
+// Load the seeds and settings of a project bundle, the same way the app imports one.
+// Also returns the bundle's seed ids mapped to the ids the seeds get here.
+async function loadBundle(file: string): Promise<{ seeds: Seed[]; state: Record<string, unknown>; ids: Map<string, string> }> {
+  const { bundle, warnings } = parseBundle(await readFile(file, 'utf8'));
+  warnings.forEach(warning => process.stderr.write(`${warning}\n`));
+
+  const seeds: Seed[] = [];
+  const disabled = new Set<Seed>();
+  const ids = new Map<string, string>();
+  for (const bundleSeed of bundle.seeds) {
+    try {
+      const svgRoot = parseSeedSvg(bundleSeed.svg);
+      sanitizeSvg(svgRoot).forEach(removal => process.stderr.write(`${bundleSeed.filename || bundleSeed.id}: ${removal}\n`));
+      const seed = createSeed(svgRoot, bundleSeed.footprint, bundleSeed.filename, 'stretch', hasStableSeedIds(bundle) ? bundleSeed.id : undefined);
+      ids.set(bundleSeed.id, seed.id);
+      const duplicate = seeds.find(existing => existing.id === seed.id);
+      if (duplicate) {
+        process.stderr.write(`Skipping ${bundleSeed.filename || bundleSeed.id}: Same seed as ${duplicate.filename || duplicate.id}\n`);
+        continue;
+      }
+      seed.weight = bundleSeed.weight ?? 1;
+      seed.tone = bundleSeed.tone ?? null;
+      seeds.push(seed);
+      if (bundleSeed.enabled === false) disabled.add(seed);
+    } catch {
+      process.stderr.write(`Skipping ${bundleSeed.filename || bundleSeed.id}: Invalid SVG format\n`);
+    }
+  }
+  return { seeds: seeds.filter(seed => !disabled.has(seed)), state: bundle.state, ids };
+}
+
+async function main(): Promise<void> {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine();
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (positionals.length > 1) fail('Expected a single seed folder');
+  if ((positionals.length === 0) === (values.bundle === undefined)) fail('Give either a seed folder or --bundle');
+
+  // Settings: the bundle's (when given), then the command-line options
+  const bundle = values.bundle ? await loadBundle(values.bundle) : null;
+  const saved = (bundle?.state ?? {}) as Partial<PatternSettings> & {
+    svgExport?: Partial<SvgExportOptions>;
+    animation?: Partial<AnimationSettings>;
+    print?: Partial<PrintSettings>;
+  };
+  const settings = restoreSettings(saved);
+  if (bundle) renameSeedIds(settings, bundle.ids);
+  const exportOptions: SvgExportOptions = { ...defaultExportOptions, ...saved.svgExport };
+
+  settings.cols = readWholeNumber(values.cols, 'cols', gridLimits.cols) ?? settings.cols;
+  settings.rows = readWholeNumber(values.rows, 'rows', gridLimits.rows) ?? settings.rows;
+  settings.tileSize = readWholeNumber(values['tile-size'], 'tile-size', gridLimits.tileSize) ?? settings.tileSize;
+  const largeChance = readWholeNumber(values['large-chance'], 'large-chance', { min: 0, max: 100 });
+  if (largeChance !== undefined) settings.largeSeedChance = largeChance / 100;
+  const transforms = settings.transforms;
+  if (values['no-rotation']) transforms.rotation = { ...transforms.rotation, chance: 0 };
+  transforms.rotation.step = readWholeNumber(values['rotation-step'], 'rotation-step', transformLimits.step) ?? transforms.rotation.step;
+  if (values.flips) transforms.flipX = { chance: 0.5 };
+  if (values.vflips) transforms.flipY = { chance: 0.5 };
+  if (values['scale-jitter'] !== undefined) {
+    const match = /^(\d+)\.\.(\d+)$/.exec(values['scale-jitter']);
+    if (!match) fail('--scale-jitter must look like 80..120');
+    const min = readWholeNumber(match[1], 'scale-jitter', transformLimits.scale)!;
+    const max = readWholeNumber(match[2], 'scale-jitter', transformLimits.scale)!;
+    transforms.scale = { chance: 1, min: min / 100, max: max / 100 };
+  }
+  const offset = readWholeNumber(values['offset-jitter'], 'offset-jitter', transformLimits.offset);
+  if (offset !== undefined) transforms.offset = { chance: 1, amount: offset / 100 };
+  if (values['no-clip']) transforms.clip = false;
+  if (values.empty !== undefined) {
+    if (!EMPTY_CELL_MODES.includes(values.empty as EmptyCellMode)) fail(`--empty must be one of ${EMPTY_CELL_MODES.join(', ')}`);
+    settings.emptyCells = { ...settings.emptyCells, mode: values.empty as EmptyCellMode };
+  }
+  if (values.seamless) settings.seamless = true;
+  if (values.background !== undefined) {
+    settings.background = normalizeColor(values.background) ?? fail(`Unknown colour ${values.background}`);
+  }
+  if (values.palette !== undefined) {
+    settings.palette = values.palette.split(',').map(color => normalizeColor(color) ?? fail(`Unknown colour ${color}`));
+    settings.colorize = true;
+  }
+  if (values['no-strip-editor']) exportOptions.stripEditorElements = false;
+  if (values['no-prune']) exportOptions.pruneUnusedSymbols = false;
+  if (values['no-prefix-ids']) exportOptions.prefixIds = false;
+  if (values['inline-uses']) exportOptions.inlineUses = true;
+  const animation = restoreAnimation(saved.animation);
+  if (values.animate !== undefined) {
+    if (!ANIMATION_MODES.includes(values.animate as AnimationMode)) fail(`--animate must be one of ${ANIMATION_MODES.join(', ')}`);
+    if (values.repeat) fail('--animate and --repeat cannot be combined');
+    animation.mode = values.animate as AnimationMode;
+  }
+  if (values.css) animation.format = 'css';
+  const print = restorePrint(saved.print);
+  const printing = values.print !== undefined || values.pdf === true;
+  if (printing && (values.repeat || values.animate !== undefined)) fail('--print and --pdf cannot be combined with --repeat or --animate');
+  if (values.print !== undefined) {
+    // The width's unit becomes the document's
+    const unit = /(mm|in)$/.exec(values.print)?.[1] as PrintUnit | undefined;
+    if (unit && unit !== print.unit) {
+      print.bleed = Math.round(print.bleed * MM_PER_UNIT[print.unit] / MM_PER_UNIT[unit] * 10000) / 10000;
+      print.unit = unit;
+    }
+    print.width = readPrintLength(values.print, 'print', print.unit, printLimits.width);
+  }
+  if (values.bleed !== undefined) print.bleed = readPrintLength(values.bleed, 'bleed', print.unit, printLimits.bleed);
+  if (values['no-crop-marks']) print.cropMarks = false;
+  if (values['registration-marks']) print.registrationMarks = true;
+
+  const fit = (values.fit ?? 'fit') as SeedFit;
+  if (!SEED_FITS.includes(fit)) fail(`--fit must be one of ${SEED_FITS.join(', ')}`);
+  const seeds = bundle ? bundle.seeds : await loadSeedDirectory(positionals[0], settings.tileSize, fit);
+  if (seeds.length === 0) fail('No usable seed SVGs found');
+
+  if (values['check-colors']) {
+    const colors = new Set([settings.background, ...(settings.colorize ? settings.palette : seeds.flatMap(seed => seed.colors))]);
+    Array.from(colors).filter(isOutsideCmykGamut).forEach(color => {
+      process.stderr.write(`${color} is likely to print duller in CMYK\n`);
+    });
+  }
+
+  // Seed tones can only be measured in the browser, so they come from the bundle
+  if (settings.mosaic.enabled && settings.mosaic.image && seeds.some(seed => seed.tone === null)) {
+    process.stderr.write('Mosaic mode needs seed tones from a bundle exported by the app; picking seeds at random instead\n');
+  }
+
+  const outDir = values.out ?? '.';
+  await mkdir(outDir, { recursive: true });
+
+  for (const seed of getSeedStrings(values.seed ?? [], values.range, settings.seed)) {
+    // As when randomizing in the app, only locked cells carry over to other seed strings
+    const cellOverrides = seed === settings.seed
+      ? settings.cellOverrides
+      : settings.cellOverrides.filter(override => override.locked);
+    const patternSettings = { ...settings, seed, cellOverrides };
+    const layout = layoutPattern(seeds, patternSettings);
+    if (layout.blockedCells > 0) {
+      process.stderr.write(`${seed}: the rules left ${layout.blockedCells} cell(s) empty\n`);
+    }
+
+    if (printing) {
+      const { svg, geometry } = buildPrintSvg(seeds, patternSettings, layout, print, exportOptions);
+      const filename = `pattern-${seed || 'export'}-print.${values.pdf ? 'pdf' : 'svg'}`;
+      if (values.pdf) {
+        const { data, warnings } = renderPdf(svg, { title: `Pattern ${seed}`, trim: geometry.trim, bleed: geometry.bleed });
+        warnings.forEach(warning => process.stderr.write(`${seed}: ${warning}\n`));
+        await writeFile(join(outDir, filename), data);
+      } else {
+        await writeFile(join(outDir, filename), serializeXml(svg));
+      }
+      process.stdout.write(`${join(outDir, filename)}\n`);
+      continue;
+    }
+
+    const svg = buildPatternSvg(seeds, patternSettings, layout);
+    let suffix = values.repeat ? '-repeat' : '';
+    if (values.animate !== undefined) {
+      const secondSettings = {
+        ...patternSettings,
+        seed: getCrossfadeSeed(seed, animation),
+        cellOverrides: settings.cellOverrides.filter(override => override.locked)
+      };
+      const second = animation.mode === 'crossfade'
+        ? buildPatternSvg(seeds, secondSettings, layoutPattern(seeds, secondSettings))
+        : null;
+      addAnimationMarkup(prepareAnimation(svg, patternSettings, animation, second));
+      suffix = `-${animation.mode}`;
+    }
+    const output = values.repeat
+      ? exportRepeatingPatternSvg(svg, exportOptions)
+      : exportPatternSvg(svg, exportOptions);
+    // Same filenames as the app's downloads
+    const filename = `pattern-${seed || 'export'}${suffix}.svg`;
+    await writeFile(join(outDir, filename), output);
+    process.stdout.write(`${join(outDir, filename)}\n`);
+  }
+}
+
+function parseCommandLine() {
+  return parseArgs({
+    allowPositionals: true,
+    options: {
+      bundle: { type: 'string' },
+      fit: { type: 'string' },
+      seed: { type: 'string', multiple: true },
+      range: { type: 'string' },
+      cols: { type: 'string' },
+      rows: { type: 'string' },
+      'tile-size': { type: 'string' },
+      'large-chance': { type: 'string' },
+      'no-rotation': { type: 'boolean' },
+      'rotation-step': { type: 'string' },
+      flips: { type: 'boolean' },
+      vflips: { type: 'boolean' },
+      'scale-jitter': { type: 'string' },
+      'offset-jitter': { type: 'string' },
+      'no-clip': { type: 'boolean' },
+      empty: { type: 'string' },
+      seamless: { type: 'boolean' },
+      background: { type: 'string' },
+      palette: { type: 'string' },
+      out: { type: 'string' },
+      repeat: { type: 'boolean' },
+      'no-strip-editor': { type: 'boolean' },
+      'no-prune': { type: 'boolean' },
+      'no-prefix-ids': { type: 'boolean' },
+      'inline-uses': { type: 'boolean' },
+      animate: { type: 'string' },
+      css: { type: 'boolean' },
+      print: { type: 'string' },
+      pdf: { type: 'boolean' },
+      bleed: { type: 'string' },
+      'no-crop-marks': { type: 'boolean' },
+      'registration-marks': { type: 'boolean' },
+      'check-colors': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
+
+main().catch(error => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
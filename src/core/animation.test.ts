@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixtureSeeds } from '../test/fixtures';
+import {
+  type AnimationSettings,
+  addAnimationMarkup,
+  defaultAnimation,
+  getCrossfadeSeed,
+  poseAnimationFrame,
+  prepareAnimation,
+  restoreAnimation
+} from './animation';
+import { defaultExportOptions } from './exportSvg';
+import { layoutPattern } from './layout';
+import { buildPatternSvg, exportPatternSvg } from './render';
+import { type PatternSettings, defaultSettings } from './settings';
+import { type XmlElement, descendants, elementChildren, localName, serializeXml } from './xml';
+
+const seeds = loadFixtureSeeds(['square.svg', 'circle.svg', 'wide.svg', 'large.svg']);
+const pattern: PatternSettings = { ...defaultSettings, seed: 'animation-1', cols: 5, rows: 4 };
+
+function buildDocument(settings: PatternSettings = pattern): XmlElement {
+  return buildPatternSvg(seeds, settings, layoutPattern(seeds, settings));
+}
+
+function animate(overrides: Partial<AnimationSettings>) {
+  const settings = { ...defaultAnimation, ...overrides };
+  const second = settings.mode === 'crossfade'
+    ? buildDocument({ ...pattern, seed: getCrossfadeSeed(pattern.seed, settings) })
+    : null;
+  return prepareAnimation(buildDocument(), pattern, settings, second);
+}
+
+function tileGroups(svg: XmlElement): XmlElement[] {
+  return elementChildren(svg).filter(el => el.attributes.has('data-cell'));
+}
+
+function opacities(svg: XmlElement): number[] {
+  return tileGroups(svg).map(group => Number(group.attributes.get('opacity')));
+}
+
+describe('prepareAnimation', () => {
+  it('gives every tile group a track', () => {
+    const animation = animate({});
+    expect(animation.tracks.map(track => track.group)).toEqual(tileGroups(animation.svg));
+  });
+
+  it('reveals tiles in order, starting from nothing', () => {
+    const animation = animate({ order: 'rows', loop: false });
+    poseAnimationFrame(animation, 0);
+    expect(opacities(animation.svg).every(opacity => opacity === 0)).toBe(true);
+
+    // Halfway through, earlier rows are further along than later ones
+    poseAnimationFrame(animation, defaultAnimation.duration / 2);
+    const byCell = animation.tracks.map(track => ({
+      row: Number(track.group.attributes.get('data-cell')!.split('-')[0]),
+      opacity: Number(track.group.attributes.get('opacity'))
+    }));
+    const first = byCell.filter(tile => tile.row === 0).map(tile => tile.opacity);
+    const last = byCell.filter(tile => tile.row === pattern.rows - 1).map(tile => tile.opacity);
+    expect(Math.min(...first)).toBeGreaterThan(Math.max(...last));
+
+    poseAnimationFrame(animation, defaultAnimation.duration);
+    expect(opacities(animation.svg).every(opacity => opacity === 1)).toBe(true);
+  });
+
+  it('crossfades from one layout to the other', () => {
+    const animation = animate({ mode: 'crossfade', loop: false });
+    const first = tileGroups(buildDocument()).length;
+    const second = tileGroups(buildDocument({ ...pattern, seed: 'animation-1-1' })).length;
+    expect(animation.tracks).toHaveLength(first + second);
+
+    poseAnimationFrame(animation, 0);
+    expect(opacities(animation.svg)).toEqual([...Array(first).fill(1), ...Array(second).fill(0)]);
+    poseAnimationFrame(animation, defaultAnimation.duration);
+    expect(opacities(animation.svg)).toEqual([...Array(first).fill(0), ...Array(second).fill(1)]);
+  });
+
+  it('merges the definitions the second layout needs', () => {
+    const animation = animate({ mode: 'crossfade' });
+    const ids = new Set(descendants(animation.svg).map(el => el.attributes.get('id')).filter(Boolean));
+    descendants(animation.svg)
+      .filter(el => localName(el.name) === 'use')
+      .forEach(use => expect(ids.has(use.attributes.get('href')!.slice(1))).toBe(true));
+  });
+
+  it('spins each tile about its centre without touching its placement', () => {
+    const placed = tileGroups(buildDocument()).map(group => group.attributes.get('transform'));
+    const animation = animate({ mode: 'spin', stagger: 0 });
+    expect(tileGroups(animation.svg).map(group => group.attributes.get('transform'))).toEqual(placed);
+
+    poseAnimationFrame(animation, defaultAnimation.duration / 4);
+    const spins = animation.tracks.flatMap(track => track.spins);
+    expect(spins.length).toBeGreaterThan(0);
+    spins.forEach(({ element }) => expect(element.attributes.get('transform')).toMatch(/^rotate\(90 \d+ \d+\)$/));
+  });
+
+  it('orders tiles randomly but repeatably', () => {
+    const phases = (seed: string) => prepareAnimation(buildDocument(), { ...pattern, seed }, { ...defaultAnimation, mode: 'spin', order: 'random' }, null)
+      .tracks.map(track => track.phase);
+    expect(phases('animation-1')).toEqual(phases('animation-1'));
+    expect(phases('animation-1')).not.toEqual(phases('animation-2'));
+  });
+});
+
+describe('addAnimationMarkup', () => {
+  it('writes SMIL animations', () => {
+    const animation = animate({ mode: 'spin' });
+    addAnimationMarkup(animation);
+    const svg = serializeXml(animation.svg);
+    expect(svg).toContain('<animateTransform attributeName="transform" type="rotate"');
+    expect(svg).toContain('repeatCount="indefinite"');
+    expect(svg).not.toContain('<style');
+  });
+
+  it('writes CSS keyframes shared between identical tracks', () => {
+    const animation = animate({ format: 'css', loop: false, stagger: 0 });
+    addAnimationMarkup(animation);
+    const style = elementChildren(animation.svg)[0];
+    expect(style.attributes.get('id')).toBe('animation-style');
+    // With no stagger every tile fades in together, so one animation serves them all
+    expect(serializeXml(style).match(/@keyframes/g)).toHaveLength(1);
+    expect(tileGroups(animation.svg).every(group => group.attributes.get('class') === 'minka-fade-1')).toBe(true);
+    expect(serializeXml(animation.svg)).not.toContain('<animate');
+  });
+
+  it('survives the export passes', () => {
+    const animation = animate({ mode: 'spin' });
+    addAnimationMarkup(animation);
+    const svg = exportPatternSvg(animation.svg, { ...defaultExportOptions, inlineUses: true });
+    expect(svg).toContain('<animateTransform');
+    expect(svg).not.toContain('<use');
+  });
+});
+
+describe('restoreAnimation', () => {
+  it('falls back to the defaults for missing or invalid values', () => {
+    expect(restoreAnimation(undefined)).toEqual(defaultAnimation);
+    expect(restoreAnimation({ mode: 'wobble' as never, duration: 0, stagger: 2, crossfadeSeed: 'next' }))
+      .toEqual({ ...defaultAnimation, crossfadeSeed: 'next' });
+  });
+});
@@ -0,0 +1,352 @@
+// Animation: moves the tiles of a pattern document, one g[data-cell] group at a
+// time. The same plan is written out as SMIL or CSS for animated SVGs, or posed
+// frame by frame for GIF and APNG, so every format shows the same motion.
+
+import { hashSeed, mulberry32 } from './random';
+import type { PatternSettings } from './settings';
+import {
+  type XmlElement,
+  appendChild,
+  createElement,
+  descendants,
+  elementChildren,
+  findById,
+  insertBefore,
+  localName,
+  replaceNode,
+  setTextContent
+} from './xml';
+
+// Tiles fade in one by one, fade from one layout to another, or turn in place a quarter at a time
+export type AnimationMode = 'reveal' | 'crossfade' | 'spin';
+
+// Which tiles move first
+export type AnimationOrder = 'diagonal' | 'rows' | 'random';
+
+export type AnimationFormat = 'smil' | 'css';
+
+export const ANIMATION_MODES: AnimationMode[] = ['reveal', 'crossfade', 'spin'];
+export const ANIMATION_ORDERS: AnimationOrder[] = ['diagonal', 'rows', 'random'];
+
+export interface AnimationSettings {
+  mode: AnimationMode;
+  format: AnimationFormat; // How an animated SVG is animated
+  duration: number; // Seconds per cycle
+  stagger: number; // Share (0-1) of each move that the tiles' start times spread over; 0 moves them together
+  order: AnimationOrder;
+  loop: boolean; // Repeat forever; otherwise play once and hold the last frame
+  crossfadeSeed: string; // Seed string of the layout to crossfade to; empty uses `<seed>-1`
+}
+
+export const defaultAnimation: AnimationSettings = {
+  mode: 'reveal',
+  format: 'smil',
+  duration: 4,
+  stagger: 0.8,
+  order: 'diagonal',
+  loop: true,
+  crossfadeSeed: ''
+};
+
+export const animationLimits = {
+  duration: { min: 0.5, max: 60 } // Seconds
+};
+
+// A value at a point of the cycle, as a share (0-1) of it
+interface Keyframe {
+  time: number;
+  value: number;
+}
+
+// How one tile group moves
+interface TileTrack {
+  group: XmlElement; // A tile's g[data-cell]; tiles crossing an edge have one per piece
+  spins: Array<{ element: XmlElement; center: string }>; // Groups around the tile's <use>s, turned about their centres
+  opacity: Keyframe[] | null;
+  rotation: Keyframe[] | null;
+  phase: number; // Share of a cycle the rotation runs ahead by
+}
+
+// A pattern document ready to animate
+export interface PatternAnimation {
+  svg: XmlElement;
+  settings: AnimationSettings;
+  tracks: TileTrack[];
+}
+
+// Shortest fade of a single tile, as a share of the move it is part of
+const MIN_FADE = 0.08;
+// Share of each quarter of a spin spent standing still
+const SPIN_HOLD = 0.6;
+
+// The layout a crossfade ends on
+export function getCrossfadeSeed(seed: string, animation: AnimationSettings): string {
+  return animation.crossfadeSeed.trim() || `${seed}-1`;
+}
+
+// Start and end of a tile's move within a window of the cycle. Tiles further
+// along the order start later; with no stagger they all move together.
+function moveWindow(position: number, stagger: number, from: number, to: number): [number, number] {
+  const spread = stagger * (1 - MIN_FADE);
+  const start = position * spread;
+  return [from + start * (to - from), from + (start + 1 - spread) * (to - from)];
+}
+
+function keyframes(...points: Array<[number, number]>): Keyframe[] {
+  return points.map(([time, value]) => ({ time: Math.round(time * 10000) / 10000, value }));
+}
+
+// Opacity of a tile revealed at its place in the order; looping reveals fade everything out at the end
+function revealTrack(position: number, settings: AnimationSettings): Keyframe[] {
+  if (!settings.loop) {
+    const [start, end] = moveWindow(position, settings.stagger, 0, 1);
+    return keyframes([0, 0], [start, 0], [end, 1], [1, 1]);
+  }
+  const [start, end] = moveWindow(position, settings.stagger, 0, 0.75);
+  return keyframes([0, 0], [start, 0], [end, 1], [0.9, 1], [1, 0]);
+}
+
+// Opacity of a tile in the first (fading out) or second (fading in) layout;
+// looping crossfades fade back in the second half of the cycle
+function crossfadeTrack(position: number, settings: AnimationSettings, fadingIn: boolean): Keyframe[] {
+  const [from, to] = fadingIn ? [0, 1] : [1, 0];
+  if (!settings.loop) {
+    const [start, end] = moveWindow(position, settings.stagger, 0, 1);
+    return keyframes([0, from], [start, from], [end, to], [1, to]);
+  }
+  const [outStart, outEnd] = moveWindow(position, settings.stagger, 0.05, 0.45);
+  const [backStart, backEnd] = moveWindow(position, settings.stagger, 0.55, 0.95);
+  return keyframes([0, from], [outStart, from], [outEnd, to], [backStart, to], [backEnd, from], [1, from]);
+}
+
+// Rotation through a full turn, a quarter at a time with a pause before each
+function spinTrack(): Keyframe[] {
+  const points: Array<[number, number]> = [[0, 0]];
+  for (let quarter = 0; quarter < 4; quarter++) {
+    points.push([(quarter + SPIN_HOLD) / 4, quarter * 90], [(quarter + 1) / 4, (quarter + 1) * 90]);
+  }
+  return keyframes(...points);
+}
+
+// Value of a track at a point of the cycle
+function sampleTrack(track: Keyframe[], time: number): number {
+  for (let i = 1; i < track.length; i++) {
+    const previous = track[i - 1];
+    const next = track[i];
+    if (time <= next.time) {
+      const span = next.time - previous.time;
+      return span > 0 ? previous.value + (next.value - previous.value) * (time - previous.time) / span : next.value;
+    }
+  }
+  return track[track.length - 1].value;
+}
+
+// Tile groups of a pattern document
+function getTileGroups(svg: XmlElement): XmlElement[] {
+  return elementChildren(svg).filter(el => el.attributes.has('data-cell'));
+}
+
+// Bring the second layout's tiles and any definitions they need into the first document
+function mergeLayout(svg: XmlElement, second: XmlElement): XmlElement[] {
+  const tiles = getTileGroups(svg);
+  const after = tiles.length > 0 ? tiles[tiles.length - 1] : null;
+  const anchor = after ? svg.children[svg.children.indexOf(after) + 1] ?? null : null;
+
+  elementChildren(second).forEach(el => {
+    if (localName(el.name) !== 'defs') return;
+    const existing = findById(svg, el.attributes.get('id') ?? '');
+    if (!existing) {
+      insertBefore(svg, el, tiles[0] ?? null);
+      return;
+    }
+    elementChildren(el)
+      .filter(definition => !findById(existing, definition.attributes.get('id') ?? ''))
+      .forEach(definition => appendChild(existing, definition));
+  });
+
+  const added = getTileGroups(second);
+  added.forEach(group => insertBefore(svg, group, anchor));
+  return added;
+}
+
+// Where each tile comes in the order, from 0 (first) to 1 (last)
+function getOrderPositions(groups: XmlElement[], pattern: PatternSettings, order: AnimationOrder): Map<string, number> {
+  const positions = new Map<string, number>();
+  const cells = Array.from(new Set(groups.map(group => group.attributes.get('data-cell')!)));
+  const rng = mulberry32(hashSeed(`${pattern.seed}:animation`));
+  cells.forEach(cell => {
+    const [row, col] = cell.split('-').map(Number);
+    const position = order === 'random' ? rng()
+      : order === 'rows' ? (row * pattern.cols + col) / Math.max(1, pattern.rows * pattern.cols - 1)
+        : (row + col) / Math.max(1, pattern.rows + pattern.cols - 2);
+    positions.set(cell, position);
+  });
+  return positions;
+}
+
+// Wrap each <use> of a tile in a group that can turn about the use's centre
+// without touching the transforms that place the tile
+function wrapUses(group: XmlElement): TileTrack['spins'] {
+  return descendants(group)
+    .filter(el => localName(el.name) === 'use')
+    .map(use => {
+      const width = parseFloat(use.attributes.get('width') ?? '0');
+      const height = parseFloat(use.attributes.get('height') ?? '0');
+      const element = createElement('g');
+      replaceNode(use, element);
+      appendChild(element, use);
+      return { element, center: `${width / 2} ${height / 2}` };
+    });
+}
+
+// Plan the motion of every tile. For a crossfade, `second` is the document of
+// the layout to fade to; its tiles are moved into `svg`.
+export function prepareAnimation(
+  svg: XmlElement,
+  pattern: PatternSettings,
+  settings: AnimationSettings,
+  second: XmlElement | null = null
+): PatternAnimation {
+  const incoming = new Set(settings.mode === 'crossfade' && second ? mergeLayout(svg, second) : []);
+  const groups = getTileGroups(svg);
+  const positions = getOrderPositions(groups, pattern, settings.order);
+
+  const tracks = groups.map(group => {
+    const position = positions.get(group.attributes.get('data-cell')!) ?? 0;
+    const track: TileTrack = { group, spins: [], opacity: null, rotation: null, phase: 0 };
+    if (settings.mode === 'reveal') {
+      track.opacity = revealTrack(position, settings);
+    } else if (settings.mode === 'crossfade') {
+      track.opacity = crossfadeTrack(position, settings, incoming.has(group));
+    } else {
+      track.spins = wrapUses(group);
+      track.rotation = spinTrack();
+      track.phase = Math.round(position * settings.stagger * 10000) / 10000;
+    }
+    return track;
+  });
+
+  return { svg, settings, tracks };
+}
+
+// Seconds and percentages, without floating-point noise
+function formatSeconds(seconds: number): string {
+  return `${Math.round(seconds * 1000) / 1000}s`;
+}
+
+function formatPercent(share: number): string {
+  return `${Math.round(share * 1000000) / 10000}%`;
+}
+
+function addSmil(animation: PatternAnimation): void {
+  const { duration, loop } = animation.settings;
+  const timing = { dur: formatSeconds(duration), ...(loop ? { repeatCount: 'indefinite' } : { fill: 'freeze' }) };
+
+  animation.tracks.forEach(({ group, spins, opacity, rotation, phase }) => {
+    if (opacity) {
+      appendChild(group, createElement('animate', {
+        attributeName: 'opacity',
+        values: opacity.map(frame => frame.value).join(';'),
+        keyTimes: opacity.map(frame => frame.time).join(';'),
+        ...timing
+      }));
+    }
+    if (rotation) {
+      spins.forEach(({ element, center }) => {
+        appendChild(element, createElement('animateTransform', {
+          attributeName: 'transform',
+          type: 'rotate',
+          values: rotation.map(frame => `${frame.value} ${center}`).join(';'),
+          keyTimes: rotation.map(frame => frame.time).join(';'),
+          ...(phase > 0 && { begin: formatSeconds(-phase * duration) }),
+          ...timing
+        }));
+      });
+    }
+  });
+}
+
+function addCss(animation: PatternAnimation): void {
+  const { duration, loop } = animation.settings;
+  const timing = `${formatSeconds(duration)} linear ${loop ? 'infinite' : '1 both'}`;
+  const rules: string[] = [];
+  const names = new Map<string, string>(); // Keyframes -> animation name, so identical tracks share one
+
+  const getName = (frames: string, prefix: string): string => {
+    let name = names.get(frames);
+    if (!name) {
+      name = `minka-${prefix}-${names.size + 1}`;
+      names.set(frames, name);
+      rules.push(`@keyframes ${name} { ${frames} }`, `.${name} { animation: ${name} ${timing}; }`);
+    }
+    return name;
+  };
+  const addClass = (element: XmlElement, name: string): void => {
+    const classes = element.attributes.get('class');
+    element.attributes.set('class', classes ? `${classes} ${name}` : name);
+  };
+
+  animation.tracks.forEach(({ group, spins, opacity, rotation, phase }) => {
+    if (opacity) {
+      const frames = opacity.map(frame => `${formatPercent(frame.time)} { opacity: ${frame.value}; }`).join(' ');
+      addClass(group, getName(frames, 'fade'));
+    }
+    if (rotation) {
+      const frames = rotation.map(frame => `${formatPercent(frame.time)} { transform: rotate(${frame.value}deg); }`).join(' ');
+      const name = getName(frames, 'spin');
+      spins.forEach(({ element, center }) => {
+        addClass(element, name);
+        const [x, y] = center.split(' ');
+        const delay = phase > 0 ? ` animation-delay: ${formatSeconds(-phase * duration)};` : '';
+        element.attributes.set('style', `transform-origin: ${x}px ${y}px;${delay}`);
+      });
+    }
+  });
+
+  const style = createElement('style', { id: 'animation-style' });
+  setTextContent(style, rules.join('\n'));
+  insertBefore(animation.svg, style, animation.svg.children[0] ?? null);
+}
+
+// Write the animation into the document as SMIL elements or a CSS stylesheet
+export function addAnimationMarkup(animation: PatternAnimation): void {
+  if (animation.settings.format === 'css') {
+    addCss(animation);
+  } else {
+    addSmil(animation);
+  }
+}
+
+// Pose the document as it looks `seconds` into the animation, for rendering a frame
+export function poseAnimationFrame(animation: PatternAnimation, seconds: number): void {
+  const { duration, loop } = animation.settings;
+  const cycleTime = (time: number): number => loop ? ((time % 1) + 1) % 1 : Math.min(1, Math.max(0, time));
+  const time = seconds / duration;
+
+  animation.tracks.forEach(({ group, spins, opacity, rotation, phase }) => {
+    if (opacity) {
+      group.attributes.set('opacity', String(Math.round(sampleTrack(opacity, cycleTime(time)) * 1000) / 1000));
+    }
+    if (rotation) {
+      const angle = Math.round(sampleTrack(rotation, cycleTime(time + phase)) * 100) / 100;
+      spins.forEach(({ element, center }) => element.attributes.set('transform', `rotate(${angle} ${center})`));
+    }
+  });
+}
+
+// Merge saved animation settings over the defaults
+export function restoreAnimation(saved: Partial<AnimationSettings> | undefined): AnimationSettings {
+  const defaults = defaultAnimation;
+  const { min, max } = animationLimits.duration;
+  return {
+    mode: ANIMATION_MODES.includes(saved?.mode as AnimationMode) ? saved!.mode! : defaults.mode,
+    format: saved?.format === 'css' ? 'css' : 'smil',
+    duration: typeof saved?.duration === 'number' && saved.duration >= min && saved.duration <= max
+      ? saved.duration
+      : defaults.duration,
+    stagger: typeof saved?.stagger === 'number' && saved.stagger >= 0 && saved.stagger <= 1 ? saved.stagger : defaults.stagger,
+    order: ANIMATION_ORDERS.includes(saved?.order as AnimationOrder) ? saved!.order! : defaults.order,
+    loop: typeof saved?.loop === 'boolean' ? saved.loop : defaults.loop,
+    crossfadeSeed: typeof saved?.crossfadeSeed === 'string' ? saved.crossfadeSeed : defaults.crossfadeSeed
+  };
+}
@@ -0,0 +1,154 @@
+// Placement rules checked while the grid is filled. Each candidate tile is
+// tested against the tiles already placed around it; the caller re-samples
+// among the candidates that pass.
+
+export interface ConstraintRules {
+  noAdjacentDuplicates: boolean; // The same seed never shares an edge with itself
+  maxCopies: number; // Per seed; 0 = no limit
+  forbiddenPairs: Array<[string, string]>; // Seed ids that never share an edge
+  maxColorRun: number; // Longest horizontal or vertical run of one colour, in cells; 0 = no limit
+}
+
+export type ConstraintRule = 'adjacent' | 'copies' | 'pair' | 'colorRun';
+
+export const RULE_LABELS: Record<ConstraintRule, string> = {
+  adjacent: 'no identical neighbours',
+  copies: 'max copies per seed',
+  pair: 'never-adjacent pairs',
+  colorRun: 'max same-colour run'
+};
+
+// A tile as the rules see it. Its colour is the seed's dominant colour
+// (after recolouring), or null when it has none.
+interface PlacedTile {
+  seedId: string;
+  color: string | null;
+}
+
+export interface ConstraintGrid {
+  rows: number;
+  cols: number;
+  wrap: boolean; // Seamless mode: neighbours and runs continue across the edges
+  cells: Map<string, PlacedTile>;
+  copies: Map<string, number>;
+}
+
+export function hasActiveRules(rules: ConstraintRules): boolean {
+  return rules.noAdjacentDuplicates || rules.maxCopies > 0 ||
+    rules.forbiddenPairs.length > 0 || rules.maxColorRun > 0;
+}
+
+export function createConstraintGrid(rows: number, cols: number, wrap: boolean): ConstraintGrid {
+  return { rows, cols, wrap, cells: new Map(), copies: new Map() };
+}
+
+// Key of a cell, wrapped in seamless mode; null when outside the grid
+function cellKey(grid: ConstraintGrid, row: number, col: number): string | null {
+  if (grid.wrap) {
+    return `${((row % grid.rows) + grid.rows) % grid.rows},${((col % grid.cols) + grid.cols) % grid.cols}`;
+  }
+  if (row < 0 || row >= grid.rows || col < 0 || col >= grid.cols) return null;
+  return `${row},${col}`;
+}
+
+function isForbiddenPair(rules: ConstraintRules, a: string, b: string): boolean {
+  return rules.forbiddenPairs.some(([first, second]) =>
+    (first === a && second === b) || (first === b && second === a));
+}
+
+// Length of the run of `color` through a cell along one axis, counting the candidate's own cells
+function runLength(
+  grid: ConstraintGrid,
+  colorAt: (row: number, col: number) => string | null,
+  color: string,
+  row: number,
+  col: number,
+  dRow: number,
+  dCol: number
+): number {
+  const limit = dRow !== 0 ? grid.rows : grid.cols;
+  let length = 1;
+  for (const sign of [1, -1]) {
+    for (let step = 1; length < limit && colorAt(row + dRow * step * sign, col + dCol * step * sign) === color; step++) {
+      length++;
+    }
+  }
+  return length;
+}
+
+// The first rule a tile would break if placed with its top-left cell at (row, col), or null if it fits
+export function checkPlacement(
+  grid: ConstraintGrid,
+  rules: ConstraintRules,
+  row: number,
+  col: number,
+  footprint: { width: number; height: number },
+  seedId: string,
+  color: string | null
+): ConstraintRule | null {
+  if (rules.maxCopies > 0 && (grid.copies.get(seedId) ?? 0) >= rules.maxCopies) {
+    return 'copies';
+  }
+
+  const own = new Set<string>();
+  for (let r = row; r < row + footprint.height; r++) {
+    for (let c = col; c < col + footprint.width; c++) {
+      const key = cellKey(grid, r, c);
+      if (key) own.add(key);
+    }
+  }
+
+  if (rules.noAdjacentDuplicates || rules.forbiddenPairs.length > 0) {
+    const neighbours: Array<[number, number]> = [];
+    for (let c = col; c < col + footprint.width; c++) {
+      neighbours.push([row - 1, c], [row + footprint.height, c]);
+    }
+    for (let r = row; r < row + footprint.height; r++) {
+      neighbours.push([r, col - 1], [r, col + footprint.width]);
+    }
+
+    for (const [r, c] of neighbours) {
+      const key = cellKey(grid, r, c);
+      const neighbour = key && !own.has(key) ? grid.cells.get(key) : undefined;
+      if (!neighbour) continue;
+      if (rules.noAdjacentDuplicates && neighbour.seedId === seedId) return 'adjacent';
+      if (isForbiddenPair(rules, seedId, neighbour.seedId)) return 'pair';
+    }
+  }
+
+  if (rules.maxColorRun > 0 && color !== null) {
+    const colorAt = (r: number, c: number): string | null => {
+      const key = cellKey(grid, r, c);
+      if (!key) return null;
+      return own.has(key) ? color : grid.cells.get(key)?.color ?? null;
+    };
+    for (let r = row; r < row + footprint.height; r++) {
+      for (let c = col; c < col + footprint.width; c++) {
+        if (runLength(grid, colorAt, color, r, c, 0, 1) > rules.maxColorRun ||
+          runLength(grid, colorAt, color, r, c, 1, 0) > rules.maxColorRun) {
+          return 'colorRun';
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// Record a placed tile so later checks see it
+export function recordPlacement(
+  grid: ConstraintGrid,
+  row: number,
+  col: number,
+  footprint: { width: number; height: number },
+  seedId: string,
+  color: string | null
+): void {
+  for (let r = row; r < row + footprint.height; r++) {
+    for (let c = col; c < col + footprint.width; c++) {
+      const key = cellKey(grid, r, c);
+      if (key) grid.cells.set(key, { seedId, color });
+    }
+  }
+  grid.copies.set(seedId, (grid.copies.get(seedId) ?? 0) + 1);
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { seedStrings } from '../test/fixtures';
+import { defaultEmptyCells, generateEmptyClusters } from './emptyCells';
+import { hashSeed, mulberry32 } from './random';
+
+const rowsOf = (cells: Set<string>): number[] => Array.from(cells, key => Number(key.split(',')[0]));
+
+describe('generateEmptyClusters', () => {
+  it('never empties the first or last row', () => {
+    for (const seed of seedStrings(100)) {
+      for (const [rows, cols] of [[3, 3], [5, 8], [12, 7], [20, 20]]) {
+        for (const radius of [0, 1, 3]) {
+          const params = { ...defaultEmptyCells.clusters, density: 0.3, radius, falloff: 0 };
+          const cells = generateEmptyClusters(rows, cols, mulberry32(hashSeed(seed)), false, params);
+          expect(rowsOf(cells).filter(row => row === 0 || row === rows - 1)).toEqual([]);
+        }
+      }
+    }
+  });
+
+  it('leaves grids without interior rows alone', () => {
+    for (const rows of [1, 2]) {
+      expect(generateEmptyClusters(rows, 10, mulberry32(1)).size).toBe(0);
+    }
+  });
+
+  it('may use the edge rows when they are not avoided', () => {
+    const params = { ...defaultEmptyCells.clusters, density: 0.5, avoidEdgeRows: false };
+    const rows = seedStrings(20).flatMap(seed => rowsOf(generateEmptyClusters(5, 5, mulberry32(hashSeed(seed)), false, params)));
+    expect(rows).toContain(0);
+    expect(rows).toContain(4);
+  });
+
+  it('is deterministic for a seed string', () => {
+    const generate = () => generateEmptyClusters(8, 8, mulberry32(hashSeed('pattern-2024')));
+    expect(Array.from(generate())).toEqual(Array.from(generate()));
+  });
+});
@@ -0,0 +1,389 @@
+// Empty-cell strategies: which cells stay empty so the background shows
+// through. Each strategy draws only from the layout RNG, in a fixed order.
+
+import { getCellKey, getWrappedCellKey } from './grid';
+
+export interface ClusterParams {
+  density: number; // Share of cells (0-1) that start a cluster
+  radius: number; // How far a cluster spreads from its centre, in cells
+  falloff: number; // Chance (0-1) of a neighbouring cell joining, before distance fades it
+  avoidEdgeRows: boolean; // Keep the first and last rows filled (ignored in seamless mode)
+}
+
+export interface NoiseParams {
+  scale: number; // Size of the noise features, in cells
+  amount: number; // Share of cells (0-1) left empty
+}
+
+export interface CaveParams {
+  fill: number; // Share of cells (0-1) empty before smoothing
+  steps: number; // Smoothing passes; more gives rounder caves
+}
+
+export type GradientDirection = 'diagonal' | 'radial';
+
+export interface GradientParams {
+  direction: GradientDirection; // Diagonal runs from the top-left corner; radial from the centre outwards
+  amount: number; // Chance (0-1) of a cell being empty at the far end
+  reverse: boolean;
+}
+
+// Greyscale image sampled in the browser, row by row, 0 (black) to 255 (white)
+export interface ImageMask {
+  width: number;
+  height: number;
+  values: number[];
+}
+
+export interface ImageParams {
+  mask: ImageMask | null;
+  threshold: number; // Cells darker than this (0-1) are left empty
+  invert: boolean; // Empty the light areas instead
+}
+
+export interface EmptyCellParams {
+  clusters: ClusterParams;
+  noise: NoiseParams;
+  caves: CaveParams;
+  gradient: GradientParams;
+  image: ImageParams;
+}
+
+export type EmptyCellMode = 'none' | keyof EmptyCellParams;
+
+export const EMPTY_CELL_MODES: EmptyCellMode[] = ['none', 'clusters', 'noise', 'caves', 'gradient', 'image'];
+
+// The chosen strategy, with the parameters of every strategy kept so switching back restores them
+export interface EmptyCellSettings extends EmptyCellParams {
+  mode: EmptyCellMode;
+}
+
+interface GridShape {
+  rows: number;
+  cols: number;
+  wrap: boolean; // Seamless mode: the strategy should continue across the edges
+}
+
+export interface EmptyCellStrategy<P> {
+  label: string;
+  generate(grid: GridShape, params: P, rng: () => number): Set<string>;
+}
+
+export const defaultEmptyCells: EmptyCellSettings = {
+  mode: 'clusters',
+  clusters: { density: 0.12, radius: 1, falloff: 0.35, avoidEdgeRows: true },
+  noise: { scale: 3, amount: 0.25 },
+  caves: { fill: 0.45, steps: 4 },
+  gradient: { direction: 'diagonal', amount: 0.6, reverse: false },
+  image: { mask: null, threshold: 0.5, invert: false }
+};
+
+// Allowed ranges; shares and chances are 0-1
+export const emptyCellLimits = {
+  radius: { min: 0, max: 5 },
+  scale: { min: 1, max: 20 },
+  steps: { min: 0, max: 10 },
+  maskSize: { min: 1, max: 256 }
+};
+
+// Generate clustered empty cells for dark background to show through
+export function generateEmptyClusters(
+  rows: number,
+  cols: number,
+  rng: () => number,
+  wrap = false,
+  params: ClusterParams = defaultEmptyCells.clusters
+): Set<string> {
+  const emptyCells = new Set<string>();
+
+  // Number of cluster seeds (adjust for desired density)
+  const numClusters = Math.floor(rows * cols * params.density);
+  const clusterSeeds: Array<[number, number]> = [];
+
+  // Avoid first row (0) and last row (rows-1) to prevent black strips at top/bottom.
+  // A wrapped grid has no top or bottom, so every row can hold clusters.
+  const avoidEdges = params.avoidEdgeRows && !wrap;
+  const firstRow = avoidEdges ? 1 : 0;
+  const lastRow = avoidEdges ? rows - 2 : rows - 1;
+
+  // Grids with one or two rows have no interior rows to cluster in
+  if (lastRow < firstRow) {
+    return emptyCells;
+  }
+
+  // Generate random cluster seed positions (avoid top and bottom rows)
+  for (let i = 0; i < numClusters; i++) {
+    const row = Math.floor(rng() * (lastRow - firstRow + 1)) + firstRow;
+    const col = Math.floor(rng() * cols);
+    clusterSeeds.push([row, col]);
+  }
+
+  // For each seed, create a cluster using distance-based probability
+  for (const [seedRow, seedCol] of clusterSeeds) {
+    // Mark the seed as empty
+    emptyCells.add(getCellKey(seedRow, seedCol));
+
+    // Expand cluster to nearby cells
+    const clusterRadius = params.radius;
+    const minRow = wrap ? seedRow - clusterRadius : Math.max(firstRow, seedRow - clusterRadius);
+    const maxRow = wrap ? seedRow + clusterRadius : Math.min(lastRow, seedRow + clusterRadius);
+    const minCol = wrap ? seedCol - clusterRadius : Math.max(0, seedCol - clusterRadius);
+    const maxCol = wrap ? seedCol + clusterRadius : Math.min(cols - 1, seedCol + clusterRadius);
+    for (let r = minRow; r <= maxRow; r++) {
+      for (let c = minCol; c <= maxCol; c++) {
+        const key = wrap ? getWrappedCellKey(r, c, rows, cols) : getCellKey(r, c);
+
+        // Skip if already marked as empty
+        if (emptyCells.has(key)) continue;
+
+        // Calculate distance from seed
+        const distance = Math.sqrt((r - seedRow) ** 2 + (c - seedCol) ** 2);
+
+        // Probability decreases with distance (closer = more likely to be empty)
+        const maxDistance = clusterRadius * 1.5;
+        const probability = Math.max(0, 1 - (distance / maxDistance));
+
+        // Add some randomness but favor closer cells
+        if (rng() < probability * params.falloff) {
+          emptyCells.add(key);
+        }
+      }
+    }
+  }
+
+  return emptyCells;
+}
+
+// Empty the `amount` share of cells with the lowest scores
+function emptyLowest(grid: GridShape, score: (row: number, col: number) => number, amount: number): Set<string> {
+  const cells: Array<{ key: string; value: number }> = [];
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.cols; col++) {
+      cells.push({ key: getCellKey(row, col), value: score(row, col) });
+    }
+  }
+  cells.sort((a, b) => a.value - b.value);
+  const count = Math.round(cells.length * amount);
+  return new Set(cells.slice(0, count).map(cell => cell.key));
+}
+
+// Gradient (Perlin) noise on a lattice that repeats every periodX by periodY units
+function createPeriodicNoise(periodX: number, periodY: number, rng: () => number): (x: number, y: number) => number {
+  const gradients: Array<[number, number]> = [];
+  for (let i = 0; i < periodX * periodY; i++) {
+    const angle = rng() * Math.PI * 2;
+    gradients.push([Math.cos(angle), Math.sin(angle)]);
+  }
+
+  const fade = (t: number): number => t * t * t * (t * (t * 6 - 15) + 10);
+  const corner = (ix: number, iy: number, dx: number, dy: number): number => {
+    const [gx, gy] = gradients[(((iy % periodY) + periodY) % periodY) * periodX + (((ix % periodX) + periodX) % periodX)];
+    return gx * dx + gy * dy;
+  };
+
+  return (x, y) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+    const top = corner(x0, y0, fx, fy) + fade(fx) * (corner(x0 + 1, y0, fx - 1, fy) - corner(x0, y0, fx, fy));
+    const bottom = corner(x0, y0 + 1, fx, fy - 1) +
+      fade(fx) * (corner(x0 + 1, y0 + 1, fx - 1, fy - 1) - corner(x0, y0 + 1, fx, fy - 1));
+    return top + fade(fy) * (bottom - top);
+  };
+}
+
+const noiseStrategy: EmptyCellStrategy<NoiseParams> = {
+  label: 'Noise',
+  generate(grid, params, rng) {
+    // Whole lattice periods across the grid, so the noise wraps seamlessly
+    const periodX = Math.max(1, Math.round(grid.cols / params.scale));
+    const periodY = Math.max(1, Math.round(grid.rows / params.scale));
+    const noise = createPeriodicNoise(periodX, periodY, rng);
+    return emptyLowest(grid, (row, col) => noise((col + 0.5) * periodX / grid.cols, (row + 0.5) * periodY / grid.rows), params.amount);
+  }
+};
+
+// Cellular-automaton caves: random fill, then cells follow the majority of their eight neighbours
+const caveStrategy: EmptyCellStrategy<CaveParams> = {
+  label: 'Caves',
+  generate(grid, params, rng) {
+    const { rows, cols, wrap } = grid;
+    let empty: boolean[][] = Array.from({ length: rows }, () => Array.from({ length: cols }, () => rng() < params.fill));
+
+    // Outside a non-wrapping grid counts as filled, which keeps the caves off the edges
+    const isEmpty = (cells: boolean[][], row: number, col: number): boolean => {
+      if (wrap) return cells[((row % rows) + rows) % rows][((col % cols) + cols) % cols];
+      return row >= 0 && row < rows && col >= 0 && col < cols && cells[row][col];
+    };
+
+    for (let step = 0; step < params.steps; step++) {
+      const previous = empty;
+      empty = previous.map((cells, row) => cells.map((wasEmpty, col) => {
+        let neighbours = 0;
+        for (let dr = -1; dr <= 1; dr++) {
+          for (let dc = -1; dc <= 1; dc++) {
+            if ((dr !== 0 || dc !== 0) && isEmpty(previous, row + dr, col + dc)) neighbours++;
+          }
+        }
+        return neighbours >= 5 || (wasEmpty && neighbours >= 4);
+      }));
+    }
+
+    const emptyCells = new Set<string>();
+    empty.forEach((cells, row) => cells.forEach((isCellEmpty, col) => {
+      if (isCellEmpty) emptyCells.add(getCellKey(row, col));
+    }));
+    return emptyCells;
+  }
+};
+
+const gradientStrategy: EmptyCellStrategy<GradientParams> = {
+  label: 'Gradient',
+  generate(grid, params, rng) {
+    const { rows, cols } = grid;
+    const centerRow = (rows - 1) / 2;
+    const centerCol = (cols - 1) / 2;
+    const maxDistance = Math.hypot(centerRow, centerCol) || 1;
+
+    const emptyCells = new Set<string>();
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        // Position along the gradient, 0 at its start and 1 at its end
+        let t = params.direction === 'radial'
+          ? Math.hypot(row - centerRow, col - centerCol) / maxDistance
+          : (row / Math.max(1, rows - 1) + col / Math.max(1, cols - 1)) / 2;
+        if (params.reverse) t = 1 - t;
+        if (rng() < t * params.amount) {
+          emptyCells.add(getCellKey(row, col));
+        }
+      }
+    }
+    return emptyCells;
+  }
+};
+
+// Average brightness (0-1) of the part of the mask under a cell
+export function sampleMask(mask: ImageMask, row: number, col: number, rows: number, cols: number): number {
+  const x0 = Math.floor(col * mask.width / cols);
+  const x1 = Math.max(x0 + 1, Math.floor((col + 1) * mask.width / cols));
+  const y0 = Math.floor(row * mask.height / rows);
+  const y1 = Math.max(y0 + 1, Math.floor((row + 1) * mask.height / rows));
+
+  let total = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      total += mask.values[y * mask.width + x];
+    }
+  }
+  return total / ((x1 - x0) * (y1 - y0) * 255);
+}
+
+const imageStrategy: EmptyCellStrategy<ImageParams> = {
+  label: 'Image mask',
+  generate(grid, params) {
+    const emptyCells = new Set<string>();
+    const { mask } = params;
+    if (!mask) return emptyCells;
+
+    for (let row = 0; row < grid.rows; row++) {
+      for (let col = 0; col < grid.cols; col++) {
+        const dark = sampleMask(mask, row, col, grid.rows, grid.cols) < params.threshold;
+        if (dark !== params.invert) {
+          emptyCells.add(getCellKey(row, col));
+        }
+      }
+    }
+    return emptyCells;
+  }
+};
+
+export const EMPTY_CELL_STRATEGIES: { [K in keyof EmptyCellParams]: EmptyCellStrategy<EmptyCellParams[K]> } = {
+  clusters: {
+    label: 'Clusters',
+    generate: (grid, params, rng) => generateEmptyClusters(grid.rows, grid.cols, rng, grid.wrap, params)
+  },
+  noise: noiseStrategy,
+  caves: caveStrategy,
+  gradient: gradientStrategy,
+  image: imageStrategy
+};
+
+function runStrategy<K extends keyof EmptyCellParams>(
+  mode: K,
+  settings: EmptyCellSettings,
+  grid: GridShape,
+  rng: () => number
+): Set<string> {
+  return EMPTY_CELL_STRATEGIES[mode].generate(grid, settings[mode], rng);
+}
+
+// The cells the chosen strategy leaves empty
+export function generateEmptyCells(settings: EmptyCellSettings, rows: number, cols: number, rng: () => number, wrap = false): Set<string> {
+  if (settings.mode === 'none') return new Set();
+  return runStrategy(settings.mode, settings, { rows, cols, wrap }, rng);
+}
+
+export function isImageMask(value: unknown): value is ImageMask {
+  const mask = value as ImageMask;
+  const { min, max } = emptyCellLimits.maskSize;
+  return typeof mask === 'object' && mask !== null &&
+    Number.isInteger(mask.width) && mask.width >= min && mask.width <= max &&
+    Number.isInteger(mask.height) && mask.height >= min && mask.height <= max &&
+    Array.isArray(mask.values) && mask.values.length === mask.width * mask.height &&
+    mask.values.every(value => typeof value === 'number' && value >= 0 && value <= 255);
+}
+
+// A share or chance (0-1), falling back when out of range
+function readShare(value: unknown, fallback: number): number {
+  return typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+}
+
+function readWhole(value: unknown, limits: { min: number; max: number }, fallback: number): number {
+  return Number.isInteger(value) && (value as number) >= limits.min && (value as number) <= limits.max
+    ? value as number
+    : fallback;
+}
+
+// Merge saved empty-cell settings over the defaults. States saved before the
+// strategies existed only have the clustering on/off switch.
+export function restoreEmptyCells(saved: Partial<EmptyCellSettings> | undefined, legacyClustering?: unknown): EmptyCellSettings {
+  const defaults = defaultEmptyCells;
+  const mode = saved && EMPTY_CELL_MODES.includes(saved.mode as EmptyCellMode)
+    ? saved.mode as EmptyCellMode
+    : legacyClustering === false ? 'none' : defaults.mode;
+
+  const clusters: Partial<ClusterParams> = saved?.clusters ?? {};
+  const noise: Partial<NoiseParams> = saved?.noise ?? {};
+  const caves: Partial<CaveParams> = saved?.caves ?? {};
+  const gradient: Partial<GradientParams> = saved?.gradient ?? {};
+  const image: Partial<ImageParams> = saved?.image ?? {};
+
+  return {
+    mode,
+    clusters: {
+      density: readShare(clusters.density, defaults.clusters.density),
+      radius: readWhole(clusters.radius, emptyCellLimits.radius, defaults.clusters.radius),
+      falloff: readShare(clusters.falloff, defaults.clusters.falloff),
+      avoidEdgeRows: typeof clusters.avoidEdgeRows === 'boolean' ? clusters.avoidEdgeRows : defaults.clusters.avoidEdgeRows
+    },
+    noise: {
+      scale: readWhole(noise.scale, emptyCellLimits.scale, defaults.noise.scale),
+      amount: readShare(noise.amount, defaults.noise.amount)
+    },
+    caves: {
+      fill: readShare(caves.fill, defaults.caves.fill),
+      steps: readWhole(caves.steps, emptyCellLimits.steps, defaults.caves.steps)
+    },
+    gradient: {
+      direction: gradient.direction === 'radial' ? 'radial' : 'diagonal',
+      amount: readShare(gradient.amount, defaults.gradient.amount),
+      reverse: gradient.reverse === true
+    },
+    image: {
+      mask: isImageMask(image.mask) ? image.mask : null,
+      threshold: readShare(image.threshold, defaults.image.threshold),
+      invert: image.invert === true
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { readFixture } from '../test/fixtures';
+import { defaultExportOptions, optimizeSvgExport } from './exportSvg';
+import { layoutPattern } from './layout';
+import { buildPatternSvg } from './render';
+import { createSeed, parseSeedSvg, planSeedImport } from './seeds';
+import { defaultSettings } from './settings';
+import { type XmlElement, descendants, findById, getTextContent, localName } from './xml';
+
+const settings = { ...defaultSettings, seed: 'export-1', cols: 4, rows: 3 };
+
+function byName(root: XmlElement, name: string): XmlElement[] {
+  return descendants(root).filter(el => localName(el.name) === name);
+}
+
+describe('optimizeSvgExport', () => {
+  it('clips inlined seeds to their viewBox as <use> does', () => {
+    // Filling a 2×1 footprint with a 3:2 document leaves its top and bottom outside the symbol
+    const svgRoot = parseSeedSvg(readFixture('off-size.svg'));
+    const { footprint } = planSeedImport(svgRoot, 200, 'fill');
+    const seed = createSeed(svgRoot, footprint, 'off-size.svg', 'fill');
+    const layout = layoutPattern([seed], settings);
+    const svg = buildPatternSvg([seed], settings, layout);
+    optimizeSvgExport(svg, { ...defaultExportOptions, inlineUses: true });
+
+    expect(byName(svg, 'use')).toEqual([]);
+    const clipped = descendants(svg).filter(el => el.attributes.has('clip-path'));
+    expect(clipped).toHaveLength(layout.placements.length);
+    clipped.forEach(group => {
+      const clipPath = findById(svg, /^url\(#(.+)\)$/.exec(group.attributes.get('clip-path')!)![1])!;
+      expect(Object.fromEntries(byName(clipPath, 'rect')[0].attributes)).toEqual({ x: '0', y: '0', width: '400', height: '200' });
+    });
+  });
+
+  it('keeps the classes of each seed to its own stylesheet', () => {
+    const seeds = ['#ff0000', '#0000ff'].map(color => createSeed(parseSeedSvg(`<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200">
+      <style>.cls-1 { fill: ${color} }</style><rect class="cls-1" width="200" height="200"/>
+    </svg>`), { width: 1, height: 1 }, `${color}.svg`));
+    const svg = buildPatternSvg(seeds, settings, layoutPattern(seeds, settings));
+    optimizeSvgExport(svg, defaultExportOptions);
+
+    const symbols = byName(svg, 'symbol');
+    expect(symbols).toHaveLength(2);
+    symbols.forEach(symbol => {
+      const className = `${symbol.attributes.get('id')}__cls-1`;
+      expect(byName(symbol, 'rect')[0].attributes.get('class')).toBe(className);
+      expect(getTextContent(byName(symbol, 'style')[0])).toMatch(new RegExp(`^\\.${className} \\{ fill: #`));
+    });
+  });
+});
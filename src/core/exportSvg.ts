@@ -0,0 +1,298 @@
+// Clean-up passes for exported SVG files. Each pass mutates a freshly built
+// pattern document, never the live preview itself.
+
+import {
+  type XmlElement,
+  appendChild,
+  closest,
+  cloneNode,
+  contains,
+  createElement,
+  descendants,
+  elementChildren,
+  insertBefore,
+  localName,
+  removeNode,
+  replaceNode
+} from './xml';
+
+export interface SvgExportOptions {
+  stripEditorElements: boolean; // Remove the preview border and other UI-only elements
+  pruneUnusedSymbols: boolean; // Drop seed symbols that no tile uses
+  prefixIds: boolean; // Namespace ids and styled classes inside each seed so seeds with clashing names don't collide
+  inlineUses: boolean; // Replace <use> with the symbol's geometry for tools that mishandle references
+}
+
+export const defaultExportOptions: SvgExportOptions = {
+  stripEditorElements: true,
+  pruneUnusedSymbols: true,
+  prefixIds: true,
+  inlineUses: false
+};
+
+// Elements that are only ever rendered by reference
+const RESOURCE_TAGS = new Set([
+  'clipPath', 'filter', 'linearGradient', 'marker', 'mask', 'pattern', 'radialGradient'
+]);
+
+// Elements that only exist in the editor
+const EDITOR_IDS = ['border-rect', 'empty-state-message'];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isHrefAttribute(name: string): boolean {
+  return localName(name) === 'href';
+}
+
+function getHref(el: XmlElement): string | null {
+  return el.attributes.get('href') ?? el.attributes.get('xlink:href') ?? null;
+}
+
+function byName(root: XmlElement, name: string): XmlElement[] {
+  return descendants(root).filter(el => localName(el.name) === name);
+}
+
+// Ids referenced from an element's attributes, via url(#id) or href="#id"
+function getReferencedIds(el: XmlElement): string[] {
+  const ids: string[] = [];
+  el.attributes.forEach((value, name) => {
+    if (isHrefAttribute(name) && value.startsWith('#')) {
+      ids.push(value.slice(1));
+    }
+    for (const match of value.matchAll(/url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/g)) {
+      ids.push(match[1]);
+    }
+  });
+  return ids;
+}
+
+function stripEditorElements(svg: XmlElement): void {
+  descendants(svg)
+    .filter(el => EDITOR_IDS.includes(el.attributes.get('id') ?? ''))
+    .forEach(removeNode);
+}
+
+// Remove symbols that are not referenced by any <use> outside the symbols themselves
+function pruneUnusedSymbols(svg: XmlElement): void {
+  const used = new Set<string>();
+  byName(svg, 'use').forEach(use => {
+    if (closest(use, ['symbol'])) return;
+    const href = getHref(use);
+    if (href?.startsWith('#')) {
+      used.add(href.slice(1));
+    }
+  });
+
+  byName(svg, 'symbol').forEach(symbol => {
+    if (!used.has(symbol.attributes.get('id') ?? '')) {
+      removeNode(symbol);
+    }
+  });
+}
+
+// Rename the classes inside an element to "<prefix>__<class>" along with the selectors
+// of its stylesheets, which would otherwise style every seed using the same class names.
+// Classes are left alone when the element has no stylesheet of its own.
+function prefixClassNames(root: XmlElement, prefix: string): void {
+  const styles = byName(root, 'style');
+  if (styles.length === 0) return;
+
+  const renames = new Map<string, string>();
+  descendants(root).forEach(el => {
+    const classes = el.attributes.get('class');
+    if (classes === undefined) return;
+    el.attributes.set('class', classes.split(/\s+/).filter(Boolean).map(name => {
+      if (name.startsWith(`${prefix}__`)) return name;
+      renames.set(name, `${prefix}__${name}`);
+      return `${prefix}__${name}`;
+    }).join(' '));
+  });
+
+  styles.forEach(style => {
+    style.children.forEach(child => {
+      if (child.type === 'element' || child.type === 'comment') return;
+      renames.forEach((newName, oldName) => {
+        child.value = child.value.replace(new RegExp(`(?<![\\w-])\\.${escapeRegExp(oldName)}(?![\\w-])`, 'g'), `.${newName}`);
+      });
+    });
+  });
+}
+
+// Rename every id inside an element to "<prefix>__<id>" and update the references to it,
+// and the classes its stylesheets select likewise. Names that already carry the prefix are left alone.
+export function prefixElementIds(root: XmlElement, prefix: string): void {
+  prefixClassNames(root, prefix);
+
+  const renames = new Map<string, string>();
+  descendants(root).forEach(el => {
+    const id = el.attributes.get('id');
+    if (id === undefined || id.startsWith(`${prefix}__`)) return;
+    const newId = `${prefix}__${id}`;
+    renames.set(id, newId);
+    el.attributes.set('id', newId);
+  });
+  if (renames.size === 0) return;
+
+  for (const el of [root, ...descendants(root)]) {
+    el.attributes.forEach((original, name) => {
+      if (name === 'id') return;
+      let value = original;
+      renames.forEach((newId, oldId) => {
+        const escaped = escapeRegExp(oldId);
+        value = value.replace(new RegExp(`url\\(\\s*(['"]?)#${escaped}\\1\\s*\\)`, 'g'), `url(#${newId})`);
+        if (isHrefAttribute(name) && value === `#${oldId}`) {
+          value = `#${newId}`;
+        }
+      });
+      if (value !== original) {
+        el.attributes.set(name, value);
+      }
+    });
+  }
+
+  // Selectors and url() references in embedded stylesheets
+  byName(root, 'style').forEach(style => {
+    style.children.forEach(child => {
+      if (child.type === 'element' || child.type === 'comment') return;
+      renames.forEach((newId, oldId) => {
+        child.value = child.value.replace(new RegExp(`#${escapeRegExp(oldId)}(?![\\w-])`, 'g'), `#${newId}`);
+      });
+    });
+  });
+}
+
+// Namespace the ids inside each symbol with the symbol's own id
+function prefixSymbolIds(svg: XmlElement): void {
+  byName(svg, 'symbol').forEach(symbol => prefixElementIds(symbol, symbol.attributes.get('id') ?? ''));
+}
+
+// Move everything a symbol references by id into the root <defs>, so that the
+// symbol's geometry can be copied any number of times without duplicating ids
+function hoistReferencedElements(symbol: XmlElement, rootDefs: XmlElement): void {
+  const referenced = new Set<string>();
+  descendants(symbol).forEach(el => getReferencedIds(el).forEach(id => referenced.add(id)));
+
+  descendants(symbol).forEach(el => {
+    const id = el.attributes.get('id');
+    if (id === undefined || !referenced.has(id) || !contains(symbol, el)) return;
+    if (RESOURCE_TAGS.has(localName(el.name)) || closest(el, ['defs'])) {
+      insertBefore(rootDefs, el);
+    } else {
+      // Referenced geometry is still drawn in place; keep an id-bearing copy in <defs>
+      insertBefore(rootDefs, cloneNode(el));
+      el.attributes.delete('id');
+    }
+  });
+
+  byName(symbol, 'defs').forEach(defs => {
+    if (elementChildren(defs).length === 0) removeNode(defs);
+  });
+}
+
+function removeIds(el: XmlElement): void {
+  [el, ...descendants(el)].forEach(node => node.attributes.delete('id'));
+}
+
+// Replace each <use> of a symbol with a group holding a copy of the symbol's content
+function inlineSymbolUses(svg: XmlElement): void {
+  let rootDefs = elementChildren(svg).find(el => localName(el.name) === 'defs');
+  if (!rootDefs) {
+    rootDefs = createElement('defs');
+    insertBefore(svg, rootDefs, svg.children[0] ?? null);
+  }
+  const symbols = new Map<string, XmlElement>();
+  const viewportClips = new Map<XmlElement, string>();
+  byName(svg, 'symbol').forEach(symbol => {
+    hoistReferencedElements(symbol, rootDefs!);
+    const id = symbol.attributes.get('id') ?? '';
+    symbols.set(id, symbol);
+    // A symbol clips its content to its viewBox unless its overflow is visible; a plain group doesn't
+    const [x, y, width, height] = (symbol.attributes.get('viewBox') || '').split(/[\s,]+/).map(parseFloat);
+    if (['visible', 'auto'].includes(symbol.attributes.get('overflow') ?? '') || !(width > 0 && height > 0)) return;
+    const clipPath = createElement('clipPath', { id: `${id}-viewport` });
+    appendChild(clipPath, createElement('rect', { x, y, width, height }));
+    appendChild(rootDefs!, clipPath);
+    viewportClips.set(symbol, `${id}-viewport`);
+  });
+
+  byName(svg, 'use').forEach(use => {
+    const href = getHref(use);
+    const symbol = href?.startsWith('#') ? symbols.get(href.slice(1)) : undefined;
+    if (!symbol) return;
+
+    const x = parseFloat(use.attributes.get('x') || '0');
+    const y = parseFloat(use.attributes.get('y') || '0');
+    const [vbX, vbY, vbWidth, vbHeight] = (symbol.attributes.get('viewBox') || '0 0 1 1').split(/[\s,]+/).map(parseFloat);
+    const width = parseFloat(use.attributes.get('width') || `${vbWidth}`);
+    const height = parseFloat(use.attributes.get('height') || `${vbHeight}`);
+
+    // Map the symbol's viewBox onto the use's box
+    const group = createElement('g');
+    const transforms: string[] = [];
+    if (x !== 0 || y !== 0) transforms.push(`translate(${x}, ${y})`);
+    if (width !== vbWidth || height !== vbHeight) transforms.push(`scale(${width / vbWidth}, ${height / vbHeight})`);
+    if (vbX !== 0 || vbY !== 0) transforms.push(`translate(${-vbX}, ${-vbY})`);
+    if (transforms.length > 0) {
+      group.attributes.set('transform', transforms.join(' '));
+    }
+    const clipId = viewportClips.get(symbol);
+    if (clipId) {
+      group.attributes.set('clip-path', `url(#${clipId})`);
+    }
+
+    symbol.children.forEach(child => {
+      const copy = cloneNode(child);
+      if (copy.type === 'element') removeIds(copy);
+      insertBefore(group, copy);
+    });
+
+    replaceNode(use, group);
+  });
+
+  symbols.forEach(removeNode);
+
+  // Remaining <use> elements reference plain geometry inside seeds
+  const elementsById = new Map<string, XmlElement>();
+  descendants(svg).forEach(el => {
+    const id = el.attributes.get('id');
+    if (id !== undefined) elementsById.set(id, el);
+  });
+  byName(svg, 'use').forEach(use => {
+    const href = getHref(use);
+    const target = href?.startsWith('#') ? elementsById.get(href.slice(1)) : undefined;
+    if (!target) return;
+
+    // Keep the use's own presentation attributes, which the copy inherits
+    const group = createElement('g');
+    use.attributes.forEach((value, name) => {
+      if (!['href', 'x', 'y', 'width', 'height'].includes(localName(name))) {
+        group.attributes.set(name, value);
+      }
+    });
+    const x = parseFloat(use.attributes.get('x') || '0');
+    const y = parseFloat(use.attributes.get('y') || '0');
+    if (x !== 0 || y !== 0) {
+      const transform = group.attributes.get('transform');
+      group.attributes.set('transform', `${transform ? `${transform} ` : ''}translate(${x}, ${y})`);
+    }
+
+    const copy = cloneNode(target);
+    copy.attributes.delete('id');
+    insertBefore(group, copy);
+    replaceNode(use, group);
+  });
+
+  byName(svg, 'defs').forEach(defs => {
+    if (elementChildren(defs).length === 0) removeNode(defs);
+  });
+}
+
+// Apply the selected clean-up passes to an exported pattern document
+export function optimizeSvgExport(svg: XmlElement, options: SvgExportOptions): void {
+  if (options.stripEditorElements) stripEditorElements(svg);
+  if (options.pruneUnusedSymbols) pruneUnusedSymbols(svg);
+  if (options.prefixIds) prefixSymbolIds(svg);
+  if (options.inlineUses) inlineSymbolUses(svg);
+}
@@ -0,0 +1,10 @@
+// Cell keys for grid occupancy tracking
+
+export function getCellKey(row: number, col: number): string {
+  return `${row},${col}`;
+}
+
+// Cell key with coordinates wrapped around the grid edges (seamless mode)
+export function getWrappedCellKey(row: number, col: number, rows: number, cols: number): string {
+  return getCellKey(((row % rows) + rows) % rows, ((col % cols) + cols) % cols);
+}
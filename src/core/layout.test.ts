@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixtureSeeds, seedStrings } from '../test/fixtures';
+import { getCellKey, getWrappedCellKey } from './grid';
+import { type Layout, layoutPattern } from './layout';
+import { rotateFootprint } from './seeds';
+import { type PatternSettings, defaultSettings } from './settings';
+import type { TransformSettings } from './transforms';
+
+const seeds = loadFixtureSeeds(['square.svg', 'circle.svg', 'wide.svg', 'large.svg']);
+
+const GRIDS: Array<[number, number]> = [[1, 1], [2, 3], [3, 2], [5, 8], [9, 4], [12, 12]];
+
+// Every transform on, at free angles
+const jitter: TransformSettings = {
+  rotation: { chance: 0.7, step: 45 },
+  flipX: { chance: 0.5 },
+  flipY: { chance: 0.5 },
+  scale: { chance: 0.5, min: 0.5, max: 1.5 },
+  offset: { chance: 0.5, amount: 0.25 },
+  clip: true
+};
+
+// Every cell a layout's tiles cover, counting cells covered twice
+function coveredCells(layout: Layout, settings: PatternSettings): string[] {
+  return layout.placements.flatMap(({ row, col, footprint, rotation }) => {
+    const placed = rotateFootprint(footprint, rotation);
+    const cells: string[] = [];
+    for (let r = row; r < row + placed.height; r++) {
+      for (let c = col; c < col + placed.width; c++) {
+        cells.push(settings.seamless ? getWrappedCellKey(r, c, settings.rows, settings.cols) : getCellKey(r, c));
+      }
+    }
+    return cells;
+  });
+}
+
+// Run a check over many seed strings, grid sizes and both wrapping modes
+function forEachLayout(overrides: Partial<PatternSettings>, check: (layout: Layout, settings: PatternSettings) => void): void {
+  for (const seed of seedStrings(40)) {
+    for (const [rows, cols] of GRIDS) {
+      for (const seamless of [false, true]) {
+        const settings = { ...defaultSettings, largeSeedChance: 0.6, ...overrides, seed, rows, cols, seamless };
+        check(layoutPattern(seeds, settings), settings);
+      }
+    }
+  }
+}
+
+describe('layoutPattern', () => {
+  it('never covers a cell twice', () => {
+    for (const overrides of [{}, { transforms: jitter }]) {
+      forEachLayout(overrides, (layout, settings) => {
+        const cells = coveredCells(layout, settings);
+        expect(new Set(cells).size).toBe(cells.length);
+      });
+    }
+  });
+
+  it('turns only square seeds off the quarter turns', () => {
+    forEachLayout({ transforms: jitter }, layout => {
+      for (const { footprint, rotation } of layout.placements) {
+        if (footprint.width !== footprint.height) expect(rotation % 90).toBe(0);
+      }
+    });
+  });
+
+  it('keeps multi-cell seeds inside the grid unless it wraps', () => {
+    forEachLayout({}, (layout, settings) => {
+      if (settings.seamless) return;
+      for (const { row, col, footprint, rotation } of layout.placements) {
+        const placed = rotateFootprint(footprint, rotation);
+        expect(row + placed.height).toBeLessThanOrEqual(settings.rows);
+        expect(col + placed.width).toBeLessThanOrEqual(settings.cols);
+      }
+    });
+  });
+
+  it('keeps jittered multi-cell seeds inside the grid unless it wraps', () => {
+    forEachLayout({ transforms: jitter }, (layout, settings) => {
+      if (settings.seamless) return;
+      for (const { row, col, footprint, rotation } of layout.placements) {
+        const placed = rotateFootprint(footprint, rotation);
+        expect(row + placed.height).toBeLessThanOrEqual(settings.rows);
+        expect(col + placed.width).toBeLessThanOrEqual(settings.cols);
+      }
+    });
+  });
+
+  it('keeps multi-cell seeds inside the grid when they are the only seeds', () => {
+    const large = seeds.filter(seed => seed.footprint.width * seed.footprint.height > 1);
+    for (const seed of seedStrings(40)) {
+      for (const [rows, cols] of GRIDS) {
+        const settings = { ...defaultSettings, seed, rows, cols };
+        for (const { row, col, footprint, rotation } of layoutPattern(large, settings).placements) {
+          const placed = rotateFootprint(footprint, rotation);
+          expect(row + placed.height).toBeLessThanOrEqual(rows);
+          expect(col + placed.width).toBeLessThanOrEqual(cols);
+        }
+      }
+    }
+  });
+
+  it('fills the first and last rows when clusters avoid them', () => {
+    forEachLayout({}, (layout, settings) => {
+      if (settings.seamless) return;
+      const cells = new Set(coveredCells(layout, settings));
+      for (const row of [0, settings.rows - 1]) {
+        for (let col = 0; col < settings.cols; col++) {
+          expect(cells.has(getCellKey(row, col))).toBe(true);
+        }
+      }
+    });
+  });
+
+  it('gives the same layout for the same seed string, whatever the seed order', () => {
+    const settings = { ...defaultSettings, seed: 'pattern-2024' };
+    const summarize = (layout: Layout) => layout.placements.map(({ row, col, seed, rotation }) => `${row},${col} ${seed.id} ${rotation}`);
+    const expected = summarize(layoutPattern(seeds, settings));
+    expect(summarize(layoutPattern(seeds, settings))).toEqual(expected);
+    expect(summarize(layoutPattern([...seeds].reverse(), settings))).toEqual(expected);
+  });
+});
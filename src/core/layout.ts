@@ -0,0 +1,333 @@
+// Layout: decide which seed goes in each grid cell. Pure functions of the
+// settings, the seeds and the RNG, so the same inputs always give the same layout.
+
+import {
+  type ConstraintRule,
+  checkPlacement,
+  createConstraintGrid,
+  hasActiveRules,
+  recordPlacement
+} from './constraints';
+import { generateEmptyCells } from './emptyCells';
+import { getCellKey, getWrappedCellKey } from './grid';
+import { getColorLuminance, getSeedBrightness, sampleFootprint } from './mosaic';
+import { shufflePaletteSlots } from './palette';
+import { hashSeed, mulberry32 } from './random';
+import { type Footprint, type Seed, rotateFootprint, singleCell, sortSeeds } from './seeds';
+import type { PatternSettings } from './settings';
+import { type TileTransform, drawTileTransform, getSeedRotations, isTileTransform } from './transforms';
+
+// Helper functions for grid occupancy tracking
+function isOccupied(occupied: Set<string>, row: number, col: number): boolean {
+  return occupied.has(getCellKey(row, col));
+}
+
+function markOccupied(occupied: Set<string>, row: number, col: number, footprint: Footprint, rows: number, cols: number, wrap = false): void {
+  for (let r = row; r < row + footprint.height; r++) {
+    for (let c = col; c < col + footprint.width; c++) {
+      occupied.add(wrap ? getWrappedCellKey(r, c, rows, cols) : getCellKey(r, c));
+    }
+  }
+}
+
+export function canPlaceLarge(occupied: Set<string>, row: number, col: number, footprint: Footprint, rows: number, cols: number, wrap = false): boolean {
+  // Check if we can place the footprint with its top-left cell at (row, col)
+  if (wrap) {
+    // A wrapped footprint may cross the edges but must not overlap itself
+    if (footprint.height > rows || footprint.width > cols) return false;
+  } else if (row + footprint.height > rows || col + footprint.width > cols) {
+    return false;
+  }
+  for (let r = row; r < row + footprint.height; r++) {
+    for (let c = col; c < col + footprint.width; c++) {
+      if (occupied.has(wrap ? getWrappedCellKey(r, c, rows, cols) : getCellKey(r, c))) return false;
+    }
+  }
+  return true;
+}
+
+// Pick a seed with probability proportional to its weight
+function pickWeighted(seeds: Seed[], rng: () => number): Seed {
+  const total = seeds.reduce((sum, seed) => sum + seed.weight, 0);
+
+  let remaining = rng() * total;
+  for (const seed of seeds) {
+    remaining -= seed.weight;
+    if (remaining < 0) return seed;
+  }
+  return seeds[seeds.length - 1];
+}
+
+// A tile chosen by the layout pass, before it is drawn
+export interface Placement extends TileTransform {
+  row: number;
+  col: number;
+  seed: Seed;
+  footprint: Footprint; // Unrotated
+  paletteSlots: number[] | null; // Palette order for recolouring, or null when not recolouring
+}
+
+// A tile set by hand in the editor, anchored at its top-left cell. Manual
+// tiles are not checked against the rules, but generated tiles respect them.
+export interface CellOverride extends TileTransform {
+  row: number;
+  col: number;
+  seedId: string | null; // null keeps the cell empty
+  paletteSlots: number[] | null; // Colours the tile had when it was edited
+  locked: boolean; // Kept when the seed string changes; unlocked edits belong to one layout
+}
+
+export function isCellOverride(value: unknown): value is CellOverride {
+  const override = value as CellOverride;
+  return typeof override === 'object' && override !== null &&
+    Number.isInteger(override.row) && override.row >= 0 &&
+    Number.isInteger(override.col) && override.col >= 0 &&
+    (override.seedId === null || typeof override.seedId === 'string') &&
+    isTileTransform(override) &&
+    (override.paletteSlots === null ||
+      (Array.isArray(override.paletteSlots) && override.paletteSlots.every(slot => Number.isInteger(slot) && slot >= 0))) &&
+    typeof override.locked === 'boolean';
+}
+
+// Cells covered by an override, or null when its seed is missing or it runs off a non-wrapping grid
+export function getOverrideCells(override: CellOverride, seeds: Seed[], settings: PatternSettings): string[] | null {
+  const seed = override.seedId === null ? null : seeds.find(candidate => candidate.id === override.seedId);
+  if (seed === undefined || override.row >= settings.rows || override.col >= settings.cols) return null;
+  const footprint = seed ? rotateFootprint(seed.footprint, override.rotation) : singleCell;
+  if (!canPlaceLarge(new Set(), override.row, override.col, footprint, settings.rows, settings.cols, settings.seamless)) {
+    return null;
+  }
+
+  const cells = new Set<string>();
+  markOccupied(cells, override.row, override.col, footprint, settings.rows, settings.cols, settings.seamless);
+  return Array.from(cells);
+}
+
+export interface Layout {
+  placements: Placement[];
+  blockedCells: number; // Cells left empty because no seed satisfied the rules
+  blockedBy: Set<ConstraintRule>;
+}
+
+// Layouts tried before settling for one that leaves cells empty
+export const MAX_LAYOUT_ATTEMPTS = 20;
+
+// The colour the rules see for a tile: its seed's dominant colour, after recolouring
+function getTileColor(seed: Seed, palette: string[], paletteSlots: number[] | null): string | null {
+  if (seed.dominantColor === null) return null;
+  if (!paletteSlots) return seed.dominantColor;
+  // Recolouring maps the seed's colours onto the slots in order, as the renderer does
+  const index = Math.max(0, seed.colors.indexOf(seed.dominantColor));
+  return palette[paletteSlots[index % paletteSlots.length]];
+}
+
+// Choose every tile of the pattern. Draws from the RNGs in a fixed order, so
+// the same seed string always gives the same layout.
+export function planLayout(seeds: Seed[], settings: PatternSettings, rng: () => number, colorRng: () => number): Layout {
+  const layout: Layout = { placements: [], blockedCells: 0, blockedBy: new Set() };
+  const { rows, cols, seamless, palette, rules } = settings;
+
+  // Cells left empty so the background shows through, from the chosen strategy
+  const emptyCells = generateEmptyCells(settings.emptyCells, rows, cols, rng, seamless);
+
+  // Track occupied cells
+  const occupied = new Set<string>();
+  const overrides = settings.cellOverrides;
+
+  // Seeds with a weight of zero are never placed
+  const isSingleCell = (seed: Seed): boolean => seed.footprint.width === 1 && seed.footprint.height === 1;
+  const smallCandidates = seeds.filter(seed => isSingleCell(seed) && seed.weight > 0);
+  const largeSeeds = seeds.filter(seed => !isSingleCell(seed));
+
+  // Rotations a seed may be placed at
+  const { transforms } = settings;
+  const seedRotations = (seed: Seed): number[] => getSeedRotations(seed.footprint, transforms.rotation);
+
+  const recolouring = settings.colorize && palette.length > 0;
+  const rulesActive = hasActiveRules(rules);
+  const constraintGrid = createConstraintGrid(rows, cols, seamless);
+
+  // Reference image the tiles are matched against, in mosaic mode
+  const mosaicImage = settings.mosaic.enabled ? settings.mosaic.image : null;
+  const backgroundLuminance = getColorLuminance(settings.background);
+
+  // In seamless mode, start scanning from a random cell so that seeds can straddle the panel edges
+  const rowOffset = seamless ? Math.floor(rng() * rows) : 0;
+  const colOffset = seamless ? Math.floor(rng() * cols) : 0;
+
+  // Fill every free cell, scanning in a fixed order
+  const fillGrid = (): void => {
+    for (let i = 0; i < rows; i++) {
+      const row = (i + rowOffset) % rows;
+      for (let j = 0; j < cols; j++) {
+        const col = (j + colOffset) % cols;
+        // Skip if cell is already occupied
+        if (isOccupied(occupied, row, col)) {
+          continue;
+        }
+
+        // Skip if this cell is marked as empty (black background shows through)
+        if (emptyCells.has(getCellKey(row, col))) {
+          continue;
+        }
+
+        const paletteSlots = recolouring ? shufflePaletteSlots(palette.length, colorRng) : null;
+
+        // Rules broken by the candidates rejected at this cell
+        const rejected = new Set<ConstraintRule>();
+        const satisfiesRules = (candidate: Seed, placed: Footprint): boolean => {
+          if (!rulesActive) return true;
+          const color = getTileColor(candidate, palette, paletteSlots);
+          const broken = checkPlacement(constraintGrid, rules, row, col, placed, candidate.id, color);
+          if (broken) rejected.add(broken);
+          return broken === null;
+        };
+
+        // Decide whether to place large or small SVG
+        // largeSeedChance (default 30%) to try large if available and space allows
+        let seed: Seed;
+        let allowedRotations: number[];
+
+        // Rotations at which a multi-cell seed fits here (not occupied, not in empty cluster, within the rules)
+        const getFittingRotations = (candidate: Seed): number[] => seedRotations(candidate).filter(rot => {
+          const rotated = rotateFootprint(candidate.footprint, rot);
+          return canPlaceLarge(occupied, row, col, rotated, rows, cols, seamless) &&
+            canPlaceLarge(emptyCells, row, col, rotated, rows, cols, seamless) &&
+            satisfiesRules(candidate, rotated);
+        });
+
+        // Pick among the candidates, weighted. In mosaic mode only the seeds and rotations
+        // closest to the image under the tile are kept, so the RNG just breaks ties.
+        // Seeds whose tone has not been measured yet fall back to the plain pick.
+        const pick = (candidates: Seed[], candidateRotations: (candidate: Seed) => number[]): [Seed, number[]] => {
+          if (!mosaicImage || candidates.some(candidate => candidate.tone === null)) {
+            const picked = pickWeighted(candidates, rng);
+            return [picked, candidateRotations(picked)];
+          }
+          const errors = candidates.map(candidate => candidateRotations(candidate).map(rot => {
+            const target = sampleFootprint(mosaicImage, row, col, rotateFootprint(candidate.footprint, rot), rows, cols);
+            return Math.abs(getSeedBrightness(candidate.tone!, backgroundLuminance) - target);
+          }));
+          const limit = Math.min(...errors.flat()) + settings.mosaic.tolerance;
+          const closest = candidates.filter((_, i) => errors[i].some(error => error <= limit));
+          const picked = pickWeighted(closest, rng);
+          const pickedErrors = errors[candidates.indexOf(picked)];
+          return [picked, candidateRotations(picked).filter((_, i) => pickedErrors[i] <= limit)];
+        };
+
+        // Check which large SVGs can be placed in at least one orientation
+        const largeCandidates = largeSeeds.filter(candidate => candidate.weight > 0 && getFittingRotations(candidate).length > 0);
+        const smallOptions = rulesActive
+          ? smallCandidates.filter(candidate => satisfiesRules(candidate, singleCell))
+          : smallCandidates;
+
+        if (largeCandidates.length > 0 && rng() < settings.largeSeedChance) {
+          // Place large SVG (multi-cell), weighted
+          [seed, allowedRotations] = pick(largeCandidates, getFittingRotations);
+        } else if (smallOptions.length > 0) {
+          // Place small SVG (1x1), weighted
+          [seed, allowedRotations] = pick(smallOptions, seedRotations);
+        } else if (largeCandidates.length > 0 && rejected.size > 0) {
+          // The rules ruled out every small seed, but a large one still fits
+          [seed, allowedRotations] = pick(largeCandidates, getFittingRotations);
+        } else if (rejected.size > 0) {
+          // No seed satisfies the rules here; leave the cell empty
+          layout.blockedCells++;
+          rejected.forEach(rule => layout.blockedBy.add(rule));
+          continue;
+        } else if (largeCandidates.length > 0) {
+          // Only multi-cell seeds can be placed, so use one whatever the chance
+          [seed, allowedRotations] = pick(largeCandidates, getFittingRotations);
+        } else {
+          // Nothing fits here; leave the cell empty
+          continue;
+        }
+        const footprint = seed.footprint;
+
+        // Random rotation, flips, scale and offset
+        const transform = drawTileTransform(transforms, allowedRotations, rng);
+
+        // Non-square seeds rotated by 90/270 occupy a swapped footprint
+        const placed = rotateFootprint(footprint, transform.rotation);
+        markOccupied(occupied, row, col, placed, rows, cols, seamless);
+        if (rulesActive) {
+          recordPlacement(constraintGrid, row, col, placed, seed.id, getTileColor(seed, palette, paletteSlots));
+        }
+
+        layout.placements.push({ row, col, seed, footprint, ...transform, paletteSlots });
+      }
+    }
+  };
+
+  // Generate grid with multi-size placement
+  fillGrid();
+  if (overrides.length === 0) return layout;
+
+  // Put the hand-set tiles in, drop the generated ones they overlap and fill
+  // the freed cells, continuing the same RNG streams so the rest stays put
+  const overrideCells = new Set<string>();
+  const manual: Placement[] = [];
+  for (const override of overrides) {
+    const cells = getOverrideCells(override, seeds, settings);
+    // Overrides that no longer fit, or overlap an earlier one, are ignored
+    if (!cells || cells.some(key => overrideCells.has(key))) continue;
+    cells.forEach(key => overrideCells.add(key));
+
+    const seed = seeds.find(candidate => candidate.id === override.seedId);
+    if (!seed) continue; // Kept empty
+
+    // Stored colours only apply while the palette still has every slot they use
+    const slots = override.paletteSlots;
+    const paletteSlots = !recolouring ? null
+      : slots && slots.length === palette.length && slots.every(slot => slot < palette.length)
+        ? slots
+        : palette.map((_, i) => i);
+    const { row, col, rotation, scaleX, scaleY, offsetX, offsetY } = override;
+    manual.push({ row, col, seed, footprint: seed.footprint, rotation, scaleX, scaleY, offsetX, offsetY, paletteSlots });
+  }
+
+  layout.placements = layout.placements.filter(placement => {
+    const cells = new Set<string>();
+    markOccupied(cells, placement.row, placement.col, rotateFootprint(placement.footprint, placement.rotation), rows, cols, seamless);
+    return !Array.from(cells).some(key => overrideCells.has(key));
+  });
+  layout.placements.push(...manual);
+
+  occupied.clear();
+  overrideCells.forEach(key => occupied.add(key));
+  constraintGrid.cells.clear();
+  constraintGrid.copies.clear();
+  layout.placements.forEach(placement => {
+    const placed = rotateFootprint(placement.footprint, placement.rotation);
+    markOccupied(occupied, placement.row, placement.col, placed, rows, cols, seamless);
+    if (rulesActive) {
+      const color = getTileColor(placement.seed, palette, placement.paletteSlots);
+      recordPlacement(constraintGrid, placement.row, placement.col, placed, placement.seed.id, color);
+    }
+  });
+
+  // Cells the first pass could not fill are tried again
+  layout.blockedCells = 0;
+  layout.blockedBy.clear();
+  fillGrid();
+  return layout;
+}
+
+// Lay out the tiles. When the rules leave cells unfilled, retry with seed
+// strings derived from the current one and keep the fullest layout.
+export function layoutPattern(unsortedSeeds: Seed[], settings: PatternSettings): Layout {
+  const seeds = sortSeeds(unsortedSeeds);
+  let layout = planLayout(seeds, settings, mulberry32(hashSeed(settings.seed)), mulberry32(hashSeed(`${settings.seed}:palette`)));
+  for (let attempt = 1; attempt < MAX_LAYOUT_ATTEMPTS && layout.blockedCells > 0; attempt++) {
+    const retry = planLayout(
+      seeds,
+      settings,
+      mulberry32(hashSeed(`${settings.seed}:retry-${attempt}`)),
+      mulberry32(hashSeed(`${settings.seed}:palette:retry-${attempt}`))
+    );
+    if (retry.blockedCells < layout.blockedCells) {
+      layout = retry;
+    }
+  }
+  return layout;
+}
@@ -0,0 +1,65 @@
+// Image-to-mosaic: pick each tile's seed by how closely its tone matches the
+// reference image under it. Seed tones are measured by rasterizing the seeds
+// in the browser; the matching itself is pure, so the CLI gives the same result.
+
+import { type ImageMask, isImageMask, sampleMask } from './emptyCells';
+import type { Footprint } from './seeds';
+
+export interface MosaicSettings {
+  enabled: boolean;
+  image: ImageMask | null; // Greyscale reference, stored like the empty-cell image mask
+  tolerance: number; // Seeds within this much (0-1) of the best match are ties, broken by the RNG
+}
+
+// What a seed looks like when rendered
+export interface SeedTone {
+  luminance: number; // Average brightness (0-1) of the painted area
+  coverage: number; // Share (0-1) of the tile painted; the background shows through the rest
+}
+
+export const defaultMosaic: MosaicSettings = {
+  enabled: false,
+  image: null,
+  tolerance: 0.05
+};
+
+// Brightness (0-1) of a #rrggbb colour, weighted as the image sampling weights it
+export function getColorLuminance(color: string): number {
+  const channel = (offset: number): number => parseInt(color.slice(offset, offset + 2), 16) / 255;
+  return 0.2126 * channel(1) + 0.7152 * channel(3) + 0.0722 * channel(5);
+}
+
+// Brightness (0-1) of a seed drawn over the background
+export function getSeedBrightness(tone: SeedTone, backgroundLuminance: number): number {
+  return tone.luminance * tone.coverage + backgroundLuminance * (1 - tone.coverage);
+}
+
+// Average brightness (0-1) of the reference image under a footprint anchored at a cell.
+// Cells past the edges wrap, as seamless tiles do.
+export function sampleFootprint(image: ImageMask, row: number, col: number, footprint: Footprint, rows: number, cols: number): number {
+  let total = 0;
+  for (let r = row; r < row + footprint.height; r++) {
+    for (let c = col; c < col + footprint.width; c++) {
+      total += sampleMask(image, r % rows, c % cols, rows, cols);
+    }
+  }
+  return total / (footprint.width * footprint.height);
+}
+
+export function isSeedTone(value: unknown): value is SeedTone {
+  const tone = value as SeedTone;
+  return typeof tone === 'object' && tone !== null &&
+    typeof tone.luminance === 'number' && tone.luminance >= 0 && tone.luminance <= 1 &&
+    typeof tone.coverage === 'number' && tone.coverage >= 0 && tone.coverage <= 1;
+}
+
+// Merge saved mosaic settings over the defaults
+export function restoreMosaic(saved: Partial<MosaicSettings> | undefined): MosaicSettings {
+  return {
+    enabled: saved?.enabled === true,
+    image: isImageMask(saved?.image) ? saved.image : null,
+    tolerance: typeof saved?.tolerance === 'number' && saved.tolerance >= 0 && saved.tolerance <= 1
+      ? saved.tolerance
+      : defaultMosaic.tolerance
+  };
+}
@@ -0,0 +1,180 @@
+// Palette recolouring: find the fill and stroke colours a seed uses and
+// swap them for palette colours
+
+import { type Matrix, IDENTITY, getShapeSegments, multiplyMatrix, parseTransform } from './pathData';
+import { type XmlElement, closest, descendants } from './xml';
+
+export interface SavedPalette {
+  name: string;
+  colors: string[];
+}
+
+// Attributes and style properties that are recoloured
+const COLOR_PROPERTIES = ['fill', 'stroke'];
+
+// Elements whose colours only set coverage
+const COVERAGE_ELEMENTS = ['mask', 'clipPath'];
+
+// Common named colours; any other name is left as-is and never recoloured
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  gray: '#808080',
+  grey: '#808080',
+  orange: '#ffa500',
+  purple: '#800080'
+};
+
+// Normalize a colour to lowercase #rrggbb, or null for non-colours (none, url(...), currentColor, ...)
+export function normalizeColor(value: string | null): string | null {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+
+  const short = color.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+  if (short) {
+    return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+  }
+  if (/^#[0-9a-f]{6}$/.test(color)) {
+    return color;
+  }
+
+  const rgb = color.match(/^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/);
+  if (rgb) {
+    return '#' + rgb.slice(1, 4)
+      .map(channel => Math.min(255, parseInt(channel, 10)).toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  return NAMED_COLORS[color] ?? null;
+}
+
+// Read a colour property from an element's style attribute
+function getStyleProperty(el: XmlElement, property: string): string | null {
+  const style = el.attributes.get('style');
+  if (!style) return null;
+  const match = style.match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`));
+  return match ? match[1].trim() : null;
+}
+
+// Distinct colours used for fills and strokes, in document order
+export function extractColors(root: XmlElement): string[] {
+  const colors = new Set<string>();
+  for (const el of [root, ...descendants(root)]) {
+    // Masks and clip paths use colour for coverage, not appearance
+    if (closest(el, COVERAGE_ELEMENTS)) continue;
+    for (const property of COLOR_PROPERTIES) {
+      const color = normalizeColor(getStyleProperty(el, property)) ?? normalizeColor(el.attributes.get(property) ?? null);
+      if (color) colors.add(color);
+    }
+  }
+  return Array.from(colors);
+}
+
+// A fill or stroke as an element draws it: its own, or the nearest ancestor's.
+// Null for none, unset, or a paint that isn't a plain colour.
+function getPaintColor(el: XmlElement, property: string): string | null {
+  for (let current: XmlElement | null = el; current; current = current.parent) {
+    const value = getStyleProperty(current, property) ?? current.attributes.get(property);
+    if (value !== undefined) return normalizeColor(value);
+  }
+  return null;
+}
+
+// The transform from an element's coordinates to the root's
+function getElementMatrix(el: XmlElement): Matrix {
+  let matrix = IDENTITY;
+  for (let current: XmlElement | null = el; current; current = current.parent) {
+    matrix = multiplyMatrix(parseTransform(current.attributes.get('transform')), matrix);
+  }
+  return matrix;
+}
+
+// The colour covering the most of a seed, or null when it has none. Each shape's
+// fill counts for its bounding box and its stroke for the box's outline times the
+// stroke width; overlaps aren't subtracted, so this is an estimate. Falls back to
+// the first colour when no shape has a measurable size.
+export function getDominantColor(root: XmlElement): string | null {
+  const colors = extractColors(root);
+  const areas = new Map<string, number>();
+  for (const el of descendants(root)) {
+    if (closest(el, COVERAGE_ELEMENTS)) continue;
+    const box = { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity };
+    for (const segment of getShapeSegments(el)) {
+      if (segment.type === 'Z') continue;
+      const points = segment.type === 'C' ? [segment.x1, segment.y1, segment.x2, segment.y2, segment.x, segment.y] : [segment.x, segment.y];
+      for (let i = 0; i < points.length; i += 2) {
+        box.left = Math.min(box.left, points[i]);
+        box.right = Math.max(box.right, points[i]);
+        box.top = Math.min(box.top, points[i + 1]);
+        box.bottom = Math.max(box.bottom, points[i + 1]);
+      }
+    }
+    if (box.left > box.right) continue;
+
+    const width = box.right - box.left;
+    const height = box.bottom - box.top;
+    const [a, b, c, d] = getElementMatrix(el);
+    const scale = Math.abs(a * d - b * c);
+
+    const add = (color: string | null, area: number): void => {
+      if (color && colors.includes(color) && area > 0) areas.set(color, (areas.get(color) ?? 0) + area);
+    };
+    add(getPaintColor(el, 'fill'), width * height * scale);
+    const strokeWidth = parseFloat(getStyleProperty(el, 'stroke-width') ?? el.attributes.get('stroke-width') ?? '1');
+    add(getPaintColor(el, 'stroke'), 2 * (width + height) * (Number.isFinite(strokeWidth) ? strokeWidth : 1) * scale);
+  }
+
+  let dominant: string | null = colors[0] ?? null;
+  let largest = 0;
+  // Ties go to the colour that comes first in the document
+  for (const color of colors) {
+    const area = areas.get(color) ?? 0;
+    if (area > largest) {
+      dominant = color;
+      largest = area;
+    }
+  }
+  return dominant;
+}
+
+// Replace colours in place according to a map of normalized colour -> new colour
+export function recolor(root: XmlElement, colorMap: Map<string, string>): void {
+  for (const el of [root, ...descendants(root)]) {
+    if (closest(el, COVERAGE_ELEMENTS)) continue;
+    for (const property of COLOR_PROPERTIES) {
+      const attrColor = normalizeColor(el.attributes.get(property) ?? null);
+      if (attrColor && colorMap.has(attrColor)) {
+        el.attributes.set(property, colorMap.get(attrColor)!);
+      }
+    }
+
+    const style = el.attributes.get('style');
+    if (style) {
+      const updated = style.replace(
+        new RegExp(`(^|;)(\\s*(?:${COLOR_PROPERTIES.join('|')})\\s*:\\s*)([^;]+)`, 'g'),
+        (match, start: string, prefix: string, value: string) => {
+          const color = normalizeColor(value);
+          return color && colorMap.has(color) ? `${start}${prefix}${colorMap.get(color)}` : match;
+        }
+      );
+      if (updated !== style) {
+        el.attributes.set('style', updated);
+      }
+    }
+  }
+}
+
+// Palette slot indices in a random order (Fisher-Yates), so distinct seed
+// colours land on distinct palette colours whenever the palette is big enough
+export function shufflePaletteSlots(size: number, rng: () => number): number[] {
+  const slots = Array.from({ length: size }, (_, i) => i);
+  for (let i = size - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [slots[i], slots[j]] = [slots[j], slots[i]];
+  }
+  return slots;
+}
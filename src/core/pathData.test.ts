@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { type Matrix, type PathSegment, multiplyMatrix, parsePathData, parseTransform, rectPath } from './pathData';
+
+function endpoints(segments: PathSegment[]): string[] {
+  return segments.map(segment => segment.type === 'Z' ? 'Z' : `${segment.type}${+segment.x.toFixed(3)},${+segment.y.toFixed(3)}`);
+}
+
+function apply(matrix: Matrix, x: number, y: number): number[] {
+  return [matrix[0] * x + matrix[2] * y + matrix[4], matrix[1] * x + matrix[3] * y + matrix[5]].map(value => +value.toFixed(6));
+}
+
+describe('parsePathData', () => {
+  it('makes every command absolute', () => {
+    expect(endpoints(parsePathData('m10 10 h5 v5 l-5 0 z M0 0 H2 V2'))).toEqual(['M10,10', 'L15,10', 'L15,15', 'L10,15', 'Z', 'M0,0', 'L2,0', 'L2,2']);
+  });
+
+  it('treats coordinates after a move as lines', () => {
+    expect(endpoints(parsePathData('M0,0 10,0 10,10'))).toEqual(['M0,0', 'L10,0', 'L10,10']);
+  });
+
+  it('turns quadratic and smooth curves into cubics', () => {
+    const segments = parsePathData('M0 0 Q10 10 20 0 T40 0 S60 10 70 0');
+    expect(endpoints(segments)).toEqual(['M0,0', 'C20,0', 'C40,0', 'C70,0']);
+    // The reflected quadratic control point is (30, -10)
+    expect(segments[2].type === 'C' && [segments[2].x1, segments[2].y1]).toEqual([20 + 2 / 3 * 10, expect.closeTo(-20 / 3)]);
+  });
+
+  it('splits arcs into curves, reading flags written without spaces', () => {
+    const segments = parsePathData('M0 0a10 10 0 1110 10');
+    expect(segments.length).toBeGreaterThan(2);
+    expect(endpoints(segments).at(-1)).toBe('C10,10');
+  });
+
+  it('stops at the first error', () => {
+    expect(endpoints(parsePathData('M0 0 L10 K 20 20'))).toEqual(['M0,0']);
+  });
+});
+
+describe('parseTransform', () => {
+  it('applies a list of transforms right to left', () => {
+    const matrix = parseTransform('translate(10, 20) scale(2)');
+    expect(apply(matrix, 1, 1)).toEqual([12, 22]);
+  });
+
+  it('rotates about a centre', () => {
+    expect(apply(parseTransform('rotate(90 10 10)'), 20, 10)).toEqual([10, 20]);
+  });
+
+  it('composes with multiplyMatrix', () => {
+    const matrix = multiplyMatrix(parseTransform('translate(5 0)'), parseTransform('matrix(0 1 -1 0 0 0)'));
+    expect(apply(matrix, 1, 0)).toEqual([5, 1]);
+  });
+});
+
+describe('rectPath', () => {
+  it('rounds corners with curves', () => {
+    expect(endpoints(rectPath(0, 0, 10, 10))).toEqual(['M0,0', 'L10,0', 'L10,10', 'L0,10', 'Z']);
+    expect(rectPath(0, 0, 10, 10, 2, 2).filter(segment => segment.type === 'C')).toHaveLength(4);
+  });
+});
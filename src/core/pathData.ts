@@ -0,0 +1,395 @@
+// SVG geometry as plain outlines: path data, basic shapes and transforms
+// reduced to moves, lines and cubic curves in absolute coordinates, for code
+// that measures or redraws seed artwork without a DOM
+
+import { type XmlElement, localName } from './xml';
+
+// A 2D affine matrix [a b c d e f], as in SVG's matrix()
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+export type PathSegment =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+// Control point distance for a quarter circle of radius 1
+const KAPPA = 0.5522847498;
+
+// Apply `inner` first, then `outer`
+export function multiplyMatrix(outer: Matrix, inner: Matrix): Matrix {
+  const [a, b, c, d, e, f] = outer;
+  const [a2, b2, c2, d2, e2, f2] = inner;
+  return [
+    a * a2 + c * b2,
+    b * a2 + d * b2,
+    a * c2 + c * d2,
+    b * c2 + d * d2,
+    a * e2 + c * f2 + e,
+    b * e2 + d * f2 + f
+  ];
+}
+
+const NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g;
+
+function parseNumbers(text: string): number[] {
+  return (text.match(NUMBER) ?? []).map(Number);
+}
+
+// A transform attribute as one matrix; unknown functions are skipped
+export function parseTransform(value: string | undefined): Matrix {
+  let matrix = IDENTITY;
+  if (!value) return matrix;
+  for (const [, name, args] of value.matchAll(/(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g)) {
+    const n = parseNumbers(args);
+    let step: Matrix | null = null;
+    if (name === 'matrix' && n.length === 6) {
+      step = n as Matrix;
+    } else if (name === 'translate' && n.length >= 1) {
+      step = [1, 0, 0, 1, n[0], n[1] ?? 0];
+    } else if (name === 'scale' && n.length >= 1) {
+      step = [n[0], 0, 0, n[1] ?? n[0], 0, 0];
+    } else if (name === 'rotate' && n.length >= 1) {
+      const angle = n[0] * Math.PI / 180;
+      const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+      const [cx, cy] = [n[1] ?? 0, n[2] ?? 0];
+      step = multiplyMatrix(multiplyMatrix([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+    } else if (name === 'skewX' && n.length === 1) {
+      step = [1, 0, Math.tan(n[0] * Math.PI / 180), 1, 0, 0];
+    } else if (name === 'skewY' && n.length === 1) {
+      step = [1, Math.tan(n[0] * Math.PI / 180), 0, 1, 0, 0];
+    }
+    if (step) matrix = multiplyMatrix(matrix, step);
+  }
+  return matrix;
+}
+
+// Cubic curves along an elliptical arc, one per quarter turn or less (SVG arc
+// implementation notes, F.6.5 and F.6.6)
+function arcToCurves(
+  x1: number, y1: number, rx: number, ry: number, angle: number, largeArc: boolean, sweep: boolean, x2: number, y2: number
+): PathSegment[] {
+  if (rx === 0 || ry === 0) return [{ type: 'L', x: x2, y: y2 }];
+  const phi = angle * Math.PI / 180;
+  const [cos, sin] = [Math.cos(phi), Math.sin(phi)];
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const px = cos * dx + sin * dy;
+  const py = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = px * px / (rx * rx) + py * py / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * py * py - ry * ry * px * px;
+  const root = Math.sqrt(Math.max(0, numerator / (rx * rx * py * py + ry * ry * px * px))) * (largeArc === sweep ? -1 : 1);
+  const cxp = root * rx * py / ry;
+  const cyp = -root * ry * px / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number): number =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = vectorAngle(1, 0, (px - cxp) / rx, (py - cyp) / ry);
+  let delta = vectorAngle((px - cxp) / rx, (py - cyp) / ry, (-px - cxp) / rx, (-py - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+  const step = delta / count;
+  const handle = 4 / 3 * Math.tan(step / 4);
+  const point = (t: number): [number, number] => {
+    const [x, y] = [rx * Math.cos(t), ry * Math.sin(t)];
+    return [cos * x - sin * y + cx, sin * x + cos * y + cy];
+  };
+  const tangent = (t: number): [number, number] => {
+    const [x, y] = [-rx * Math.sin(t), ry * Math.cos(t)];
+    return [cos * x - sin * y, sin * x + cos * y];
+  };
+
+  const curves: PathSegment[] = [];
+  for (let i = 0; i < count; i++) {
+    const t1 = start + i * step;
+    const t2 = t1 + step;
+    const [sx, sy] = point(t1);
+    const [ex, ey] = i === count - 1 ? [x2, y2] : point(t2);
+    const [d1x, d1y] = tangent(t1);
+    const [d2x, d2y] = tangent(t2);
+    curves.push({
+      type: 'C',
+      x1: sx + handle * d1x,
+      y1: sy + handle * d1y,
+      x2: ex - handle * d2x,
+      y2: ey - handle * d2y,
+      x: ex,
+      y: ey
+    });
+  }
+  return curves;
+}
+
+// Path data as absolute moves, lines and cubics. Parsing stops at the first
+// error, keeping what came before it, as browsers do.
+export function parsePathData(d: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  const tokens = d.match(/[a-zA-Z]|[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) ?? [];
+  let index = 0;
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Last control points, for the smooth curve commands
+  let lastCubic: [number, number] | null = null;
+  let lastQuad: [number, number] | null = null;
+  let command = '';
+
+  const isNumber = (token: string | undefined): boolean => token !== undefined && !/^[a-z]$/i.test(token);
+  // Arc flags may be written without separators ("a10 10 0 0110 10"), so they are read a digit at a time
+  const readFlag = (): number | null => {
+    const token = tokens[index];
+    if (!isNumber(token)) return null;
+    if (token === '0' || token === '1') {
+      index++;
+      return Number(token);
+    }
+    if (/^[01]/.test(token)) {
+      tokens[index] = token.slice(1);
+      return Number(token[0]);
+    }
+    return null;
+  };
+  const read = (count: number): number[] | null => {
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      if (!isNumber(tokens[index])) return null;
+      values.push(Number(tokens[index++]));
+    }
+    return values;
+  };
+
+  while (index < tokens.length) {
+    if (!isNumber(tokens[index])) {
+      command = tokens[index++];
+    } else if (!command || /[Zz]/.test(command)) {
+      break; // Numbers with no command to take them
+    }
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        const n = read(2);
+        if (!n) return segments;
+        x = ox + n[0];
+        y = oy + n[1];
+        startX = x;
+        startY = y;
+        segments.push({ type: 'M', x, y });
+        // Further pairs are lines
+        command = relative ? 'l' : 'L';
+        lastCubic = lastQuad = null;
+        continue;
+      }
+      case 'L': {
+        const n = read(2);
+        if (!n) return segments;
+        x = ox + n[0];
+        y = oy + n[1];
+        segments.push({ type: 'L', x, y });
+        lastCubic = lastQuad = null;
+        continue;
+      }
+      case 'H': {
+        const n = read(1);
+        if (!n) return segments;
+        x = ox + n[0];
+        segments.push({ type: 'L', x, y });
+        lastCubic = lastQuad = null;
+        continue;
+      }
+      case 'V': {
+        const n = read(1);
+        if (!n) return segments;
+        y = oy + n[0];
+        segments.push({ type: 'L', x, y });
+        lastCubic = lastQuad = null;
+        continue;
+      }
+      case 'C':
+      case 'S': {
+        const smooth = command.toUpperCase() === 'S';
+        const n = read(smooth ? 4 : 6);
+        if (!n) return segments;
+        const [x1, y1] = smooth
+          ? lastCubic ? [2 * x - lastCubic[0], 2 * y - lastCubic[1]] : [x, y]
+          : [ox + n[0], oy + n[1]];
+        const rest = smooth ? n : n.slice(2);
+        const x2 = ox + rest[0];
+        const y2 = oy + rest[1];
+        x = ox + rest[2];
+        y = oy + rest[3];
+        segments.push({ type: 'C', x1, y1, x2, y2, x, y });
+        lastCubic = [x2, y2];
+        lastQuad = null;
+        continue;
+      }
+      case 'Q':
+      case 'T': {
+        const smooth = command.toUpperCase() === 'T';
+        const n = read(smooth ? 2 : 4);
+        if (!n) return segments;
+        const previous: [number, number] | null = lastQuad;
+        const control: [number, number] = smooth
+          ? previous ? [2 * x - previous[0], 2 * y - previous[1]] : [x, y]
+          : [ox + n[0], oy + n[1]];
+        const [qx, qy] = control;
+        const rest = smooth ? n : n.slice(2);
+        const ex = ox + rest[0];
+        const ey = oy + rest[1];
+        // A quadratic curve is the cubic with control points 2/3 of the way to its one
+        segments.push({
+          type: 'C',
+          x1: x + 2 / 3 * (qx - x),
+          y1: y + 2 / 3 * (qy - y),
+          x2: ex + 2 / 3 * (qx - ex),
+          y2: ey + 2 / 3 * (qy - ey),
+          x: ex,
+          y: ey
+        });
+        x = ex;
+        y = ey;
+        lastQuad = [qx, qy];
+        lastCubic = null;
+        continue;
+      }
+      case 'A': {
+        const radii = read(3);
+        const largeArc = radii && readFlag();
+        const sweep = largeArc !== null ? readFlag() : null;
+        const end = sweep !== null ? read(2) : null;
+        if (!radii || largeArc === null || sweep === null || !end) return segments;
+        const ex = ox + end[0];
+        const ey = oy + end[1];
+        if (ex !== x || ey !== y) {
+          segments.push(...arcToCurves(x, y, radii[0], radii[1], radii[2], largeArc === 1, sweep === 1, ex, ey));
+        }
+        x = ex;
+        y = ey;
+        lastCubic = lastQuad = null;
+        continue;
+      }
+      case 'Z':
+        segments.push({ type: 'Z' });
+        x = startX;
+        y = startY;
+        lastCubic = lastQuad = null;
+        continue;
+      default:
+        return segments;
+    }
+  }
+  return segments;
+}
+
+// A (rounded) rectangle as path segments
+export function rectPath(x: number, y: number, width: number, height: number, rx = 0, ry = 0): PathSegment[] {
+  rx = Math.min(rx, width / 2);
+  ry = Math.min(ry, height / 2);
+  if (rx <= 0 || ry <= 0) {
+    return [
+      { type: 'M', x, y },
+      { type: 'L', x: x + width, y },
+      { type: 'L', x: x + width, y: y + height },
+      { type: 'L', x, y: y + height },
+      { type: 'Z' }
+    ];
+  }
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    { type: 'M', x: x + rx, y },
+    { type: 'L', x: right - rx, y },
+    { type: 'C', x1: right - rx + kx, y1: y, x2: right, y2: y + ry - ky, x: right, y: y + ry },
+    { type: 'L', x: right, y: bottom - ry },
+    { type: 'C', x1: right, y1: bottom - ry + ky, x2: right - rx + kx, y2: bottom, x: right - rx, y: bottom },
+    { type: 'L', x: x + rx, y: bottom },
+    { type: 'C', x1: x + rx - kx, y1: bottom, x2: x, y2: bottom - ry + ky, x, y: bottom - ry },
+    { type: 'L', x, y: y + ry },
+    { type: 'C', x1: x, y1: y + ry - ky, x2: x + rx - kx, y2: y, x: x + rx, y },
+    { type: 'Z' }
+  ];
+}
+
+export function ellipsePath(cx: number, cy: number, rx: number, ry: number): PathSegment[] {
+  if (rx <= 0 || ry <= 0) return [];
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  return [
+    { type: 'M', x: cx + rx, y: cy },
+    { type: 'C', x1: cx + rx, y1: cy + ky, x2: cx + kx, y2: cy + ry, x: cx, y: cy + ry },
+    { type: 'C', x1: cx - kx, y1: cy + ry, x2: cx - rx, y2: cy + ky, x: cx - rx, y: cy },
+    { type: 'C', x1: cx - rx, y1: cy - ky, x2: cx - kx, y2: cy - ry, x: cx, y: cy - ry },
+    { type: 'C', x1: cx + kx, y1: cy - ry, x2: cx + rx, y2: cy - ky, x: cx + rx, y: cy },
+    { type: 'Z' }
+  ];
+}
+
+// A points attribute as a polyline, closed for polygons
+export function pointsPath(points: string | undefined, close: boolean): PathSegment[] {
+  const numbers = parseNumbers(points ?? '');
+  const segments: PathSegment[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    segments.push({ type: i === 0 ? 'M' : 'L', x: numbers[i], y: numbers[i + 1] });
+  }
+  if (close && segments.length > 0) segments.push({ type: 'Z' });
+  return segments;
+}
+
+function readLength(el: XmlElement, name: string): number {
+  const value = parseFloat(el.attributes.get(name) ?? '');
+  return Number.isFinite(value) ? value : 0;
+}
+
+// The outline of a basic shape or path element; empty for anything else
+export function getShapeSegments(el: XmlElement): PathSegment[] {
+  switch (localName(el.name)) {
+    case 'path':
+      return parsePathData(el.attributes.get('d') ?? '');
+    case 'rect': {
+      const width = readLength(el, 'width');
+      const height = readLength(el, 'height');
+      if (width <= 0 || height <= 0) return [];
+      const rx = el.attributes.has('rx') ? readLength(el, 'rx') : readLength(el, 'ry');
+      const ry = el.attributes.has('ry') ? readLength(el, 'ry') : rx;
+      return rectPath(readLength(el, 'x'), readLength(el, 'y'), width, height, rx, ry);
+    }
+    case 'circle':
+      return ellipsePath(readLength(el, 'cx'), readLength(el, 'cy'), readLength(el, 'r'), readLength(el, 'r'));
+    case 'ellipse': {
+      const rx = el.attributes.has('rx') ? readLength(el, 'rx') : readLength(el, 'ry');
+      const ry = el.attributes.has('ry') ? readLength(el, 'ry') : rx;
+      return ellipsePath(readLength(el, 'cx'), readLength(el, 'cy'), rx, ry);
+    }
+    case 'line':
+      return [
+        { type: 'M', x: readLength(el, 'x1'), y: readLength(el, 'y1') },
+        { type: 'L', x: readLength(el, 'x2'), y: readLength(el, 'y2') }
+      ];
+    case 'polyline':
+      return pointsPath(el.attributes.get('points'), false);
+    case 'polygon':
+      return pointsPath(el.attributes.get('points'), true);
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixtureSeeds } from '../test/fixtures';
+import { defaultExportOptions } from './exportSvg';
+import { layoutPattern } from './layout';
+import { renderPdf } from './pdf';
+import { buildPrintSvg, defaultPrint } from './print';
+import { type PatternSettings, defaultSettings } from './settings';
+import { parseXml } from './xml';
+
+function text(data: Uint8Array): string {
+  return String.fromCharCode(...data);
+}
+
+// Object bodies by number, checked against the cross-reference table
+function readObjects(pdf: string): Map<number, string> {
+  const objects = new Map<number, string>();
+  const xref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+  const [, count, table] = /^xref\n0 (\d+)\n([\s\S]*?)trailer/.exec(pdf.slice(xref))!;
+  const offsets = table.trim().split('\n').slice(1).map(line => Number(line.slice(0, 10)));
+  expect(offsets).toHaveLength(Number(count) - 1);
+  offsets.forEach((offset, index) => {
+    expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+    objects.set(index + 1, pdf.slice(offset, pdf.indexOf('\nendobj', offset)));
+  });
+  return objects;
+}
+
+function render(markup: string) {
+  const result = renderPdf(parseXml(markup));
+  return { ...result, pdf: text(result.data) };
+}
+
+describe('renderPdf', () => {
+  it('writes a well-formed single page sized in points', () => {
+    const { pdf } = render('<svg xmlns="http://www.w3.org/2000/svg" width="96" height="48" viewBox="0 0 200 100"><rect width="10" height="10" fill="red"/></svg>');
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    const objects = readObjects(pdf);
+    expect(objects.get(3)).toContain('/MediaBox [0 0 72 36]');
+    // User units are scaled to points and y is flipped
+    expect(pdf).toContain('0.36 0 0 -0.36 0 36 cm');
+    expect(pdf).toContain('1 0 0 rg\n0 0 m\n10 0 l\n10 10 l\n0 10 l\nh\nf');
+  });
+
+  it('declares stream lengths that match their content', () => {
+    const { pdf } = render('<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><circle cx="5" cy="5" r="4" stroke="#00f"/></svg>');
+    for (const match of pdf.matchAll(/\/Length (\d+) >>\nstream\n/g)) {
+      const start = match.index! + match[0].length;
+      expect(pdf.slice(start + Number(match[1]), start + Number(match[1]) + 10)).toBe('\nendstream');
+    }
+  });
+
+  it('resolves stylesheets, inheritance and opacity', () => {
+    const { pdf } = render(`<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">
+      <style>.dot { fill: #00ff00 } g rect { fill: red }</style>
+      <g fill="#0000ff" opacity="0.5"><rect class="dot" width="1" height="1"/><rect x="2" width="1" height="1"/></g>
+    </svg>`);
+    expect(pdf).toContain('/GS0 gs\n0 1 0 rg');
+    expect(pdf).toContain('/GS0 gs\n0 0 1 rg');
+    expect(pdf).toContain('/GS0 << /Type /ExtGState /ca 0.5 /CA 1 >>');
+  });
+
+  it('reports what it leaves out', () => {
+    const { warnings } = render(`<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">
+      <defs><linearGradient id="g"><stop stop-color="#f00"/></linearGradient></defs>
+      <rect width="5" height="5" fill="url(#g)"/><text>Hi</text><text>Again</text>
+    </svg>`);
+    expect(warnings).toEqual(['Gradients are drawn in their first colour', 'Text is left out; convert it to outlines first']);
+  });
+
+  it('writes each seed once and boxes the print document', () => {
+    const seeds = loadFixtureSeeds(['square.svg', 'circle.svg']);
+    const settings: PatternSettings = { ...defaultSettings, seed: 'pdf-1', cols: 6, rows: 4 };
+    const print = { ...defaultPrint, registrationMarks: true };
+    const { svg, geometry } = buildPrintSvg(seeds, settings, layoutPattern(seeds, settings), print, defaultExportOptions);
+    const { data, warnings } = renderPdf(svg, { title: 'Pattern (pdf-1)', trim: geometry.trim, bleed: geometry.bleed });
+    const pdf = text(data);
+
+    expect(warnings).toEqual([]);
+    expect(pdf.match(/\/Subtype \/Form/g)).toHaveLength(2);
+    expect(pdf.match(/\/X\d+ Do/g)!.length).toBeGreaterThan(2);
+    const mm = 72 / 25.4;
+    const trimBox = /\/TrimBox \[([^\]]+)\]/.exec(pdf)![1].split(' ').map(Number);
+    expect(trimBox[2] - trimBox[0]).toBeCloseTo(print.width * mm, 3);
+    expect(pdf).toContain('/Reg CS 1 SCN');
+    expect(pdf).toContain('/Title (Pattern \\(pdf-1\\))');
+  });
+
+  it('needs an absolute size', () => {
+    expect(() => renderPdf(parseXml('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toThrow();
+  });
+});
@@ -0,0 +1,582 @@
+// Minimal vector PDF writer for pattern documents. Each symbol is written once as
+// a form XObject and drawn wherever a <use> places it, so the PDF is built from
+// the same symbols as the SVG. Paths, basic shapes, solid fills and strokes,
+// opacity, clip paths and transforms are kept; what PDF can't take directly is
+// approximated or left out and reported. Streams are stored uncompressed, which
+// keeps the writer synchronous and its output byte-for-byte predictable.
+
+import {
+  type Matrix,
+  type PathSegment,
+  IDENTITY,
+  getShapeSegments,
+  multiplyMatrix,
+  parseTransform,
+  rectPath
+} from './pathData';
+import { normalizeColor } from './palette';
+import { REGISTRATION_ATTRIBUTE } from './print';
+import { parseLength, parseViewBox } from './seeds';
+import { type XmlElement, closest, descendants, elementChildren, findById, getTextContent, localName } from './xml';
+
+// A rectangle in the document's user units
+export interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfOptions {
+  title?: string;
+  trim?: PdfBox; // Written as the page's TrimBox
+  bleed?: PdfBox; // Written as the page's BleedBox
+}
+
+export interface PdfResult {
+  data: Uint8Array;
+  warnings: string[]; // What was approximated or left out
+}
+
+// Points per CSS pixel
+const PT_PER_PX = 72 / 96;
+
+// Elements only drawn by reference, or not drawn at all
+const NON_RENDERED = new Set([
+  'defs', 'symbol', 'clipPath', 'mask', 'pattern', 'marker', 'linearGradient', 'radialGradient',
+  'filter', 'style', 'title', 'desc', 'metadata'
+]);
+
+const SHAPES = new Set(['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon']);
+
+// Properties children take from their parents
+const INHERITED = [
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap',
+  'stroke-linejoin', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset', 'color', 'visibility', 'clip-rule'
+];
+
+// Properties that apply to one element only
+const OWN = ['opacity', 'display', 'clip-path', 'mask', 'filter'];
+
+type Style = Map<string, string>;
+
+const INITIAL_STYLE: Style = new Map([
+  ['fill', '#000000'],
+  ['stroke', 'none'],
+  ['stroke-width', '1'],
+  ['color', '#000000']
+]);
+
+interface Color {
+  r: number;
+  g: number;
+  b: number;
+  alpha: number;
+}
+
+// A CSS rule from an embedded stylesheet, for simple selectors only
+interface StyleRule {
+  tag: string | null;
+  id: string | null;
+  classes: string[];
+  declarations: Array<[string, string]>;
+}
+
+// State shared while the document is written
+interface Writer {
+  root: XmlElement;
+  rules: StyleRule[];
+  objects: string[]; // Object bodies, by object number - 1
+  resourcesId: number;
+  forms: Map<string, string>; // Symbol and inherited style -> XObject name
+  formIds: Map<string, number>;
+  alphas: Map<string, string>; // "fill/stroke" alpha -> ExtGState name
+  warnings: Set<string>;
+  depth: number;
+}
+
+function format(value: number): string {
+  const rounded = Math.round(value * 10000) / 10000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+function formatMatrix(matrix: Matrix): string {
+  return `${matrix.map(format).join(' ')} cm`;
+}
+
+function pdfString(text: string): string {
+  return `(${text.replace(/[^\x20-\x7e]/g, '?').replace(/[\\()]/g, match => `\\${match}`)})`;
+}
+
+function addObject(writer: Writer, body: string): number {
+  writer.objects.push(body);
+  return writer.objects.length;
+}
+
+function stream(dictionary: string, content: string): string {
+  return `<< ${dictionary ? `${dictionary} ` : ''}/Length ${content.length} >>\nstream\n${content}\nendstream`;
+}
+
+function isIdentity(matrix: Matrix): boolean {
+  return matrix.every((value, i) => value === IDENTITY[i]);
+}
+
+// Rules from every <style> in the document; selectors with combinators are skipped
+function parseStyleRules(root: XmlElement, warnings: Set<string>): StyleRule[] {
+  const rules: StyleRule[] = [];
+  descendants(root).filter(el => localName(el.name) === 'style').forEach(style => {
+    const css = getTextContent(style).replace(/\/\*[\s\S]*?\*\//g, '').replace(/@[^{;]*(\{[^{}]*(\{[^{}]*\}[^{}]*)*\}|;)/g, '');
+    for (const [, selectors, body] of css.matchAll(/([^{}]+)\{([^}]*)\}/g)) {
+      const declarations = parseDeclarations(body);
+      selectors.split(',').map(selector => selector.trim()).forEach(selector => {
+        const match = /^([a-zA-Z][\w-]*)?((?:[#.][\w-]+)*)$/.exec(selector);
+        if (!match || selector === '') {
+          warnings.add(`Stylesheet selectors like "${selector}" are not supported`);
+          return;
+        }
+        const parts = match[2].match(/[#.][\w-]+/g) ?? [];
+        rules.push({
+          tag: match[1] ?? null,
+          id: parts.find(part => part.startsWith('#'))?.slice(1) ?? null,
+          classes: parts.filter(part => part.startsWith('.')).map(part => part.slice(1)),
+          declarations
+        });
+      });
+    }
+  });
+  return rules;
+}
+
+function parseDeclarations(text: string): Array<[string, string]> {
+  return text.split(';')
+    .map(declaration => declaration.split(':'))
+    .filter(parts => parts.length >= 2)
+    .map(([name, ...value]) => [name.trim(), value.join(':').replace(/!important/, '').trim()] as [string, string]);
+}
+
+// An element's own style: presentation attributes, then stylesheet rules, then its style attribute
+function getElementStyle(el: XmlElement, rules: StyleRule[]): Style {
+  const style: Style = new Map();
+  [...INHERITED, ...OWN].forEach(property => {
+    const value = el.attributes.get(property);
+    if (value !== undefined) style.set(property, value.trim());
+  });
+  const classes = (el.attributes.get('class') ?? '').split(/\s+/).filter(Boolean);
+  const id = el.attributes.get('id');
+  rules.forEach(rule => {
+    if (rule.tag && rule.tag !== localName(el.name)) return;
+    if (rule.id && rule.id !== id) return;
+    if (!rule.classes.every(name => classes.includes(name))) return;
+    rule.declarations.forEach(([property, value]) => style.set(property, value));
+  });
+  parseDeclarations(el.attributes.get('style') ?? '').forEach(([property, value]) => style.set(property, value));
+  return style;
+}
+
+// The inherited style of a child, given its parent's computed style
+function inherit(parent: Style): Style {
+  const style: Style = new Map();
+  INHERITED.forEach(property => {
+    const value = parent.get(property);
+    if (value !== undefined) style.set(property, value);
+  });
+  return style;
+}
+
+function computeStyle(el: XmlElement, parent: Style, rules: StyleRule[]): Style {
+  const style = inherit(parent);
+  getElementStyle(el, rules).forEach((value, property) => {
+    style.set(property, value === 'inherit' ? parent.get(property) ?? '' : value);
+  });
+  return style;
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const number = parseFloat(value ?? '');
+  return Number.isFinite(number) ? number : fallback;
+}
+
+function readOpacity(value: string | undefined): number {
+  const opacity = value?.trim().endsWith('%') ? readNumber(value, 100) / 100 : readNumber(value, 1);
+  return Math.min(1, Math.max(0, opacity));
+}
+
+// Resolve a fill or stroke to a solid colour, or null when nothing is painted
+function resolvePaint(writer: Writer, value: string | undefined, style: Style): Color | null {
+  if (!value || value === 'none' || value === 'transparent') return null;
+  if (value === 'currentColor') return resolvePaint(writer, style.get('color'), style);
+
+  const reference = /^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)\s*(.*)$/.exec(value);
+  if (reference) {
+    const server = findById(writer.root, reference[1]);
+    const name = server ? localName(server.name) : '';
+    if (name === 'linearGradient' || name === 'radialGradient') {
+      writer.warnings.add('Gradients are drawn in their first colour');
+      const stop = getGradientStops(writer, server!)[0];
+      if (!stop) return null;
+      // Stop properties aren't presentation attributes the cascade reads, so fall back to the attributes
+      const stopStyle = getElementStyle(stop, writer.rules);
+      const color = resolvePaint(writer, stopStyle.get('stop-color') ?? stop.attributes.get('stop-color') ?? '#000000', style);
+      const alpha = readOpacity(stopStyle.get('stop-opacity') ?? stop.attributes.get('stop-opacity'));
+      return color && { ...color, alpha: color.alpha * alpha };
+    }
+    writer.warnings.add('Pattern fills are left out');
+    return reference[2] ? resolvePaint(writer, reference[2], style) : null;
+  }
+
+  const color = normalizeColor(value);
+  if (!color) {
+    writer.warnings.add(`Colour "${value}" is not supported and was left out`);
+    return null;
+  }
+  return {
+    r: parseInt(color.slice(1, 3), 16) / 255,
+    g: parseInt(color.slice(3, 5), 16) / 255,
+    b: parseInt(color.slice(5, 7), 16) / 255,
+    alpha: 1
+  };
+}
+
+// A gradient's stops, following href to the gradient it takes them from
+function getGradientStops(writer: Writer, gradient: XmlElement): XmlElement[] {
+  for (let current: XmlElement | null = gradient, hops = 0; current && hops < 10; hops++) {
+    const stops = elementChildren(current).filter(el => localName(el.name) === 'stop');
+    if (stops.length > 0) return stops;
+    const href: string | undefined = current.attributes.get('href') ?? current.attributes.get('xlink:href');
+    current = href?.startsWith('#') ? findById(writer.root, href.slice(1)) : null;
+  }
+  return [];
+}
+
+// Name of a graphics state with the given alphas, created on first use
+function getAlphaState(writer: Writer, fill: number, stroke: number): string {
+  const key = `${format(fill)}/${format(stroke)}`;
+  let name = writer.alphas.get(key);
+  if (!name) {
+    name = `GS${writer.alphas.size}`;
+    writer.alphas.set(key, name);
+  }
+  return name;
+}
+
+function transformPoint(matrix: Matrix, x: number, y: number): [number, number] {
+  return [matrix[0] * x + matrix[2] * y + matrix[4], matrix[1] * x + matrix[3] * y + matrix[5]];
+}
+
+function pathOperators(segments: PathSegment[], matrix: Matrix = IDENTITY): string {
+  const point = (x: number, y: number): string => transformPoint(matrix, x, y).map(format).join(' ');
+  return segments.map(segment => {
+    switch (segment.type) {
+      case 'M': return `${point(segment.x, segment.y)} m`;
+      case 'L': return `${point(segment.x, segment.y)} l`;
+      case 'C': return `${point(segment.x1, segment.y1)} ${point(segment.x2, segment.y2)} ${point(segment.x, segment.y)} c`;
+      default: return 'h';
+    }
+  }).join('\n');
+}
+
+function length(el: XmlElement, name: string): number {
+  return readNumber(el.attributes.get(name), 0);
+}
+
+// Clip operators for a clipPath, or for a mask that is nothing but opaque white shapes
+// (which hides exactly what a clip to those shapes would). Other masks are left out.
+function clipOperators(writer: Writer, value: string, kind: 'clip-path' | 'mask', style: Style): string {
+  const reference = /^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)$/.exec(value);
+  const target = reference ? findById(writer.root, reference[1]) : null;
+  if (!target || localName(target.name) !== (kind === 'clip-path' ? 'clipPath' : 'mask')) return '';
+
+  const units = target.attributes.get(kind === 'clip-path' ? 'clipPathUnits' : 'maskContentUnits');
+  if (units === 'objectBoundingBox') {
+    writer.warnings.add(`${kind === 'clip-path' ? 'Clip paths' : 'Masks'} in bounding-box units are left out`);
+    return '';
+  }
+
+  const base = parseTransform(target.attributes.get('transform'));
+  const targetStyle = computeStyle(target, style, writer.rules);
+  const paths: string[] = [];
+  let evenOdd = false;
+  for (const shape of descendants(target)) {
+    const name = localName(shape.name);
+    if (name === 'g') continue;
+    if (!SHAPES.has(name)) {
+      if (name !== 'title' && name !== 'desc') {
+        writer.warnings.add(kind === 'mask' ? 'Masks other than plain white shapes are left out' : 'Clip paths can only hold shapes');
+        if (kind === 'mask') return '';
+      }
+      continue;
+    }
+    let matrix = base;
+    let shapeStyle = targetStyle;
+    for (const ancestor of ancestorsWithin(shape, target)) {
+      matrix = multiplyMatrix(matrix, parseTransform(ancestor.attributes.get('transform')));
+      shapeStyle = computeStyle(ancestor, shapeStyle, writer.rules);
+    }
+    if (shapeStyle.get('display') === 'none') continue;
+
+    if (kind === 'mask') {
+      const fill = resolvePaint(writer, shapeStyle.get('fill'), shapeStyle);
+      const white = fill && fill.r === 1 && fill.g === 1 && fill.b === 1 &&
+        fill.alpha * readOpacity(shapeStyle.get('fill-opacity')) * readOpacity(shapeStyle.get('opacity')) === 1;
+      if (!white || resolvePaint(writer, shapeStyle.get('stroke'), shapeStyle)) {
+        writer.warnings.add('Masks other than plain white shapes are left out');
+        return '';
+      }
+    }
+    evenOdd ||= (kind === 'clip-path' ? shapeStyle.get('clip-rule') : shapeStyle.get('fill-rule')) === 'evenodd';
+    paths.push(pathOperators(getShapeSegments(shape), matrix));
+  }
+  // An empty clip hides everything
+  return paths.length > 0 ? `${paths.join('\n')}\n${evenOdd ? 'W*' : 'W'} n` : '0 0 m h W n';
+}
+
+// The element's ancestors below `root`, outermost first, the element itself included
+function ancestorsWithin(el: XmlElement, root: XmlElement): XmlElement[] {
+  const chain: XmlElement[] = [];
+  for (let current: XmlElement | null = el; current && current !== root; current = current.parent) {
+    chain.unshift(current);
+  }
+  return chain;
+}
+
+function setColor(color: Color, stroke: boolean, registration: boolean): string {
+  if (registration) return stroke ? '/Reg CS 1 SCN' : '/Reg cs 1 scn';
+  return `${format(color.r)} ${format(color.g)} ${format(color.b)} ${stroke ? 'RG' : 'rg'}`;
+}
+
+function drawShape(writer: Writer, el: XmlElement, style: Style, alpha: number, registration: boolean): string {
+  const segments = getShapeSegments(el);
+  if (segments.length === 0) return '';
+  const fill = localName(el.name) === 'line' ? null : resolvePaint(writer, style.get('fill'), style);
+  const stroke = resolvePaint(writer, style.get('stroke'), style);
+  const strokeWidth = readNumber(style.get('stroke-width'), 1);
+  const stroked = stroke !== null && strokeWidth > 0;
+  if (!fill && !stroked) return '';
+
+  const ops: string[] = [];
+  const fillAlpha = fill ? fill.alpha * readOpacity(style.get('fill-opacity')) * alpha : 1;
+  const strokeAlpha = stroked ? stroke.alpha * readOpacity(style.get('stroke-opacity')) * alpha : 1;
+  if (fillAlpha < 1 || strokeAlpha < 1) ops.push(`/${getAlphaState(writer, fillAlpha, strokeAlpha)} gs`);
+  if (fill) ops.push(setColor(fill, false, registration));
+  if (stroked) {
+    ops.push(setColor(stroke, true, registration), `${format(strokeWidth)} w`);
+    const cap = ['butt', 'round', 'square'].indexOf(style.get('stroke-linecap') ?? 'butt');
+    if (cap > 0) ops.push(`${cap} J`);
+    const join = ['miter', 'round', 'bevel'].indexOf(style.get('stroke-linejoin') ?? 'miter');
+    if (join > 0) ops.push(`${join} j`);
+    ops.push(`${format(readNumber(style.get('stroke-miterlimit'), 4))} M`);
+    const dashes = (style.get('stroke-dasharray') ?? 'none').split(/[\s,]+/).map(Number).filter(value => Number.isFinite(value) && value >= 0);
+    if (dashes.length > 0 && dashes.some(value => value > 0)) {
+      const pattern = dashes.length % 2 === 1 ? [...dashes, ...dashes] : dashes;
+      ops.push(`[${pattern.map(format).join(' ')}] ${format(readNumber(style.get('stroke-dashoffset'), 0))} d`);
+    }
+  }
+  ops.push(pathOperators(segments));
+  const evenOdd = style.get('fill-rule') === 'evenodd';
+  ops.push(fill && stroked ? (evenOdd ? 'B*' : 'B') : fill ? (evenOdd ? 'f*' : 'f') : 'S');
+  return ops.join('\n');
+}
+
+// The transform that maps a viewBox onto a viewport, following preserveAspectRatio
+function viewBoxMatrix(el: XmlElement, x: number, y: number, width: number, height: number): Matrix {
+  const viewBox = parseViewBox(el.attributes.get('viewBox'));
+  if (!viewBox) return [1, 0, 0, 1, x, y];
+  let scaleX = width / viewBox.width;
+  let scaleY = height / viewBox.height;
+  const [align, meetOrSlice] = (el.attributes.get('preserveAspectRatio') ?? 'xMidYMid meet').trim().split(/\s+/);
+  let offsetX = 0;
+  let offsetY = 0;
+  if (align !== 'none') {
+    const scale = meetOrSlice === 'slice' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    scaleX = scaleY = scale;
+    const spareX = width - viewBox.width * scale;
+    const spareY = height - viewBox.height * scale;
+    offsetX = align.includes('xMid') ? spareX / 2 : align.includes('xMax') ? spareX : 0;
+    offsetY = align.includes('YMid') ? spareY / 2 : align.includes('YMax') ? spareY : 0;
+  }
+  return [scaleX, 0, 0, scaleY, x + offsetX - viewBox.x * scaleX, y + offsetY - viewBox.y * scaleY];
+}
+
+// The content of a symbol as a form XObject, one per distinct inherited style and opacity
+function getSymbolForm(writer: Writer, symbol: XmlElement, style: Style, alpha: number, registration: boolean): string {
+  const key = JSON.stringify([symbol.attributes.get('id'), Array.from(inherit(style)), alpha, registration]);
+  let name = writer.forms.get(key);
+  if (name) return name;
+
+  name = `X${writer.forms.size}`;
+  writer.forms.set(key, name);
+  const id = addObject(writer, ''); // Reserved so nested forms get later numbers
+  writer.formIds.set(name, id);
+  const symbolStyle = computeStyle(symbol, style, writer.rules);
+  const content = drawChildren(writer, symbol, symbolStyle, alpha, registration);
+  const viewBox = parseViewBox(symbol.attributes.get('viewBox'));
+  const box = viewBox
+    ? [viewBox.x, viewBox.y, viewBox.x + viewBox.width, viewBox.y + viewBox.height]
+    : [-1e5, -1e5, 1e5, 1e5];
+  writer.objects[id - 1] = stream(
+    `/Type /XObject /Subtype /Form /BBox [${box.map(format).join(' ')}] /Resources ${writer.resourcesId} 0 R`,
+    content
+  );
+  return name;
+}
+
+function drawChildren(writer: Writer, el: XmlElement, style: Style, alpha: number, registration: boolean): string {
+  return elementChildren(el)
+    .map(child => drawElement(writer, child, style, alpha, registration))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function drawElement(writer: Writer, el: XmlElement, parentStyle: Style, parentAlpha: number, parentRegistration: boolean): string {
+  const name = localName(el.name);
+  if (NON_RENDERED.has(name)) return '';
+  const style = computeStyle(el, parentStyle, writer.rules);
+  if (style.get('display') === 'none') return '';
+  // Group opacity is folded into each shape's alpha, which only differs where shapes overlap
+  const alpha = parentAlpha * readOpacity(style.get('opacity'));
+  const registration = parentRegistration || el.attributes.get(REGISTRATION_ATTRIBUTE) === 'true';
+  if (style.has('filter') && style.get('filter') !== 'none') writer.warnings.add('Filters are left out');
+
+  const ops: string[] = [];
+  const transform = parseTransform(el.attributes.get('transform'));
+  if (!isIdentity(transform)) ops.push(formatMatrix(transform));
+  const clipPath = style.get('clip-path');
+  if (clipPath && clipPath !== 'none') ops.push(clipOperators(writer, clipPath, 'clip-path', style));
+  const mask = style.get('mask');
+  if (mask && mask !== 'none') ops.push(clipOperators(writer, mask, 'mask', style));
+
+  const hidden = style.get('visibility') === 'hidden' || style.get('visibility') === 'collapse';
+  let body = '';
+  if (SHAPES.has(name)) {
+    body = hidden ? '' : drawShape(writer, el, style, alpha, registration);
+  } else if (name === 'g' || name === 'a' || name === 'switch') {
+    body = drawChildren(writer, el, style, alpha, registration);
+  } else if (name === 'svg') {
+    // A nested document: its viewBox mapped onto its box, clipped to it
+    const x = length(el, 'x');
+    const y = length(el, 'y');
+    const width = readNumber(el.attributes.get('width'), 0);
+    const height = readNumber(el.attributes.get('height'), 0);
+    if (width > 0 && height > 0) {
+      ops.push(`${pathOperators(rectPath(x, y, width, height))}\nW n`, formatMatrix(viewBoxMatrix(el, x, y, width, height)));
+      body = drawChildren(writer, el, style, alpha, registration);
+    }
+  } else if (name === 'use') {
+    body = drawUse(writer, el, style, alpha, registration);
+  } else if (name === 'text') {
+    writer.warnings.add('Text is left out; convert it to outlines first');
+  } else if (name === 'image') {
+    writer.warnings.add('Embedded images are left out');
+  }
+
+  if (!body) return '';
+  return ops.length > 0 ? `q\n${ops.filter(Boolean).join('\n')}\n${body}\nQ` : body;
+}
+
+function drawUse(writer: Writer, use: XmlElement, style: Style, alpha: number, registration: boolean): string {
+  const href = use.attributes.get('href') ?? use.attributes.get('xlink:href');
+  const target = href?.startsWith('#') ? findById(writer.root, href.slice(1)) : null;
+  if (!target || writer.depth > 20 || closest(use, ['clipPath', 'mask'])) return '';
+
+  const x = length(use, 'x');
+  const y = length(use, 'y');
+  writer.depth++;
+  try {
+    if (localName(target.name) === 'symbol') {
+      const viewBox = parseViewBox(target.attributes.get('viewBox'));
+      const width = readNumber(use.attributes.get('width'), viewBox?.width ?? 0);
+      const height = readNumber(use.attributes.get('height'), viewBox?.height ?? 0);
+      if (width <= 0 || height <= 0) return '';
+      const form = getSymbolForm(writer, target, style, alpha, registration);
+      const matrix = viewBoxMatrix(target, x, y, width, height);
+      return isIdentity(matrix) ? `/${form} Do` : `q\n${formatMatrix(matrix)}\n/${form} Do\nQ`;
+    }
+    // Plain geometry is drawn in place, inheriting from the <use>
+    const body = drawElement(writer, target, style, alpha, registration);
+    return body && (x !== 0 || y !== 0) ? `q\n${formatMatrix([1, 0, 0, 1, x, y])}\n${body}\nQ` : body;
+  } finally {
+    writer.depth--;
+  }
+}
+
+// Render an SVG document as a one-page PDF sized from its width and height
+export function renderPdf(svg: XmlElement, options: PdfOptions = {}): PdfResult {
+  const viewBox = parseViewBox(svg.attributes.get('viewBox'));
+  const widthPx = parseLength(svg.attributes.get('width')) ?? viewBox?.width ?? 0;
+  const heightPx = parseLength(svg.attributes.get('height')) ?? viewBox?.height ?? 0;
+  if (!(widthPx > 0 && heightPx > 0)) {
+    throw new Error('The document needs an absolute width and height');
+  }
+  const pageWidth = widthPx * PT_PER_PX;
+  const pageHeight = heightPx * PT_PER_PX;
+
+  const warnings = new Set<string>();
+  const writer: Writer = {
+    root: svg,
+    rules: parseStyleRules(svg, warnings),
+    objects: [],
+    resourcesId: 0,
+    forms: new Map(),
+    formIds: new Map(),
+    alphas: new Map(),
+    warnings,
+    depth: 0
+  };
+  const catalogId = addObject(writer, '');
+  const pagesId = addObject(writer, '');
+  const pageId = addObject(writer, '');
+  writer.resourcesId = addObject(writer, '');
+
+  // SVG user units to PDF points, with y turned to point down as in SVG
+  const box = viewBox ?? { x: 0, y: 0, width: widthPx, height: heightPx };
+  const scaleX = pageWidth / box.width;
+  const scaleY = pageHeight / box.height;
+  const page: Matrix = [scaleX, 0, 0, -scaleY, -box.x * scaleX, pageHeight + box.y * scaleY];
+  const content = `${formatMatrix(page)}\n${drawChildren(writer, svg, computeStyle(svg, INITIAL_STYLE, writer.rules), 1, false)}`;
+  const contentId = addObject(writer, stream('', content));
+
+  const toPageBox = (area: PdfBox): string => {
+    const [x1, y1] = transformPoint(page, area.x, area.y + area.height);
+    const [x2, y2] = transformPoint(page, area.x + area.width, area.y);
+    return `[${[x1, y1, x2, y2].map(format).join(' ')}]`;
+  };
+  const boxes = [
+    options.bleed && `/BleedBox ${toPageBox(options.bleed)}`,
+    options.trim && `/TrimBox ${toPageBox(options.trim)}`
+  ].filter(Boolean).join(' ');
+
+  writer.objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  writer.objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageId} 0 R] /Count 1 >>`;
+  writer.objects[pageId - 1] = `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${format(pageWidth)} ${format(pageHeight)}] ${boxes}${boxes && ' '}` +
+    `/Resources ${writer.resourcesId} 0 R /Contents ${contentId} 0 R >>`;
+
+  const alphaStates = Array.from(writer.alphas, ([key, name]) => {
+    const [fill, stroke] = key.split('/');
+    return `/${name} << /Type /ExtGState /ca ${fill} /CA ${stroke} >>`;
+  }).join(' ');
+  const forms = Array.from(writer.formIds, ([name, id]) => `/${name} ${id} 0 R`).join(' ');
+  // Marks are printed on every plate
+  const registration = '/Reg [/Separation /All /DeviceCMYK << /FunctionType 2 /Domain [0 1] /C0 [0 0 0 0] /C1 [1 1 1 1] /N 1 >>]';
+  writer.objects[writer.resourcesId - 1] = `<< ${[
+    alphaStates && `/ExtGState << ${alphaStates} >>`,
+    forms && `/XObject << ${forms} >>`,
+    `/ColorSpace << ${registration} >>`
+  ].filter(Boolean).join(' ')} >>`;
+  const infoId = addObject(writer, `<< /Producer (Minka SVG Pattern Generator)${options.title ? ` /Title ${pdfString(options.title)}` : ''} >>`);
+
+  // Header (with a comment of high bytes marking the file as binary), objects, cross-reference table
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = writer.objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = output.length;
+  output += `xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${offsets.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const data = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) data[i] = output.charCodeAt(i);
+  return { data, warnings: Array.from(warnings) };
+}
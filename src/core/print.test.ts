@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixtureSeeds } from '../test/fixtures';
+import { defaultExportOptions } from './exportSvg';
+import { type Layout, type Placement, layoutPattern } from './layout';
+import { buildPrintSvg, defaultPrint, extendLayout, getPrintGeometry, isOutsideCmykGamut, restorePrint } from './print';
+import { type PatternSettings, defaultSettings } from './settings';
+import { descendants, elementChildren, findById, localName } from './xml';
+
+const seeds = loadFixtureSeeds(['square.svg', 'circle.svg', 'wide.svg', 'large.svg']);
+const pattern: PatternSettings = { ...defaultSettings, seed: 'print-1', cols: 6, rows: 4 };
+
+function describePlacements(placements: Placement[], shift = 0): string[] {
+  return placements
+    .map(({ row, col, seed, rotation, scaleX, scaleY, offsetX, offsetY, paletteSlots }) =>
+      JSON.stringify([row - shift, col - shift, seed.id, rotation, scaleX, scaleY, offsetX, offsetY, paletteSlots]))
+    .sort();
+}
+
+// The extended placements that start inside the original grid
+function interior(layout: Layout, settings: PatternSettings, margin: number): Placement[] {
+  return layout.placements.filter(placement =>
+    placement.row >= margin && placement.row < margin + settings.rows &&
+    placement.col >= margin && placement.col < margin + settings.cols);
+}
+
+describe('extendLayout', () => {
+  it('keeps every tile in place and fills the margin around them', () => {
+    const layout = layoutPattern(seeds, pattern);
+    const extended = extendLayout(seeds, pattern, layout, 2);
+    expect([extended.settings.cols, extended.settings.rows]).toEqual([10, 8]);
+    expect(describePlacements(interior(extended.layout, pattern, 2), 2)).toEqual(describePlacements(layout.placements));
+    expect(extended.layout.placements.length).toBeGreaterThan(layout.placements.length);
+  });
+
+  it('repeats a seamless pattern into the margin', () => {
+    const seamless = { ...pattern, seamless: true };
+    const layout = layoutPattern(seeds, seamless);
+    const extended = extendLayout(seeds, seamless, layout, 1);
+    expect(describePlacements(interior(extended.layout, seamless, 1), 1)).toEqual(describePlacements(layout.placements));
+
+    // The row above the grid is the pattern's last row
+    const above = extended.layout.placements.filter(placement => placement.row === 0 && placement.col >= 1 && placement.col <= pattern.cols);
+    const lastRow = layout.placements.filter(placement => placement.row === pattern.rows - 1);
+    expect(above.map(placement => [placement.col - 1, placement.seed.id]).sort())
+      .toEqual(lastRow.map(placement => [placement.col, placement.seed.id]).sort());
+  });
+
+  it('leaves the layout alone without a margin', () => {
+    const layout = layoutPattern(seeds, pattern);
+    expect(extendLayout(seeds, pattern, layout, 0).layout).toBe(layout);
+  });
+});
+
+describe('getPrintGeometry', () => {
+  it('scales the grid to the trim width and covers the bleed with whole cells', () => {
+    const geometry = getPrintGeometry(pattern, { ...defaultPrint, width: 120, bleed: 3, cropMarks: false });
+    expect(geometry.scale).toBeCloseTo(0.1);
+    expect(geometry.trim).toEqual({ x: 3, y: 3, width: 120, height: 80 });
+    expect(geometry.bleed).toEqual({ x: 0, y: 0, width: 126, height: 86 });
+    expect(geometry.page).toEqual({ x: 0, y: 0, width: 126, height: 86 });
+    expect(geometry.margin).toBe(1);
+  });
+
+  it('leaves room for the marks outside the bleed', () => {
+    const geometry = getPrintGeometry(pattern, { ...defaultPrint, width: 120, bleed: 3 });
+    expect(geometry.trim.x).toBe(13);
+    expect(geometry.page.width).toBe(146);
+  });
+});
+
+describe('buildPrintSvg', () => {
+  const layout = layoutPattern(seeds, pattern);
+
+  it('sizes the document in print units', () => {
+    const { svg } = buildPrintSvg(seeds, pattern, layout, { ...defaultPrint, unit: 'in', width: 6, bleed: 0.125 }, defaultExportOptions);
+    expect(svg.attributes.get('width')).toMatch(/^[\d.]+in$/);
+    expect(svg.attributes.get('viewBox')).toMatch(/^0 0 [\d.]+ [\d.]+$/);
+    expect(findById(svg, 'print-bleed-clip')).not.toBeNull();
+    expect(descendants(svg).some(el => el.attributes.get('id') === 'border-rect')).toBe(false);
+  });
+
+  it('draws crop marks and registration targets', () => {
+    const marks = (cropMarks: boolean, registrationMarks: boolean) => {
+      const { svg } = buildPrintSvg(seeds, pattern, layout, { ...defaultPrint, cropMarks, registrationMarks }, defaultExportOptions);
+      const group = findById(svg, 'print-marks');
+      return group ? elementChildren(group).map(el => localName(el.name)) : [];
+    };
+    expect(marks(false, false)).toEqual([]);
+    expect(marks(true, false)).toEqual(Array(8).fill('line'));
+    expect(marks(false, true).filter(name => name === 'circle')).toHaveLength(4);
+  });
+});
+
+describe('isOutsideCmykGamut', () => {
+  it('flags saturated screen colours', () => {
+    ['#ff0000', '#00ff00', '#0000ff', '#00ffff', '#ff00ff'].forEach(color => expect(isOutsideCmykGamut(color)).toBe(true));
+  });
+
+  it('accepts neutral and muted colours', () => {
+    ['#000000', '#ffffff', '#808080', '#1e1e1e', '#204033', '#8b5a3c', '#d2b48c', '#4682b4'].forEach(color => expect(isOutsideCmykGamut(color)).toBe(false));
+  });
+});
+
+describe('restorePrint', () => {
+  it('falls back to the defaults for missing or out-of-range values', () => {
+    expect(restorePrint(undefined)).toEqual(defaultPrint);
+    expect(restorePrint({ unit: 'in', width: 8.5, bleed: 40, cropMarks: false }))
+      .toEqual({ ...defaultPrint, unit: 'in', width: 8.5, bleed: 0.1181, cropMarks: false });
+  });
+});
@@ -0,0 +1,321 @@
+// Print output: the pattern at a physical size, with bleed generated beyond the
+// trim, crop and registration marks, and a rough check for colours a CMYK press
+// can't reproduce
+
+import { type SvgExportOptions, optimizeSvgExport } from './exportSvg';
+import { type CellOverride, type Layout, layoutPattern } from './layout';
+import { normalizeColor } from './palette';
+import { SVG_NS, XLINK_NS, buildPatternSvg } from './render';
+import { type Seed, rotateFootprint } from './seeds';
+import type { PatternSettings } from './settings';
+import { type XmlElement, appendChild, createElement, elementChildren } from './xml';
+
+export type PrintUnit = 'mm' | 'in';
+
+export const PRINT_UNITS: PrintUnit[] = ['mm', 'in'];
+
+export interface PrintSettings {
+  unit: PrintUnit; // Unit of the sizes below and of the output document
+  width: number; // Trimmed width; the height follows from the grid
+  bleed: number; // Artwork beyond the trim on every side
+  cropMarks: boolean;
+  registrationMarks: boolean;
+  checkColors: boolean; // Warn about colours outside a typical CMYK gamut
+}
+
+export const defaultPrint: PrintSettings = {
+  unit: 'mm',
+  width: 210,
+  bleed: 3,
+  cropMarks: true,
+  registrationMarks: false,
+  checkColors: false
+};
+
+export const MM_PER_UNIT: Record<PrintUnit, number> = { mm: 1, in: 25.4 };
+
+// Limits in millimetres, whatever the unit
+export const printLimits = {
+  width: { min: 10, max: 5000 },
+  bleed: { min: 0, max: 25 }
+};
+
+// Elements drawn in registration colour (every ink) by the PDF export
+export const REGISTRATION_ATTRIBUTE = 'data-registration';
+
+// Mark geometry, in millimetres
+const MARK_GAP = 2; // Between the bleed edge and the crop marks
+const MARK_LENGTH = 5;
+const MARK_MARGIN = 3; // Paper left beyond the marks
+const MARK_STROKE = 0.25 * 25.4 / 72; // A quarter point
+const REGISTRATION_RADIUS = 2;
+
+// A rectangle in the print document's units
+export interface PrintBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PrintGeometry {
+  scale: number; // Print units per pattern pixel
+  margin: number; // Grid cells generated beyond the trim on each side to cover the bleed
+  page: PrintBox; // The whole sheet: trim, bleed and the marks around them
+  trim: PrintBox;
+  bleed: PrintBox;
+}
+
+export interface PrintDocument {
+  svg: XmlElement;
+  geometry: PrintGeometry;
+}
+
+// Keep lengths short in the markup
+function roundLength(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function getPrintGeometry(settings: PatternSettings, print: PrintSettings): PrintGeometry {
+  const patternWidth = settings.cols * settings.tileSize;
+  const scale = print.width / patternWidth;
+  const toUnit = (mm: number): number => mm / MM_PER_UNIT[print.unit];
+  const hasMarks = print.cropMarks || print.registrationMarks;
+  const slug = print.bleed + (hasMarks ? toUnit(MARK_GAP + MARK_LENGTH + MARK_MARGIN) : 0);
+
+  const trim = { x: slug, y: slug, width: print.width, height: settings.rows * settings.tileSize * scale };
+  return {
+    scale,
+    margin: Math.ceil(print.bleed / scale / settings.tileSize - 1e-9),
+    page: { x: 0, y: 0, width: trim.width + 2 * slug, height: trim.height + 2 * slug },
+    trim,
+    bleed: { x: trim.x - print.bleed, y: trim.y - print.bleed, width: trim.width + 2 * print.bleed, height: trim.height + 2 * print.bleed }
+  };
+}
+
+// The layout grown by `margin` cells on every side, for bleed. The pattern's own
+// tiles keep their places: a seamless pattern repeats into the margin, any
+// other is pinned with locked cells and the generator fills the margin around it.
+export function extendLayout(
+  seeds: Seed[],
+  settings: PatternSettings,
+  layout: Layout,
+  margin: number
+): { settings: PatternSettings; layout: Layout } {
+  if (margin === 0) return { settings, layout };
+  const { rows, cols } = settings;
+  const extended: PatternSettings = { ...settings, cols: cols + 2 * margin, rows: rows + 2 * margin, seamless: false, cellOverrides: [] };
+
+  if (settings.seamless) {
+    const repeatsX = Math.ceil(margin / cols);
+    const repeatsY = Math.ceil(margin / rows);
+    const placements = layout.placements.flatMap(placement => {
+      const placed = rotateFootprint(placement.footprint, placement.rotation);
+      const copies = [];
+      for (let y = -repeatsY; y <= repeatsY; y++) {
+        for (let x = -repeatsX; x <= repeatsX; x++) {
+          const row = placement.row + y * rows + margin;
+          const col = placement.col + x * cols + margin;
+          if (row + placed.height > 0 && row < extended.rows && col + placed.width > 0 && col < extended.cols) {
+            copies.push({ ...placement, row, col });
+          }
+        }
+      }
+      return copies;
+    });
+    return { settings: extended, layout: { ...layout, placements } };
+  }
+
+  const covered = new Set<string>();
+  const overrides: CellOverride[] = layout.placements.map(placement => {
+    const placed = rotateFootprint(placement.footprint, placement.rotation);
+    for (let r = placement.row; r < placement.row + placed.height; r++) {
+      for (let c = placement.col; c < placement.col + placed.width; c++) covered.add(`${r}-${c}`);
+    }
+    const { row, col, seed, rotation, scaleX, scaleY, offsetX, offsetY, paletteSlots } = placement;
+    return { row: row + margin, col: col + margin, seedId: seed.id, rotation, scaleX, scaleY, offsetX, offsetY, paletteSlots, locked: true };
+  });
+  // Empty cells stay empty
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (covered.has(`${row}-${col}`)) continue;
+      overrides.push({
+        row: row + margin,
+        col: col + margin,
+        seedId: null,
+        rotation: 0,
+        scaleX: 1,
+        scaleY: 1,
+        offsetX: 0,
+        offsetY: 0,
+        paletteSlots: null,
+        locked: true
+      });
+    }
+  }
+  extended.cellOverrides = overrides;
+  return { settings: extended, layout: layoutPattern(seeds, extended) };
+}
+
+function line(x1: number, y1: number, x2: number, y2: number): XmlElement {
+  return createElement('line', { x1: roundLength(x1), y1: roundLength(y1), x2: roundLength(x2), y2: roundLength(y2) });
+}
+
+// Crop marks at the trim corners and registration targets centred on each side, outside the bleed
+function buildMarks(geometry: PrintGeometry, print: PrintSettings): XmlElement {
+  const toUnit = (mm: number): number => mm / MM_PER_UNIT[print.unit];
+  const marks = createElement('g', {
+    id: 'print-marks',
+    fill: 'none',
+    stroke: '#000',
+    'stroke-width': roundLength(toUnit(MARK_STROKE)),
+    [REGISTRATION_ATTRIBUTE]: 'true'
+  });
+  const { trim } = geometry;
+  const start = print.bleed + toUnit(MARK_GAP);
+  const end = start + toUnit(MARK_LENGTH);
+  const left = trim.x;
+  const top = trim.y;
+  const right = trim.x + trim.width;
+  const bottom = trim.y + trim.height;
+
+  if (print.cropMarks) {
+    for (const [x, y, dx, dy] of [[left, top, -1, -1], [right, top, 1, -1], [left, bottom, -1, 1], [right, bottom, 1, 1]]) {
+      appendChild(marks, line(x + dx * start, y, x + dx * end, y));
+      appendChild(marks, line(x, y + dy * start, x, y + dy * end));
+    }
+  }
+
+  if (print.registrationMarks) {
+    const radius = toUnit(REGISTRATION_RADIUS);
+    const distance = (start + end) / 2;
+    const centerX = trim.x + trim.width / 2;
+    const centerY = trim.y + trim.height / 2;
+    for (const [x, y] of [[centerX, top - distance], [centerX, bottom + distance], [left - distance, centerY], [right + distance, centerY]]) {
+      appendChild(marks, createElement('circle', { cx: roundLength(x), cy: roundLength(y), r: roundLength(radius * 0.6) }));
+      appendChild(marks, line(x - radius, y, x + radius, y));
+      appendChild(marks, line(x, y - radius, x, y + radius));
+    }
+  }
+  return marks;
+}
+
+// The pattern as a print document sized in millimetres or inches: the artwork,
+// bleed included, clipped at the bleed edge, with the marks around it
+export function buildPrintSvg(
+  seeds: Seed[],
+  settings: PatternSettings,
+  layout: Layout,
+  print: PrintSettings,
+  options: SvgExportOptions
+): PrintDocument {
+  const geometry = getPrintGeometry(settings, print);
+  const extended = extendLayout(seeds, settings, layout, geometry.margin);
+  const pattern = buildPatternSvg(seeds, extended.settings, extended.layout);
+  optimizeSvgExport(pattern, { ...options, stripEditorElements: true });
+
+  const { page, bleed, scale, margin } = geometry;
+  const svg = createElement('svg', {
+    xmlns: SVG_NS,
+    'xmlns:xlink': XLINK_NS,
+    width: `${roundLength(page.width)}${print.unit}`,
+    height: `${roundLength(page.height)}${print.unit}`,
+    viewBox: `0 0 ${roundLength(page.width)} ${roundLength(page.height)}`
+  });
+
+  const defs = createElement('defs', { id: 'print-defs' });
+  const clip = createElement('clipPath', { id: 'print-bleed-clip' });
+  appendChild(clip, createElement('rect', {
+    x: roundLength(bleed.x),
+    y: roundLength(bleed.y),
+    width: roundLength(bleed.width),
+    height: roundLength(bleed.height)
+  }));
+  appendChild(defs, clip);
+  appendChild(svg, defs);
+
+  // The artwork in pattern pixels, scaled and moved so the original grid sits on the trim
+  const origin = roundLength(geometry.trim.x - margin * settings.tileSize * scale);
+  const artwork = createElement('g', { id: 'print-artwork', 'clip-path': 'url(#print-bleed-clip)' });
+  const content = createElement('g', { transform: `translate(${origin}, ${origin}) scale(${roundLength(scale)})` });
+  elementChildren(pattern).forEach(child => appendChild(content, child));
+  appendChild(artwork, content);
+  appendChild(svg, artwork);
+
+  if (print.cropMarks || print.registrationMarks) {
+    appendChild(svg, buildMarks(geometry, print));
+  }
+  return { svg, geometry };
+}
+
+// Roughly where the edge of a coated-paper CMYK gamut lies, at the hues of the
+// process inks and their overprints: the most saturated colour (CIE LCh chroma)
+// and its lightness
+const GAMUT_CUSPS: Array<{ hue: number; chroma: number; lightness: number }> = [
+  { hue: 35, chroma: 83, lightness: 48 }, // Red (magenta + yellow)
+  { hue: 93, chroma: 95, lightness: 89 }, // Yellow
+  { hue: 160, chroma: 70, lightness: 48 }, // Green (cyan + yellow)
+  { hue: 233, chroma: 62, lightness: 55 }, // Cyan
+  { hue: 296, chroma: 51, lightness: 24 }, // Blue (cyan + magenta)
+  { hue: 358, chroma: 74, lightness: 48 } // Magenta
+];
+
+// Chroma a colour may exceed the estimated gamut edge by before it is reported
+const GAMUT_TOLERANCE = 8;
+
+// An sRGB colour in CIE L*a*b* (D65 white)
+function toLab(color: string): [number, number, number] {
+  const linear = [1, 3, 5].map(i => {
+    const channel = parseInt(color.slice(i, i + 2), 16) / 255;
+    return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  const [r, g, b] = linear;
+  const xyz = [
+    (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047,
+    0.2126 * r + 0.7152 * g + 0.0722 * b,
+    (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883
+  ].map(value => value > 0.008856 ? Math.cbrt(value) : 7.787 * value + 16 / 116);
+  return [116 * xyz[1] - 16, 500 * (xyz[0] - xyz[1]), 200 * (xyz[1] - xyz[2])];
+}
+
+// Whether a colour is likely to print duller than it shows on screen. A rough
+// estimate from the hue, chroma and lightness; no ICC profile is involved.
+export function isOutsideCmykGamut(color: string): boolean {
+  const normalized = normalizeColor(color);
+  if (!normalized) return false;
+  const [lightness, a, b] = toLab(normalized);
+  const chroma = Math.hypot(a, b);
+  const hue = (Math.atan2(b, a) * 180 / Math.PI + 360) % 360;
+
+  // Interpolate between the two cusps either side of the hue
+  const index = GAMUT_CUSPS.findIndex(cusp => cusp.hue > hue);
+  const next = GAMUT_CUSPS[index === -1 ? 0 : index];
+  const previous = GAMUT_CUSPS[index <= 0 ? GAMUT_CUSPS.length - 1 : index - 1];
+  const span = (next.hue - previous.hue + 360) % 360;
+  const t = ((hue - previous.hue + 360) % 360) / span;
+  const cuspChroma = previous.chroma + (next.chroma - previous.chroma) * t;
+  const cuspLightness = previous.lightness + (next.lightness - previous.lightness) * t;
+
+  // The gamut narrows towards black and, more gently, towards the paper white
+  const limit = lightness <= cuspLightness
+    ? cuspChroma * lightness / cuspLightness
+    : cuspChroma * Math.sqrt(Math.max(0, 100 - lightness) / (100 - cuspLightness));
+  return chroma > Math.max(0, limit) + GAMUT_TOLERANCE;
+}
+
+// Merge saved print settings over the defaults
+export function restorePrint(saved: Partial<PrintSettings> | undefined): PrintSettings {
+  const defaults = defaultPrint;
+  const unit = PRINT_UNITS.includes(saved?.unit as PrintUnit) ? saved!.unit! : defaults.unit;
+  const inRange = (value: unknown, limits: { min: number; max: number }): value is number =>
+    typeof value === 'number' && value * MM_PER_UNIT[unit] >= limits.min && value * MM_PER_UNIT[unit] <= limits.max;
+  const readBoolean = (value: unknown, fallback: boolean): boolean => typeof value === 'boolean' ? value : fallback;
+  return {
+    unit,
+    width: inRange(saved?.width, printLimits.width) ? saved!.width! : roundLength(defaults.width / MM_PER_UNIT[unit]),
+    bleed: inRange(saved?.bleed, printLimits.bleed) ? saved!.bleed! : roundLength(defaults.bleed / MM_PER_UNIT[unit]),
+    cropMarks: readBoolean(saved?.cropMarks, defaults.cropMarks),
+    registrationMarks: readBoolean(saved?.registrationMarks, defaults.registrationMarks),
+    checkColors: readBoolean(saved?.checkColors, defaults.checkColors)
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixtureSeeds } from '../test/fixtures';
+import { defaultEmptyCells } from './emptyCells';
+import { defaultExportOptions } from './exportSvg';
+import { layoutPattern } from './layout';
+import { buildPatternSvg, exportPatternSvg } from './render';
+import { type PatternSettings, defaultSettings } from './settings';
+import { type TransformSettings, defaultTransforms } from './transforms';
+
+const seeds = loadFixtureSeeds(['square.svg', 'circle.svg', 'wide.svg', 'large.svg']);
+
+const jitter: TransformSettings = {
+  rotation: { chance: 0.8, step: 30 },
+  flipX: { chance: 0.5 },
+  flipY: { chance: 0.5 },
+  scale: { chance: 0.5, min: 0.6, max: 1.4 },
+  offset: { chance: 0.5, amount: 0.2 },
+  clip: true
+};
+
+function renderPattern(overrides: Partial<PatternSettings>): string {
+  const settings = { ...defaultSettings, ...overrides };
+  return exportPatternSvg(buildPatternSvg(seeds, settings, layoutPattern(seeds, settings)), defaultExportOptions);
+}
+
+// Golden files for fixed seed strings and grids. Any change to generation shows up
+// as a diff here; if it is intended, update them with `npm test -- -u`.
+describe('pattern snapshots', () => {
+  it.each<[string, Partial<PatternSettings>]>([
+    ['default', {}],
+    ['small-grid', { seed: 'golden-1', cols: 3, rows: 3, tileSize: 100 }],
+    ['seamless-flips', { seed: 'golden-2', cols: 6, rows: 4, seamless: true, transforms: { ...defaultTransforms, flipX: { chance: 0.5 } } }],
+    ['no-rotation', { seed: 'golden-3', cols: 5, rows: 5, transforms: { ...defaultTransforms, rotation: { chance: 0, step: 90 } }, largeSeedChance: 1 }],
+    ['colorize-rules', {
+      seed: 'golden-4',
+      cols: 6,
+      rows: 4,
+      colorize: true,
+      rules: { noAdjacentDuplicates: true, maxCopies: 8, forbiddenPairs: [], maxColorRun: 2 }
+    }],
+    ['empty-none', { seed: 'golden-5', cols: 6, rows: 4, emptyCells: { ...defaultEmptyCells, mode: 'none' } }],
+    ['empty-noise', { seed: 'golden-6', cols: 6, rows: 4, emptyCells: { ...defaultEmptyCells, mode: 'noise' } }],
+    ['empty-caves', { seed: 'golden-7', cols: 6, rows: 4, emptyCells: { ...defaultEmptyCells, mode: 'caves' } }],
+    ['empty-gradient', { seed: 'golden-8', cols: 6, rows: 4, emptyCells: { ...defaultEmptyCells, mode: 'gradient' } }],
+    ['jitter-clipped', { seed: 'golden-10', cols: 5, rows: 4, transforms: jitter }],
+    ['jitter-seamless', { seed: 'golden-11', cols: 5, rows: 4, seamless: true, transforms: jitter }],
+    ['jitter-unclipped', { seed: 'golden-12', cols: 5, rows: 4, transforms: { ...jitter, clip: false } }]
+  ])('%s', async (name, overrides) => {
+    await expect(renderPattern(overrides)).toMatchFileSnapshot(`__snapshots__/${name}.svg`);
+  });
+
+  it('renders the same document twice', () => {
+    expect(renderPattern({ seed: 'golden-9' })).toBe(renderPattern({ seed: 'golden-9' }));
+  });
+});
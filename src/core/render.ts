@@ -0,0 +1,250 @@
+// Build the pattern document from a layout. The app's preview and every SVG
+// export (in the browser and from the CLI) come from this one function, so
+// they match byte for byte.
+
+import { type SvgExportOptions, optimizeSvgExport, prefixElementIds } from './exportSvg';
+import type { Layout } from './layout';
+import { recolor } from './palette';
+import { type Seed, rotateFootprint, sortSeeds } from './seeds';
+import type { PatternSettings } from './settings';
+import { spillsCell } from './transforms';
+import {
+  type XmlElement,
+  appendChild,
+  cloneNode,
+  createElement,
+  localName,
+  serializeXml
+} from './xml';
+
+export const SVG_NS = 'http://www.w3.org/2000/svg';
+export const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// Get (creating on first use) a recoloured copy of a seed's symbol, with the
+// seed's colours mapped in order onto the shuffled palette slots
+function getPaletteVariant(
+  seed: Seed,
+  paletteSlots: number[],
+  palette: string[],
+  variants: Map<string, XmlElement>,
+  paletteDefs: XmlElement
+): string {
+  if (seed.colors.length === 0) return seed.id;
+
+  const mapping = seed.colors.map((_, i) => paletteSlots[i % paletteSlots.length]);
+  const variantId = `${seed.id}--p${mapping.join('-')}`;
+  if (variants.has(variantId)) return variantId;
+
+  const variant = cloneNode(seed.symbol);
+  variant.attributes.set('id', variantId);
+  recolor(variant, new Map(seed.colors.map((color, i) => [color, palette[mapping[i]]])));
+  // Copies of the seed's internal ids (masks, gradients) must not clash with the original
+  prefixElementIds(variant, variantId);
+  appendChild(paletteDefs, variant);
+  variants.set(variantId, variant);
+  return variantId;
+}
+
+// The full pattern document as shown in the preview, editor border included
+export function buildPatternSvg(seeds: Seed[], settings: PatternSettings, layout: Layout): XmlElement {
+  // Calculate dimensions (seamless grid, no gutter)
+  const totalWidth = settings.cols * settings.tileSize;
+  const totalHeight = settings.rows * settings.tileSize;
+
+  const svg = createElement('svg', {
+    xmlns: SVG_NS,
+    'xmlns:xlink': XLINK_NS,
+    width: totalWidth,
+    height: totalHeight,
+    viewBox: `0 0 ${totalWidth} ${totalHeight}`
+  });
+
+  // Border rectangle, only shown while editing
+  appendChild(svg, createElement('rect', {
+    x: 0,
+    y: 0,
+    width: totalWidth,
+    height: totalHeight,
+    fill: 'none',
+    stroke: '#D3D3D3',
+    'stroke-width': 2,
+    id: 'border-rect'
+  }));
+
+  // Background rectangle that matches the exact pattern dimensions
+  appendChild(svg, createElement('rect', {
+    x: 0,
+    y: 0,
+    width: totalWidth,
+    height: totalHeight,
+    fill: settings.background,
+    id: 'background-rect'
+  }));
+
+  const seedDefs = createElement('defs', { id: 'seed-defs' });
+  sortSeeds(seeds).forEach(seed => appendChild(seedDefs, cloneNode(seed.symbol)));
+  appendChild(svg, seedDefs);
+
+  // Copies of edge-straddling seeds are clipped to the panel so the output tiles exactly
+  if (settings.seamless) {
+    const wrapDefs = createElement('defs', { id: 'wrap-defs' });
+    const clipPath = createElement('clipPath', { id: 'wrap-clip' });
+    appendChild(clipPath, createElement('rect', { x: 0, y: 0, width: totalWidth, height: totalHeight }));
+    appendChild(wrapDefs, clipPath);
+    appendChild(svg, wrapDefs);
+  }
+
+  const paletteDefs = createElement('defs', { id: 'palette-defs' });
+  const paletteVariants = new Map<string, XmlElement>();
+  if (settings.colorize && settings.palette.length > 0) {
+    appendChild(svg, paletteDefs);
+  }
+
+  // Tiles that spill out of their cells are cut off at the cell edges, with one
+  // clip shape per placed footprint size, in the tile's own coordinates
+  const clipping = settings.transforms.clip && layout.placements.some(spillsCell);
+  const cellClipDefs = createElement('defs', { id: 'cell-clip-defs' });
+  if (clipping) {
+    appendChild(svg, cellClipDefs);
+  }
+  const cellClips = new Set<string>();
+  const getCellClip = (width: number, height: number): string => {
+    const clipId = `cell-clip-${width}x${height}`;
+    if (!cellClips.has(clipId)) {
+      const clip = createElement('clipPath', { id: clipId });
+      appendChild(clip, createElement('rect', { x: 0, y: 0, width: width * settings.tileSize, height: height * settings.tileSize }));
+      appendChild(cellClipDefs, clip);
+      cellClips.add(clipId);
+    }
+    return clipId;
+  };
+
+  for (const placement of layout.placements) {
+    const { row, col, seed, footprint, rotation, scaleX, scaleY, offsetX, offsetY, paletteSlots } = placement;
+    // Non-square seeds rotated by 90/270 occupy a swapped footprint
+    const placed = rotateFootprint(footprint, rotation);
+
+    const x = col * settings.tileSize;
+    const y = row * settings.tileSize;
+    const svgWidth = footprint.width * settings.tileSize;
+    const svgHeight = footprint.height * settings.tileSize;
+    const placedWidth = placed.width * settings.tileSize;
+    const placedHeight = placed.height * settings.tileSize;
+
+    // Build transform string - translate to cell position, then apply rotation/flip
+    // For rotation/flip, we translate to center, transform, then translate back
+    const buildTransform = (originX: number, originY: number): string => {
+      const transforms: string[] = [];
+      // Offsets are rounded so that floating-point noise stays out of the markup
+      const centerX = originX + placedWidth / 2 + Math.round(offsetX * settings.tileSize * 1000) / 1000;
+      const centerY = originY + placedHeight / 2 + Math.round(offsetY * settings.tileSize * 1000) / 1000;
+      transforms.push(`translate(${centerX}, ${centerY})`);
+      if (rotation !== 0) {
+        transforms.push(`rotate(${rotation})`);
+      }
+      if (scaleX !== 1 || scaleY !== 1) {
+        transforms.push(`scale(${scaleX}, ${scaleY})`);
+      }
+      transforms.push(`translate(${-svgWidth / 2}, ${-svgHeight / 2})`);
+      return transforms.join(' ');
+    };
+
+    // Create use element - fill the entire cell(s)
+    const symbolId = paletteSlots
+      ? getPaletteVariant(seed, paletteSlots, settings.palette, paletteVariants, paletteDefs)
+      : seed.id;
+    const use = createElement('use', { href: `#${symbolId}`, x: 0, y: 0, width: svgWidth, height: svgHeight });
+
+    // Position the tile in a group at a cell origin; a clipped tile is moved to the
+    // origin first so the clip shape lines up with its cells
+    const cellClip = clipping && spillsCell(placement) ? getCellClip(placed.width, placed.height) : null;
+    const positionTile = (group: XmlElement, originX: number, originY: number, tile: XmlElement): void => {
+      if (!cellClip) {
+        group.attributes.set('transform', buildTransform(originX, originY));
+        appendChild(group, tile);
+        return;
+      }
+      group.attributes.set('transform', `translate(${originX}, ${originY})`);
+      group.attributes.set('clip-path', `url(#${cellClip})`);
+      const inner = createElement('g', { transform: buildTransform(0, 0) });
+      appendChild(inner, tile);
+      appendChild(group, inner);
+    };
+
+    // Seeds crossing an edge in seamless mode also appear shifted by one panel on the opposite side
+    const crossesX = settings.seamless && col + placed.width > settings.cols;
+    const crossesY = settings.seamless && row + placed.height > settings.rows;
+
+    if (!crossesX && !crossesY) {
+      const cellGroup = createElement('g', { 'data-cell': `${row}-${col}` });
+      positionTile(cellGroup, x, y, use);
+      appendChild(svg, cellGroup);
+      continue;
+    }
+
+    // Split into clipped copies, one per panel the seed overlaps
+    const shifts: Array<[number, number]> = [[0, 0]];
+    if (crossesX) shifts.push([-totalWidth, 0]);
+    if (crossesY) shifts.push([0, -totalHeight]);
+    if (crossesX && crossesY) shifts.push([-totalWidth, -totalHeight]);
+
+    shifts.forEach(([dx, dy], index) => {
+      const piece = createElement('g', { 'data-cell': `${row}-${col}` });
+      if (index > 0) {
+        piece.attributes.set('data-wrap-copy', 'true');
+      }
+      piece.attributes.set('clip-path', 'url(#wrap-clip)');
+
+      const inner = createElement('g');
+      positionTile(inner, x + dx, y + dy, index === 0 ? use : cloneNode(use));
+      appendChild(piece, inner);
+      appendChild(svg, piece);
+    });
+  }
+
+  return svg;
+}
+
+// Serialize a pattern document for download, after the chosen clean-up passes
+export function exportPatternSvg(svg: XmlElement, options: SvgExportOptions): string {
+  optimizeSvgExport(svg, options);
+  return serializeXml(svg);
+}
+
+// Turn a pattern document into an SVG <pattern> definition that fills the document and repeats seamlessly
+export function exportRepeatingPatternSvg(svg: XmlElement, options: SvgExportOptions): string {
+  const totalWidth = svg.attributes.get('width') ?? '0';
+  const totalHeight = svg.attributes.get('height') ?? '0';
+
+  // The border is editor-only, so it never belongs in a repeating tile
+  optimizeSvgExport(svg, { ...options, stripEditorElements: true });
+
+  const pattern = createElement('pattern', {
+    id: 'minka-pattern',
+    patternUnits: 'userSpaceOnUse',
+    width: totalWidth,
+    height: totalHeight
+  });
+
+  // Move the background and tiles into the pattern tile, keeping the defs at the root
+  [...svg.children].forEach(child => {
+    if (child.type === 'element' && localName(child.name) === 'defs') return;
+    appendChild(pattern, child);
+  });
+
+  const patternDefs = createElement('defs');
+  appendChild(patternDefs, pattern);
+  appendChild(svg, patternDefs);
+  appendChild(svg, createElement('rect', { width: '100%', height: '100%', fill: 'url(#minka-pattern)' }));
+
+  return serializeXml(svg);
+}
+
+// A seed's symbol as a standalone SVG document
+export function getSeedSvg(seed: Seed): string {
+  const viewBox = seed.symbol.attributes.get('viewBox') ?? '';
+  const [, , width, height] = viewBox.split(/\s+/);
+  const svg = createElement('svg', { xmlns: SVG_NS, viewBox, width, height });
+  seed.symbol.children.forEach(child => appendChild(svg, cloneNode(child)));
+  return serializeXml(svg);
+}
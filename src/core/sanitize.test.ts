@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeSvg } from './sanitize';
+import { descendants, getTextContent, parseXml } from './xml';
+
+function sanitize(content: string) {
+  const root = parseXml(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">${content}</svg>`);
+  const removals = sanitizeSvg(root);
+  const [first] = descendants(root);
+  return { root, first, removals };
+}
+
+describe('sanitizeSvg', () => {
+  it('removes scripts and embedded HTML', () => {
+    const { root, removals } = sanitize(`<script>alert(1)</script>
+      <foreignObject width="10" height="10"><div xmlns="http://www.w3.org/1999/xhtml">Hi</div></foreignObject>
+      <rect width="10" height="10"/>`);
+    expect(descendants(root).map(el => el.name)).toEqual(['rect']);
+    expect(removals).toEqual(['Removed <script> element', 'Removed <foreignObject> element']);
+  });
+
+  it('removes event handlers', () => {
+    const { first, removals } = sanitize('<rect width="10" height="10" onclick="alert(1)" onLoad="alert(2)"/>');
+    expect([...first.attributes.keys()]).toEqual(['width', 'height']);
+    expect(removals).toEqual(['Removed the onclick event handler', 'Removed the onLoad event handler']);
+  });
+
+  it('keeps local references and embedded images but not remote ones', () => {
+    const { root, removals } = sanitize(`<use href="#a"/><use xlink:href="https://evil.example/p.svg#g"/>
+      <image href="data:image/png;base64,iVBORw0KGgo="/><image href="https://evil.example/p.png"/>
+      <rect fill="url(https://evil.example/p.svg#g)" stroke="url(#g)" width="1" height="1"/>`);
+    expect(descendants(root).map(el => el.attributes.get('href') ?? el.attributes.get('xlink:href') ?? null))
+      .toEqual(['#a', null, 'data:image/png;base64,iVBORw0KGgo=', null, null]);
+    expect(descendants(root)[4].attributes.has('fill')).toBe(false);
+    expect(descendants(root)[4].attributes.get('stroke')).toBe('url(#g)');
+    expect(removals).toEqual(['Removed an external reference (×3)']);
+  });
+
+  it('drops remote and scripted declarations from style attributes', () => {
+    const { first, removals } = sanitize(`<rect style="stroke:red;fill:url(https://evil.example/p.svg);opacity:0.5;mask:url('#m')"/>`);
+    expect(first.attributes.get('style')).toBe(`stroke:red;opacity:0.5;mask:url('#m')`);
+    expect(removals).toEqual(['Removed a remote or scripted style']);
+  });
+
+  it.each([
+    ['a semicolon inside a quoted url()', `fill:url('https://evil.example/p.svg;x#g')`],
+    ['a semicolon inside an unquoted url()', 'fill:url(https://evil.example/p.svg;x#g)'],
+    ['an escaped url()', 'fill:u\\72 l(https://evil.example/p.svg#g)'],
+    ['an escaped url() without a space', 'fill:\\75rl(https://evil.example/p.svg#g)'],
+    ['an unterminated url()', `fill:url('https://evil.example/p.svg`],
+    ['an escaped javascript: url', 'fill:url(jav\\61script:alert(1))']
+  ])('drops a style attribute declaration hiding %s', (_, declaration) => {
+    const { first, removals } = sanitize(`<rect style="stroke:red;${declaration.replace(/"/g, '&quot;')}"/>`);
+    expect(first.attributes.get('style')).toBe('stroke:red');
+    expect(removals).toEqual(['Removed a remote or scripted style']);
+  });
+
+  it.each([
+    ['a remote url()', '.a { fill: url(https://evil.example/p.svg#g) }', '.a { fill: none }'],
+    ['a quoted url() with a semicolon', `.a { fill: url('https://evil.example/p.svg;x#g') }`, '.a { fill: none }'],
+    ['an escaped url()', '.a { fill: u\\72 l(https://evil.example/p.svg#g) }', '.a { fill: none }'],
+    ['an unterminated url()', `.a { stroke: red } .b { fill: url('https://evil.example/p.svg`, '.a { stroke: red } .b { fill: '],
+    ['an escaped @import', '@\\69mport "https://evil.example/s.css"; .a { fill: red }', ' .a { fill: red }']
+  ])('strips %s from a stylesheet', (_, css, safe) => {
+    const { first, removals } = sanitize(`<style>${css}</style>`);
+    expect(getTextContent(first)).toBe(safe);
+    expect(removals).toEqual(['Removed remote or scripted rules from a <style>']);
+  });
+
+  it('leaves local references in stylesheets alone', () => {
+    const css = `.a { fill: url(#g) } .b { fill: url('#h'); stroke: url( "#i" ) }`;
+    const { first, removals } = sanitize(`<style>${css}</style>`);
+    expect(getTextContent(first)).toBe(css);
+    expect(removals).toEqual([]);
+  });
+});
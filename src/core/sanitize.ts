@@ -0,0 +1,220 @@
+// Sanitizer for uploaded seed documents. Only allowlisted SVG elements and
+// attributes are kept; scripts, event handlers, embedded HTML and references
+// to anything outside the document are removed, so neither the preview nor
+// exported files can run code or fetch remote content.
+
+import {
+  type XmlElement,
+  appendChild,
+  contains,
+  createElement,
+  descendants,
+  getTextContent,
+  localName,
+  removeNode,
+  replaceNode,
+  setTextContent
+} from './xml';
+
+// Static SVG content: shapes, text, paint servers, clipping, masking and filters.
+// Scripts, animation, <foreignObject> and the like are not listed and so removed.
+const ALLOWED_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'switch', 'title', 'desc', 'style',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'textPath', 'image',
+  'clipPath', 'mask', 'pattern', 'marker', 'linearGradient', 'radialGradient', 'stop',
+  'filter', 'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feConvolveMatrix',
+  'feDiffuseLighting', 'feDisplacementMap', 'feDistantLight', 'feDropShadow', 'feFlood',
+  'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feImage', 'feMerge', 'feMergeNode',
+  'feMorphology', 'feOffset', 'fePointLight', 'feSpecularLighting', 'feSpotLight', 'feTile', 'feTurbulence'
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  // Core
+  'id', 'class', 'style', 'transform', 'lang', 'xml:space', 'xml:lang', 'role',
+  // Document
+  'version', 'baseProfile', 'viewBox', 'preserveAspectRatio',
+  // Geometry and text layout
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'fr',
+  'width', 'height', 'd', 'points', 'pathLength', 'dx', 'dy', 'rotate', 'textLength',
+  'lengthAdjust', 'startOffset', 'method', 'spacing', 'side',
+  // References, checked separately
+  'href', 'xlink:href', 'clip-path', 'mask', 'filter', 'marker-start', 'marker-mid', 'marker-end',
+  // Paint servers, clipping, masking and markers
+  'gradientUnits', 'gradientTransform', 'spreadMethod', 'offset', 'stop-color', 'stop-opacity',
+  'patternUnits', 'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits',
+  'maskContentUnits', 'markerUnits', 'markerWidth', 'markerHeight', 'refX', 'refY', 'orient',
+  // Filters
+  'filterUnits', 'primitiveUnits', 'in', 'in2', 'result', 'stdDeviation', 'mode', 'type', 'values',
+  'operator', 'k1', 'k2', 'k3', 'k4', 'order', 'kernelMatrix', 'divisor', 'bias', 'targetX', 'targetY',
+  'edgeMode', 'preserveAlpha', 'surfaceScale', 'diffuseConstant', 'specularConstant', 'specularExponent',
+  'kernelUnitLength', 'scale', 'xChannelSelector', 'yChannelSelector', 'azimuth', 'elevation', 'z',
+  'pointsAtX', 'pointsAtY', 'pointsAtZ', 'limitingConeAngle', 'baseFrequency', 'numOctaves', 'seed',
+  'stitchTiles', 'radius', 'tableValues', 'slope', 'intercept', 'amplitude', 'exponent',
+  // Presentation
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap',
+  'stroke-linejoin', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset', 'opacity', 'color',
+  'display', 'visibility', 'overflow', 'clip', 'clip-rule', 'mix-blend-mode', 'isolation', 'paint-order',
+  'vector-effect', 'shape-rendering', 'image-rendering', 'text-rendering', 'color-interpolation',
+  'color-interpolation-filters', 'color-rendering', 'flood-color', 'flood-opacity', 'lighting-color',
+  'mask-type', 'transform-origin', 'enable-background',
+  'font', 'font-family', 'font-size', 'font-style', 'font-weight', 'font-variant', 'font-stretch',
+  'font-size-adjust', 'letter-spacing', 'word-spacing', 'text-anchor', 'text-decoration',
+  'dominant-baseline', 'alignment-baseline', 'baseline-shift', 'writing-mode', 'direction', 'unicode-bidi'
+]);
+
+// Elements whose href may hold an embedded raster image
+const IMAGE_ELEMENTS = ['image', 'feImage'];
+const EMBEDDED_IMAGE = /^data:image\/(png|jpeg|gif|webp);base64,[a-z0-9+/=\s]*$/i;
+
+// The start of a url() reference to anything but an element of this document.
+// Only the start is matched: CSS closes an unterminated url() at the end of the value.
+const REMOTE_URL = /url\((?!\s*['"]?#)/i;
+
+// A whole remote url(), with its argument quoted or not
+const REMOTE_URL_CALL = /url\((?!\s*['"]?#)\s*(?:"[^"]*"|'[^']*'|[^)'"]*)\s*\)/i;
+
+const SCRIPTED_CSS = /javascript:|expression\s*\(|@import|-moz-binding|behavior\s*:/i;
+
+function isAllowedAttribute(name: string): boolean {
+  return ALLOWED_ATTRIBUTES.has(name) ||
+    name === 'xmlns' || name.startsWith('xmlns:') ||
+    name.startsWith('data-') || name.startsWith('aria-');
+}
+
+// Decode CSS escapes that stand for letters or hyphens, so "u\72 l(" reads as "url(".
+// An escaped letter means the same as the letter itself, so the CSS is unchanged;
+// other escapes are left as they are.
+function decodeCssEscapes(css: string): string {
+  return css.replace(/\\(?:([0-9a-f]{1,6})[ \t\n\r\f]?|([^\n\r\f0-9a-f]))/gi, (escape, hex: string | undefined, char: string | undefined) => {
+    const decoded = hex ? String.fromCodePoint(Math.min(parseInt(hex, 16), 0x10ffff)) : char!;
+    return /^[a-z-]$/i.test(decoded) ? decoded : escape;
+  });
+}
+
+function hasActiveContent(value: string): boolean {
+  const css = decodeCssEscapes(value);
+  return SCRIPTED_CSS.test(css) || REMOTE_URL.test(css);
+}
+
+// Check a reference: local fragments anywhere, embedded rasters on image elements
+function isSafeHref(element: XmlElement, value: string): boolean {
+  const href = value.trim();
+  return href.startsWith('#') || (IMAGE_ELEMENTS.includes(localName(element.name)) && EMBEDDED_IMAGE.test(href));
+}
+
+// Split a style attribute into its declarations, leaving semicolons inside strings and url() alone
+function splitDeclarations(value: string): string[] {
+  const declarations: string[] = [];
+  let start = 0;
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\') {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ';' && depth === 0) {
+      declarations.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  declarations.push(value.slice(start));
+  return declarations;
+}
+
+// Drop the declarations of a style attribute that run code or load remote content
+function sanitizeStyleAttribute(value: string): string {
+  return splitDeclarations(value).filter(declaration => !hasActiveContent(declaration)).join(';');
+}
+
+// Strip remote loads from a stylesheet, leaving the rest of its rules in place.
+// A remote url() left unterminated runs to the end of the stylesheet, so the rest is dropped.
+function sanitizeStylesheet(css: string): string {
+  return decodeCssEscapes(css)
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(new RegExp(REMOTE_URL_CALL.source, 'gi'), 'none')
+    .replace(new RegExp(`${REMOTE_URL.source}[\\s\\S]*$`, 'i'), '')
+    .replace(new RegExp(SCRIPTED_CSS.source, 'gi'), '');
+}
+
+// Tally of changes, as message -> count
+type Removals = Map<string, number>;
+
+function tally(removals: Removals, what: string): void {
+  removals.set(what, (removals.get(what) ?? 0) + 1);
+}
+
+// Remove everything that is not plain, self-contained SVG from a parsed
+// document, in place. Returns a line per kind of removal, for reporting.
+export function sanitizeSvg(root: XmlElement): string[] {
+  const removals: Removals = new Map();
+
+  for (const element of [root, ...descendants(root)]) {
+    if (element !== root && !contains(root, element)) continue; // Inside an element removed earlier
+
+    // Links become plain groups, so their content is kept without the navigation
+    if (element.name === 'a') {
+      const group = createElement('g');
+      element.attributes.forEach((value, name) => group.attributes.set(name, value));
+      [...element.children].forEach(child => appendChild(group, child));
+      replaceNode(element, group);
+      tally(removals, 'Turned a link (<a>) into a plain group');
+      sanitizeAttributes(group, removals);
+      continue;
+    }
+
+    if (element !== root && (element.name.includes(':') || !ALLOWED_ELEMENTS.has(element.name))) {
+      removeNode(element);
+      // Editors such as Inkscape add their own namespaced elements; they are reported together
+      tally(removals, element.name.includes(':') ? 'Removed an editor or foreign-namespace element' : `Removed <${element.name}> element`);
+      continue;
+    }
+
+    sanitizeAttributes(element, removals);
+
+    if (element.name === 'style') {
+      const css = getTextContent(element);
+      const safe = sanitizeStylesheet(css);
+      if (safe !== css) {
+        setTextContent(element, safe);
+        tally(removals, 'Removed remote or scripted rules from a <style>');
+      }
+    }
+  }
+
+  return Array.from(removals, ([message, count]) => `${message}${count > 1 ? ` (×${count})` : ''}`);
+}
+
+function sanitizeAttributes(element: XmlElement, removals: Removals): void {
+  element.attributes.forEach((value, name) => {
+    if (/^on/i.test(localName(name))) {
+      element.attributes.delete(name);
+      tally(removals, `Removed the ${name} event handler`);
+    } else if (!isAllowedAttribute(name)) {
+      element.attributes.delete(name);
+      tally(removals, name.includes(':') ? 'Removed an editor or foreign-namespace attribute' : `Removed the ${name} attribute`);
+    } else if (localName(name) === 'href' && !name.startsWith('xmlns')) {
+      if (!isSafeHref(element, value)) {
+        element.attributes.delete(name);
+        tally(removals, 'Removed an external reference');
+      }
+    } else if (name === 'style') {
+      const safe = sanitizeStyleAttribute(value);
+      if (safe !== value) {
+        element.attributes.set(name, safe);
+        tally(removals, 'Removed a remote or scripted style');
+      }
+    } else if (hasActiveContent(value)) {
+      element.attributes.delete(name);
+      tally(removals, 'Removed an external reference');
+    }
+  });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixtureSeeds, readFixture } from '../test/fixtures';
+import { createSeed, detectSVGSize, parseSeedSvg, planSeedImport } from './seeds';
+
+describe('detectSVGSize', () => {
+  it.each([
+    ['square.svg', { width: 1, height: 1 }], // 200×200px
+    ['circle.svg', { width: 1, height: 1 }], // viewBox only, square aspect
+    ['wide.svg', { width: 2, height: 1 }], // 400×200px
+    ['large.svg', { width: 2, height: 2 }], // 400×400px
+    ['millimetres.svg', { width: 1, height: 1 }] // 52.9167mm is 200px
+  ])('sizes %s', (name, footprint) => {
+    expect(detectSVGSize(parseSeedSvg(readFixture(name)), 200)).toEqual(footprint);
+  });
+
+  it.each(['off-size.svg', 'relative-size.svg'])('finds no footprint for %s', name => {
+    expect(detectSVGSize(parseSeedSvg(readFixture(name)), 200)).toBeNull();
+  });
+
+  it('measures against the tile size', () => {
+    expect(detectSVGSize(parseSeedSvg(readFixture('large.svg')), 400)).toEqual({ width: 1, height: 1 });
+    expect(detectSVGSize(parseSeedSvg(readFixture('off-size.svg')), 100)).toEqual({ width: 3, height: 2 });
+  });
+});
+
+describe('parseSeedSvg', () => {
+  it('rejects malformed XML', () => {
+    expect(() => parseSeedSvg(readFixture('malformed.svg'))).toThrow();
+  });
+
+  it('rejects documents that are not SVG', () => {
+    expect(() => parseSeedSvg(readFixture('not-svg.svg'))).toThrow('Not an SVG document');
+  });
+});
+
+describe('planSeedImport', () => {
+  it('fits off-size documents into the nearest footprint', () => {
+    const plan = planSeedImport(parseSeedSvg(readFixture('off-size.svg')), 200, 'fit');
+    expect(plan.footprint).toEqual({ width: 2, height: 1 });
+    expect(plan.fit).toBe('fit');
+    expect(plan.warnings).toHaveLength(1);
+  });
+
+  it('rejects off-size documents when asked to', () => {
+    expect(() => planSeedImport(parseSeedSvg(readFixture('off-size.svg')), 200, 'reject')).toThrow('300×200px');
+  });
+
+  it('rejects documents without an absolute size', () => {
+    expect(() => planSeedImport(parseSeedSvg(readFixture('relative-size.svg')), 200, 'fit')).toThrow();
+  });
+});
+
+describe('createSeed', () => {
+  it('gives the same content the same id', () => {
+    const [first] = loadFixtureSeeds(['square.svg']);
+    const [second] = loadFixtureSeeds(['square.svg']);
+    expect(first.id).toBe(second.id);
+    expect(first.symbol.attributes.get('id')).toBe(first.id);
+  });
+
+  it('gives different content different ids', () => {
+    const ids = loadFixtureSeeds(['square.svg', 'circle.svg', 'wide.svg', 'large.svg']).map(seed => seed.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('keeps an id it is given', () => {
+    const seed = createSeed(parseSeedSvg(readFixture('square.svg')), { width: 1, height: 1 }, 'square.svg', 'stretch', 'seed-kept');
+    expect(seed.id).toBe('seed-kept');
+    expect(seed.symbol.attributes.get('id')).toBe('seed-kept');
+  });
+
+  it('takes the colour covering the most as the dominant one', () => {
+    const outlined = createSeed(parseSeedSvg(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200">' +
+      '<rect x="1" y="1" width="198" height="198" fill="none" stroke="#000000" stroke-width="2"/>' +
+      '<g fill="#ff0000" transform="scale(2)"><circle cx="50" cy="50" r="45"/></g></svg>'
+    ), { width: 1, height: 1 }, 'outlined.svg');
+    expect(outlined.colors).toEqual(['#000000', '#ff0000']);
+    expect(outlined.dominantColor).toBe('#ff0000');
+
+    const [square] = loadFixtureSeeds(['square.svg']);
+    expect(square.dominantColor).toBe('#204033');
+    const blank = createSeed(parseSeedSvg('<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200"/>'), { width: 1, height: 1 }, 'blank.svg');
+    expect(blank.dominantColor).toBeNull();
+  });
+});
@@ -0,0 +1,267 @@
+// Seeds: the SVG tiles a pattern is built from, normalized into <symbol>s
+
+import type { SeedTone } from './mosaic';
+import { extractColors, getDominantColor } from './palette';
+import { hashContent } from './random';
+import { type XmlElement, appendChild, cloneNode, createElement, elementChildren, localName, parseXml, serializeXml } from './xml';
+
+// Number of grid cells a seed covers horizontally and vertically
+export interface Footprint {
+  width: number;
+  height: number;
+}
+
+export const singleCell: Footprint = { width: 1, height: 1 };
+
+// Symbols are drawn at 200 units per grid cell
+export const SYMBOL_CELL_SIZE = 200;
+
+export interface Seed {
+  id: string; // A hash of the symbol's content when first added, kept from then on
+  filename: string;
+  footprint: Footprint;
+  weight: number; // Relative likelihood of being picked among seeds of the same kind; 0 disables
+  colors: string[]; // Distinct fill and stroke colours, mapped onto palette slots when recolouring
+  dominantColor: string | null; // The one of `colors` covering the most, as the colour rules see the seed
+  tone: SeedTone | null; // Measured by rasterizing the seed; null until then
+  symbol: XmlElement; // The <symbol> the tiles reference
+}
+
+// How a seed whose size is not a whole footprint is placed in the nearest one:
+// turned away, scaled to fit inside it, scaled to cover it (cropping the overflow),
+// or stretched to its exact shape
+export type SeedFit = 'reject' | 'fit' | 'fill' | 'stretch';
+
+export const SEED_FITS: SeedFit[] = ['reject', 'fit', 'fill', 'stretch'];
+
+const FIT_DESCRIPTIONS: Record<SeedFit, string> = {
+  reject: 'rejected',
+  fit: 'fitted inside',
+  fill: 'cropped to fill',
+  stretch: 'stretched to'
+};
+
+// A rectangle in a seed document's user units
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface SVGGeometry {
+  content: Box; // The area the document's content is drawn in
+  width: number; // Rendered size in pixels
+  height: number;
+}
+
+// Pixels per unit; SVG assumes 96 pixels per inch
+const UNIT_SIZES: Record<string, number> = {
+  '': 1,
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  q: 96 / 101.6
+};
+
+// Root attributes that only size or identify the document. The others (fill,
+// stroke, style, class, ...) are inherited by the content, so they are kept.
+const DOCUMENT_ATTRIBUTES = [
+  'id', 'x', 'y', 'width', 'height', 'viewBox', 'preserveAspectRatio',
+  'version', 'baseProfile', 'zoomAndPan', 'contentScriptType', 'contentStyleType', 'enable-background'
+];
+
+// Check whether a value is a whole number, allowing for rounding in exported dimensions
+function isWholeNumber(value: number): boolean {
+  return Math.round(value) >= 1 && Math.abs(value - Math.round(value)) < 0.01;
+}
+
+// Rotating by 90 or 270 degrees swaps a footprint's width and height. Other
+// angles take the footprint of the nearest quarter turn.
+export function rotateFootprint(footprint: Footprint, rotation: number): Footprint {
+  return Math.round(rotation / 90) % 2 === 0 ? footprint : { width: footprint.height, height: footprint.width };
+}
+
+// Parse a seed file, throwing if it is not an SVG document
+export function parseSeedSvg(text: string): XmlElement {
+  const root = parseXml(text);
+  if (localName(root.name) !== 'svg') {
+    throw new Error('Not an SVG document');
+  }
+  return root;
+}
+
+// An absolute length in pixels, or null for missing, relative (%, em) and invalid lengths
+export function parseLength(value: string | undefined): number | null {
+  const match = value?.trim().toLowerCase().match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z]*)$/);
+  if (!match || !(match[2] in UNIT_SIZES)) return null;
+  const length = parseFloat(match[1]) * UNIT_SIZES[match[2]];
+  return length > 0 ? length : null;
+}
+
+// A viewBox's four numbers, which may be separated by whitespace, commas or both
+export function parseViewBox(value: string | undefined): Box | null {
+  if (value === undefined) return null;
+  const parts = value.trim().split(/\s*,\s*|\s+/).map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) return null;
+  const [x, y, width, height] = parts;
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+}
+
+// Where a seed document draws and how big it is. Absolute width and height
+// attributes give the size; without them the viewBox does.
+function getSVGGeometry(svgRoot: XmlElement): SVGGeometry | null {
+  const viewBox = parseViewBox(svgRoot.attributes.get('viewBox'));
+  const width = parseLength(svgRoot.attributes.get('width'));
+  const height = parseLength(svgRoot.attributes.get('height'));
+
+  if (!viewBox) {
+    return width !== null && height !== null ? { content: { x: 0, y: 0, width, height }, width, height } : null;
+  }
+  // A single absolute dimension takes the other from the viewBox's aspect ratio
+  const aspect = viewBox.width / viewBox.height;
+  if (width !== null && height !== null) return { content: viewBox, width, height };
+  if (width !== null) return { content: viewBox, width, height: width / aspect };
+  if (height !== null) return { content: viewBox, width: height * aspect, height };
+  return { content: viewBox, width: viewBox.width, height: viewBox.height };
+}
+
+// Footprint (in grid cells) from a size in pixels, or null if it is off-size
+function footprintFromSize(width: number, height: number, tileSize: number): Footprint | null {
+  // Dimensions that are whole multiples of the tile size map directly onto cells
+  const cellsX = width / tileSize;
+  const cellsY = height / tileSize;
+  if (isWholeNumber(cellsX) && isWholeNumber(cellsY)) {
+    return { width: Math.round(cellsX), height: Math.round(cellsY) };
+  }
+
+  // Otherwise derive the footprint from the aspect ratio, with the short side spanning one cell
+  const ratio = width / height;
+  if (isWholeNumber(ratio)) return { width: Math.round(ratio), height: 1 };
+  if (isWholeNumber(1 / ratio)) return { width: 1, height: Math.round(1 / ratio) };
+  return null; // Invalid size
+}
+
+// Detect SVG footprint (in grid cells) from dimensions
+export function detectSVGSize(svgRoot: XmlElement, tileSize: number): Footprint | null {
+  const geometry = getSVGGeometry(svgRoot);
+  return geometry ? footprintFromSize(geometry.width, geometry.height, tileSize) : null;
+}
+
+// The footprint closest to an aspect ratio, with the short side spanning one cell
+function nearestFootprint(width: number, height: number): Footprint {
+  const ratio = width / height;
+  return ratio >= 1
+    ? { width: Math.round(ratio), height: 1 }
+    : { width: 1, height: Math.round(1 / ratio) };
+}
+
+export interface SeedImport {
+  footprint: Footprint;
+  fit: SeedFit; // How the content is mapped onto the footprint
+  warnings: string[]; // Changes made to the document that the user should know about
+}
+
+// Work out how a seed document is placed, throwing with the reason if it can't be
+export function planSeedImport(svgRoot: XmlElement, tileSize: number, fit: SeedFit): SeedImport {
+  const warnings: string[] = [];
+  const viewBox = svgRoot.attributes.get('viewBox');
+  if (viewBox !== undefined && parseViewBox(viewBox) === null) {
+    warnings.push(`Ignored the invalid viewBox "${viewBox}"`);
+  }
+
+  const geometry = getSVGGeometry(svgRoot);
+  if (!geometry) {
+    throw new Error('Has no usable viewBox or absolute width and height');
+  }
+
+  const { width, height } = geometry;
+  const detected = footprintFromSize(width, height, tileSize);
+  if (detected) return { footprint: detected, fit: 'stretch', warnings };
+
+  const size = `${Math.round(width)}×${Math.round(height)}px`;
+  if (fit === 'reject') {
+    throw new Error(`${size} is not a whole number of ${tileSize}px tiles or a whole-number aspect ratio (1:1, 2:1, 1:3, ...)`);
+  }
+  const footprint = nearestFootprint(width, height);
+  warnings.push(`${size} is off-size; ${FIT_DESCRIPTIONS[fit]} ${footprint.width}×${footprint.height} cells`);
+  return { footprint, fit, warnings };
+}
+
+// Wrap a seed document's content in a <symbol> whose viewBox spans 200 units per cell:
+// 200x200 for 1x1, 400x200 for 2x1, 400x400 for 2x2
+export function createSeedSymbol(svgRoot: XmlElement, footprint: Footprint, seedId: string, fit: SeedFit = 'stretch'): XmlElement {
+  const expectedWidth = footprint.width * SYMBOL_CELL_SIZE;
+  const expectedHeight = footprint.height * SYMBOL_CELL_SIZE;
+
+  // Map the original content area onto the expected size, centred when the fit keeps the aspect ratio
+  const content = getSVGGeometry(svgRoot)?.content ?? { x: 0, y: 0, width: expectedWidth, height: expectedHeight };
+  let scaleX = expectedWidth / content.width;
+  let scaleY = expectedHeight / content.height;
+  let offsetX = 0;
+  let offsetY = 0;
+  if (fit === 'fit' || fit === 'fill') {
+    scaleX = scaleY = fit === 'fit' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+    // Rounded so that content which already fits isn't shifted by floating-point noise
+    offsetX = Math.round((expectedWidth - content.width * scaleX) / 2 * 1000) / 1000;
+    offsetY = Math.round((expectedHeight - content.height * scaleY) / 2 * 1000) / 1000;
+  }
+
+  const symbol = createElement('symbol', { id: seedId, viewBox: `0 0 ${expectedWidth} ${expectedHeight}` });
+
+  // Wrap content in a group that carries the root's inherited attributes, and scale if needed
+  const contentGroup = createElement('g');
+  svgRoot.attributes.forEach((value, name) => {
+    // Namespaced attributes (xmlns, editor metadata) would need their declarations
+    if (DOCUMENT_ATTRIBUTES.includes(name) || name.includes(':') || name === 'xmlns' || name.startsWith('data-')) return;
+    contentGroup.attributes.set(name, value);
+  });
+  const transforms: string[] = [];
+  if (offsetX !== 0 || offsetY !== 0) transforms.push(`translate(${offsetX}, ${offsetY})`);
+  if (scaleX !== 1 || scaleY !== 1) transforms.push(`scale(${scaleX}, ${scaleY})`);
+  if (content.x !== 0 || content.y !== 0) transforms.push(`translate(${-content.x}, ${-content.y})`);
+  if (transforms.length > 0) {
+    contentGroup.attributes.set('transform', transforms.join(' '));
+  }
+  elementChildren(svgRoot).forEach(child => appendChild(contentGroup, cloneNode(child)));
+  appendChild(symbol, contentGroup);
+
+  return symbol;
+}
+
+// Build a seed from a parsed SVG document
+// Seeds that already have an id (restored or imported ones) keep it; new ones are
+// identified by their content
+export function createSeed(svgRoot: XmlElement, footprint: Footprint, filename: string, fit: SeedFit = 'stretch', id?: string): Seed {
+  const symbol = createSeedSymbol(svgRoot, footprint, id ?? '', fit);
+  const seedId = id ?? identifySeedSymbol(symbol);
+  return {
+    id: seedId,
+    filename,
+    footprint,
+    weight: 1,
+    colors: extractColors(symbol),
+    dominantColor: getDominantColor(symbol),
+    tone: null,
+    symbol
+  };
+}
+
+// Give a seed symbol its id, a hash of everything else in it, and return the id.
+// Identical seeds get the same id however and whenever they were added.
+export function identifySeedSymbol(symbol: XmlElement): string {
+  const content = cloneNode(symbol);
+  content.attributes.delete('id');
+  const seedId = `seed-${hashContent(serializeXml(content))}`;
+  symbol.attributes.set('id', seedId);
+  return seedId;
+}
+
+// Seeds in id order. Generation works on this order, so the pattern depends
+// only on which seeds there are, not the order they were added in.
+export function sortSeeds<T extends Seed>(seeds: T[]): T[] {
+  return [...seeds].sort((a, b) => a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
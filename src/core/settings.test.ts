@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { type PatternSettings, defaultSettings, gridLimits, parseGridValue, restoreSettings } from './settings';
+
+describe('parseGridValue', () => {
+  it('reads whole numbers within the limits', () => {
+    expect(parseGridValue('8', gridLimits.cols)).toBe(8);
+    expect(parseGridValue(' 12 ', gridLimits.cols)).toBe(12);
+    expect(parseGridValue(50, gridLimits.cols)).toBe(50);
+  });
+
+  it.each(['8abc', '8.9', '', ' ', 'abc', '0', '51', null, undefined, 8.5, true])('refuses %j', value => {
+    expect(parseGridValue(value, gridLimits.cols)).toBeNull();
+  });
+});
+
+describe('restoreSettings', () => {
+  const restoreRules = (rules: unknown) => restoreSettings({ rules } as Partial<PatternSettings>).rules;
+
+  it('keeps valid rules', () => {
+    const rules = { noAdjacentDuplicates: true, maxCopies: 4, forbiddenPairs: [['a', 'b']], maxColorRun: 2 };
+    expect(restoreRules(rules)).toEqual(rules);
+  });
+
+  it.each([
+    ['a string', 'strict'],
+    ['an array', [true, 3]],
+    ['null', null]
+  ])('falls back to the default rules for %s', (_, rules) => {
+    expect(restoreRules(rules)).toEqual(defaultSettings.rules);
+  });
+
+  it('falls back rule by rule for values of the wrong type or out of range', () => {
+    const rules = { noAdjacentDuplicates: 'yes', maxCopies: '4', forbiddenPairs: [['a', 'b'], ['c'], 'd'], maxColorRun: 2.5 };
+    expect(restoreRules(rules)).toEqual({ ...defaultSettings.rules, forbiddenPairs: [['a', 'b']] });
+    expect(restoreRules({ maxCopies: -1, maxColorRun: 1000 })).toEqual(defaultSettings.rules);
+  });
+});
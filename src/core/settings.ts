@@ -0,0 +1,130 @@
+// Settings that determine a generated pattern, shared by the app and the CLI
+
+import type { ConstraintRules } from './constraints';
+import { type EmptyCellSettings, defaultEmptyCells, restoreEmptyCells } from './emptyCells';
+import { type CellOverride, isCellOverride } from './layout';
+import { type MosaicSettings, defaultMosaic, restoreMosaic } from './mosaic';
+import { normalizeColor } from './palette';
+import { type TransformSettings, defaultTransforms, restoreTransforms } from './transforms';
+
+export interface PatternSettings {
+  cols: number;
+  rows: number;
+  tileSize: number;
+  seed: string;
+  transforms: TransformSettings; // Rotation, flips, scale and offset of each tile
+  emptyCells: EmptyCellSettings; // How the cells left empty are chosen
+  largeSeedChance: number; // Probability (0-1) of trying a multi-cell seed where one fits
+  seamless: boolean; // Wrap placement around the edges so the output tiles as a repeating pattern
+  background: string; // Shows through empty cells
+  colorize: boolean; // Recolour each tile from the palette
+  palette: string[];
+  rules: ConstraintRules;
+  cellOverrides: CellOverride[]; // Tiles edited by hand, applied over the generated layout
+  mosaic: MosaicSettings; // Match seeds to a reference image instead of picking them at random
+}
+
+export const defaultSettings: PatternSettings = {
+  cols: 8,
+  rows: 5,
+  tileSize: 200, // Doubled from 100 to make output 1600px × 1000px
+  seed: 'pattern-2024',
+  transforms: defaultTransforms,
+  emptyCells: defaultEmptyCells,
+  largeSeedChance: 0.3,
+  seamless: false,
+  background: '#1e1e1e',
+  colorize: false,
+  palette: ['#1e1e1e', '#f5fc9f', '#204033', '#ffffff'],
+  rules: {
+    noAdjacentDuplicates: false,
+    maxCopies: 0,
+    forbiddenPairs: [],
+    maxColorRun: 0
+  },
+  cellOverrides: [],
+  mosaic: defaultMosaic
+};
+
+// Allowed ranges for the grid controls
+export const gridLimits = {
+  cols: { min: 1, max: 50 },
+  rows: { min: 1, max: 50 },
+  tileSize: { min: 10, max: 1000 }
+};
+
+// Rule limits; 0 switches a rule off
+export const ruleLimits = {
+  maxCopies: { min: 0, max: gridLimits.cols.max * gridLimits.rows.max },
+  maxColorRun: { min: 0, max: Math.max(gridLimits.cols.max, gridLimits.rows.max) }
+};
+
+// Parse a grid dimension, returning null if it is not a whole number within limits.
+// Strings must be a number and nothing else, so "8abc" is refused rather than read as 8.
+export function parseGridValue(value: unknown, limits: { min: number; max: number }): number | null {
+  const text = String(value).trim();
+  const num = typeof value === 'number' ? value : text === '' ? NaN : Number(text);
+  if (!Number.isInteger(num) || num < limits.min || num > limits.max) {
+    return null;
+  }
+  return num;
+}
+
+// Read saved placement rules, falling back to the defaults for each invalid or missing rule
+function restoreRules(saved: unknown): ConstraintRules {
+  const defaults = defaultSettings.rules;
+  const rules = (typeof saved === 'object' && saved !== null ? saved : {}) as Partial<Record<keyof ConstraintRules, unknown>>;
+  const readLimit = (value: unknown, limits: { min: number; max: number }, fallback: number): number =>
+    (typeof value === 'number' ? parseGridValue(value, limits) : null) ?? fallback;
+  return {
+    noAdjacentDuplicates: typeof rules.noAdjacentDuplicates === 'boolean' ? rules.noAdjacentDuplicates : defaults.noAdjacentDuplicates,
+    maxCopies: readLimit(rules.maxCopies, ruleLimits.maxCopies, defaults.maxCopies),
+    forbiddenPairs: Array.isArray(rules.forbiddenPairs)
+      ? rules.forbiddenPairs.filter((pair): pair is [string, string] =>
+        Array.isArray(pair) && pair.length === 2 && pair.every(id => typeof id === 'string'))
+      : [],
+    maxColorRun: readLimit(rules.maxColorRun, ruleLimits.maxColorRun, defaults.maxColorRun)
+  };
+}
+
+// Merge saved settings over the defaults, falling back to defaults for invalid values.
+// Keys that are not settings are passed through untouched.
+export function restoreSettings<T extends Partial<PatternSettings>>(saved: T): T & PatternSettings {
+  const restored = { ...defaultSettings, ...saved };
+  restored.seed = typeof restored.seed === 'string' ? restored.seed : defaultSettings.seed;
+  restored.cols = parseGridValue(restored.cols, gridLimits.cols) ?? defaultSettings.cols;
+  restored.rows = parseGridValue(restored.rows, gridLimits.rows) ?? defaultSettings.rows;
+  restored.tileSize = parseGridValue(restored.tileSize, gridLimits.tileSize) ?? defaultSettings.tileSize;
+  restored.background = normalizeColor(restored.background) ?? defaultSettings.background;
+  restored.palette = Array.isArray(restored.palette)
+    ? restored.palette.map(normalizeColor).filter((color): color is string => color !== null)
+    : [...defaultSettings.palette];
+  restored.rules = restoreRules(saved.rules);
+  // Older states only had an on/off switch for clustering
+  const legacy = restored as typeof restored & { blackClustering?: unknown };
+  restored.emptyCells = restoreEmptyCells(saved.emptyCells, legacy.blackClustering);
+  delete legacy.blackClustering;
+  // ...and on/off switches for rotation and flips
+  const legacyTransforms = restored as typeof restored & { randomRotation?: unknown; allowFlips?: unknown };
+  restored.transforms = restoreTransforms(saved.transforms, legacyTransforms);
+  delete legacyTransforms.randomRotation;
+  delete legacyTransforms.allowFlips;
+  // Tiles edited before offsets existed sit in their cells
+  restored.cellOverrides = Array.isArray(restored.cellOverrides)
+    ? restored.cellOverrides.map((override: Partial<CellOverride>) => ({ offsetX: 0, offsetY: 0, ...override })).filter(isCellOverride)
+    : [];
+  restored.mosaic = restoreMosaic(saved.mosaic);
+  if (!(restored.largeSeedChance >= 0 && restored.largeSeedChance <= 1)) {
+    restored.largeSeedChance = defaultSettings.largeSeedChance;
+  }
+  return restored;
+}
+
+// Point the rules and edited cells at new seed ids, in place, for settings saved
+// before seeds were identified by content. Ids not in the map are left alone.
+export function renameSeedIds(settings: PatternSettings, ids: Map<string, string>): void {
+  const rename = (seedId: string): string => ids.get(seedId) ?? seedId;
+  settings.rules.forbiddenPairs = settings.rules.forbiddenPairs.map(([first, second]) => [rename(first), rename(second)]);
+  settings.cellOverrides = settings.cellOverrides.map(override =>
+    override.seedId === null ? override : { ...override, seedId: rename(override.seedId) });
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { seedStrings } from '../test/fixtures';
+import { hashSeed, mulberry32 } from './random';
+import {
+  type TransformSettings,
+  defaultTransforms,
+  drawTileTransform,
+  getRotationAngles,
+  getSeedRotations,
+  restoreTransforms,
+  spillsCell
+} from './transforms';
+
+const jitter: TransformSettings = {
+  rotation: { chance: 0.5, step: 30 },
+  flipX: { chance: 0.5 },
+  flipY: { chance: 0.5 },
+  scale: { chance: 0.5, min: 0.7, max: 1.3 },
+  offset: { chance: 0.5, amount: 0.2 },
+  clip: true
+};
+
+describe('getRotationAngles', () => {
+  it('lists the multiples of the step below a full turn', () => {
+    expect(getRotationAngles(90)).toEqual([0, 90, 180, 270]);
+    expect(getRotationAngles(45)).toHaveLength(8);
+    expect(getRotationAngles(100)).toEqual([0, 100, 200, 300]);
+    expect(getRotationAngles(180)).toEqual([0, 180]);
+  });
+});
+
+describe('getSeedRotations', () => {
+  it('turns square footprints to any angle in the set', () => {
+    expect(getSeedRotations({ width: 2, height: 2 }, { chance: 1, step: 45 })).toEqual(getRotationAngles(45));
+  });
+
+  it('keeps other footprints to the quarter turns in the set', () => {
+    expect(getSeedRotations({ width: 2, height: 1 }, { chance: 1, step: 45 })).toEqual([0, 90, 180, 270]);
+    expect(getSeedRotations({ width: 2, height: 1 }, { chance: 1, step: 40 })).toEqual([0]);
+  });
+
+  it('keeps every seed upright when rotation is off', () => {
+    expect(getSeedRotations({ width: 1, height: 1 }, { chance: 0, step: 45 })).toEqual([0]);
+  });
+});
+
+describe('drawTileTransform', () => {
+  it('is deterministic for a seed string', () => {
+    const draw = () => {
+      const rng = mulberry32(hashSeed('pattern-2024'));
+      return Array.from({ length: 50 }, () => drawTileTransform(jitter, getRotationAngles(30), rng));
+    };
+    expect(draw()).toEqual(draw());
+  });
+
+  it('keeps every transform within its settings', () => {
+    for (const seed of seedStrings(200)) {
+      const transform = drawTileTransform(jitter, getRotationAngles(30), mulberry32(hashSeed(seed)));
+      expect(transform.rotation % 30).toBe(0);
+      expect(Math.abs(transform.scaleX)).toBe(Math.abs(transform.scaleY));
+      expect(Math.abs(transform.scaleX) === 1 || (Math.abs(transform.scaleX) >= 0.7 && Math.abs(transform.scaleX) <= 1.3)).toBe(true);
+      expect(Math.abs(transform.offsetX)).toBeLessThanOrEqual(0.2);
+      expect(Math.abs(transform.offsetY)).toBeLessThanOrEqual(0.2);
+    }
+  });
+
+  it('applies each transform about as often as its chance', () => {
+    const rng = mulberry32(hashSeed('chances'));
+    const settings = { ...jitter, rotation: { chance: 1, step: 90 }, flipX: { chance: 0.25 }, flipY: { chance: 0.75 } };
+    const transforms = Array.from({ length: 2000 }, () => drawTileTransform(settings, [0, 90, 180, 270], rng));
+    const share = (test: (index: number) => boolean) => transforms.filter((_, i) => test(i)).length / transforms.length;
+    expect(share(i => transforms[i].scaleX < 0)).toBeCloseTo(0.25, 1);
+    expect(share(i => transforms[i].scaleY < 0)).toBeCloseTo(0.75, 1);
+    expect(share(i => transforms[i].offsetX !== 0)).toBeCloseTo(0.5, 1);
+  });
+
+  it('draws nothing for transforms that are off', () => {
+    const rng = mulberry32(1);
+    const settings = { ...defaultTransforms, rotation: { chance: 0, step: 90 } };
+    expect(drawTileTransform(settings, [0], rng)).toEqual({ rotation: 0, scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 });
+    expect(rng()).toBe(mulberry32(1)());
+  });
+
+  it('leaves an unturned tile at the first angle that fits', () => {
+    const settings = { ...defaultTransforms, rotation: { chance: 0, step: 90 } };
+    expect(drawTileTransform(settings, [90, 270], mulberry32(1)).rotation).toBe(90);
+  });
+});
+
+describe('spillsCell', () => {
+  const still = { rotation: 90, scaleX: -1, scaleY: 1, offsetX: 0, offsetY: 0 };
+
+  it('knows which tiles stay in their cells', () => {
+    expect(spillsCell(still)).toBe(false);
+    expect(spillsCell({ ...still, scaleX: 0.8, scaleY: 0.8 })).toBe(false);
+  });
+
+  it('knows which tiles spill out', () => {
+    expect(spillsCell({ ...still, rotation: 45 })).toBe(true);
+    expect(spillsCell({ ...still, scaleX: -1.2, scaleY: 1.2 })).toBe(true);
+    expect(spillsCell({ ...still, offsetY: 0.1 })).toBe(true);
+  });
+});
+
+describe('restoreTransforms', () => {
+  it('reads the rotation and flip switches of older states', () => {
+    expect(restoreTransforms(undefined, { randomRotation: false }).rotation.chance).toBe(0);
+    expect(restoreTransforms(undefined, { allowFlips: true }).flipX.chance).toBe(0.5);
+    expect(restoreTransforms(undefined)).toEqual(defaultTransforms);
+  });
+
+  it('falls back to the defaults for invalid values', () => {
+    const restored = restoreTransforms({
+      rotation: { chance: 2, step: 0.5 },
+      scale: { chance: 0.5, min: 0.01, max: 1.5 },
+      offset: { chance: -1, amount: 0.9 }
+    } as Partial<TransformSettings>);
+    expect(restored.rotation).toEqual(defaultTransforms.rotation);
+    expect(restored.scale).toEqual({ chance: 0.5, min: defaultTransforms.scale.min, max: 1.5 });
+    expect(restored.offset).toEqual(defaultTransforms.offset);
+  });
+});
@@ -0,0 +1,176 @@
+// Tile transforms: rotation, flips, scale and position jitter. Each applies to a
+// tile with its own chance, drawn from the layout RNG in a fixed order.
+
+import type { Footprint } from './seeds';
+
+export interface RotationParams {
+  chance: number; // Chance (0-1) of a tile being turned to a random angle from the set, 0° included
+  step: number; // The set is every multiple of this below 360°; 90 gives quarter turns
+}
+
+export interface FlipParams {
+  chance: number; // Chance (0-1) of a tile being mirrored
+}
+
+export interface ScaleParams {
+  chance: number; // Chance (0-1) of a tile being resized
+  min: number; // Size range as a share of the cell, 1 filling it exactly
+  max: number;
+}
+
+export interface OffsetParams {
+  chance: number; // Chance (0-1) of a tile being shifted
+  amount: number; // Largest shift along each axis, as a share of a cell
+}
+
+export interface TransformSettings {
+  rotation: RotationParams;
+  flipX: FlipParams; // Mirror left to right
+  flipY: FlipParams; // Mirror top to bottom
+  scale: ScaleParams;
+  offset: OffsetParams;
+  clip: boolean; // Cut tiles that spill out of their cells off at the cell edges
+}
+
+// A tile's transform, as placed by the layout or set in the editor
+export interface TileTransform {
+  rotation: number; // Degrees, 0-359
+  scaleX: number; // Negative when flipped
+  scaleY: number;
+  offsetX: number; // Shift from the cell, as a share of a cell
+  offsetY: number;
+}
+
+export const defaultTransforms: TransformSettings = {
+  rotation: { chance: 1, step: 90 },
+  flipX: { chance: 0 },
+  flipY: { chance: 0 },
+  scale: { chance: 0, min: 0.8, max: 1.2 },
+  offset: { chance: 0, amount: 0.1 },
+  clip: true
+};
+
+// Limits for the transform controls, in the units the controls show
+export const transformLimits = {
+  step: { min: 1, max: 180 }, // Degrees
+  scale: { min: 10, max: 300 }, // % of the cell
+  offset: { min: 0, max: 50 } // % of a cell
+};
+
+// The angles a rotation step allows, smallest first
+export function getRotationAngles(step: number): number[] {
+  const angles: number[] = [];
+  for (let angle = 0; angle < 360; angle += step) {
+    angles.push(angle);
+  }
+  return angles;
+}
+
+// Angles a seed may be placed at. Turning a square footprint about its centre
+// keeps it on the grid at any angle; other shapes only take the quarter turns.
+export function getSeedRotations(footprint: Footprint, rotation: RotationParams): number[] {
+  if (rotation.chance <= 0) return [0];
+  const angles = getRotationAngles(rotation.step);
+  return footprint.width === footprint.height ? angles : angles.filter(angle => angle % 90 === 0);
+}
+
+// Whether something with the given chance happens. Certain outcomes don't draw,
+// so a transform that is off (or always on) leaves the other draws where they were.
+function rollChance(rng: () => number, chance: number): boolean {
+  if (chance <= 0) return false;
+  if (chance >= 1) return true;
+  return rng() > 1 - chance;
+}
+
+// Draw a tile's transform. `rotations` are the angles that fit where the tile
+// goes; a tile that isn't turned keeps the first of them.
+export function drawTileTransform(settings: TransformSettings, rotations: number[], rng: () => number): TileTransform {
+  const rotation = rollChance(rng, settings.rotation.chance)
+    ? rotations[Math.floor(rng() * rotations.length)]
+    : rotations[0];
+
+  let scaleX = rollChance(rng, settings.flipX.chance) ? -1 : 1;
+  let scaleY = rollChance(rng, settings.flipY.chance) ? -1 : 1;
+
+  if (rollChance(rng, settings.scale.chance)) {
+    const low = Math.min(settings.scale.min, settings.scale.max);
+    const high = Math.max(settings.scale.min, settings.scale.max);
+    const size = roundTransform(low + rng() * (high - low));
+    scaleX *= size;
+    scaleY *= size;
+  }
+
+  let offsetX = 0;
+  let offsetY = 0;
+  if (rollChance(rng, settings.offset.chance)) {
+    offsetX = roundTransform((rng() * 2 - 1) * settings.offset.amount);
+    offsetY = roundTransform((rng() * 2 - 1) * settings.offset.amount);
+  }
+
+  return { rotation, scaleX, scaleY, offsetX, offsetY };
+}
+
+// Keep drawn values short in the exported markup
+function roundTransform(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Whether a tile can draw outside its cells: enlarged, shifted or turned off the grid
+export function spillsCell(transform: TileTransform): boolean {
+  return Math.abs(transform.scaleX) > 1 || Math.abs(transform.scaleY) > 1 ||
+    transform.offsetX !== 0 || transform.offsetY !== 0 || transform.rotation % 90 !== 0;
+}
+
+export function isTileTransform(value: unknown): value is TileTransform {
+  const transform = value as TileTransform;
+  const isScale = (scale: unknown): boolean => typeof scale === 'number' && Number.isFinite(scale) && scale !== 0;
+  const isOffset = (offset: unknown): boolean => typeof offset === 'number' && Math.abs(offset) <= 0.5;
+  return typeof transform === 'object' && transform !== null &&
+    typeof transform.rotation === 'number' && transform.rotation >= 0 && transform.rotation < 360 &&
+    isScale(transform.scaleX) && isScale(transform.scaleY) &&
+    isOffset(transform.offsetX) && isOffset(transform.offsetY);
+}
+
+// A chance (0-1), falling back when out of range
+function readChance(value: unknown, fallback: number): number {
+  return typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+}
+
+// A value shown as a percentage in the controls, stored as a share
+function readShare(value: unknown, limits: { min: number; max: number }, fallback: number): number {
+  return typeof value === 'number' && value * 100 >= limits.min && value * 100 <= limits.max ? value : fallback;
+}
+
+// Merge saved transform settings over the defaults. States saved before these
+// existed only have the rotation and flip switches.
+export function restoreTransforms(
+  saved: Partial<TransformSettings> | undefined,
+  legacy: { randomRotation?: unknown; allowFlips?: unknown } = {}
+): TransformSettings {
+  const defaults = defaultTransforms;
+  const rotation: Partial<RotationParams> = saved?.rotation ?? {};
+  const scale: Partial<ScaleParams> = saved?.scale ?? {};
+  const offset: Partial<OffsetParams> = saved?.offset ?? {};
+  const { min, max } = transformLimits.step;
+
+  return {
+    rotation: {
+      chance: readChance(rotation.chance, legacy.randomRotation === false ? 0 : defaults.rotation.chance),
+      step: Number.isInteger(rotation.step) && rotation.step! >= min && rotation.step! <= max
+        ? rotation.step!
+        : defaults.rotation.step
+    },
+    flipX: { chance: readChance(saved?.flipX?.chance, legacy.allowFlips === true ? 0.5 : defaults.flipX.chance) },
+    flipY: { chance: readChance(saved?.flipY?.chance, defaults.flipY.chance) },
+    scale: {
+      chance: readChance(scale.chance, defaults.scale.chance),
+      min: readShare(scale.min, transformLimits.scale, defaults.scale.min),
+      max: readShare(scale.max, transformLimits.scale, defaults.scale.max)
+    },
+    offset: {
+      chance: readChance(offset.chance, defaults.offset.chance),
+      amount: readShare(offset.amount, transformLimits.offset, defaults.offset.amount)
+    },
+    clip: typeof saved?.clip === 'boolean' ? saved.clip : defaults.clip
+  };
+}
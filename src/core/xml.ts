@@ -0,0 +1,259 @@
+// A minimal XML tree with a parser and serializer, so patterns can be built
+// and written out the same way in the browser and in Node
+
+export interface XmlElement {
+  type: 'element';
+  name: string; // Qualified name as written, e.g. "rect" or "xlink:href"
+  attributes: Map<string, string>; // In document order
+  children: XmlNode[];
+  parent: XmlElement | null;
+}
+
+export interface XmlText {
+  type: 'text' | 'cdata' | 'comment';
+  value: string;
+  parent: XmlElement | null;
+}
+
+export type XmlNode = XmlElement | XmlText;
+
+export function createElement(name: string, attributes: Record<string, string | number> = {}): XmlElement {
+  const element: XmlElement = { type: 'element', name, attributes: new Map(), children: [], parent: null };
+  Object.entries(attributes).forEach(([key, value]) => element.attributes.set(key, value.toString()));
+  return element;
+}
+
+export function createText(value: string): XmlText {
+  return { type: 'text', value, parent: null };
+}
+
+// Detach a node from its parent
+export function removeNode(node: XmlNode): void {
+  if (!node.parent) return;
+  const siblings = node.parent.children;
+  siblings.splice(siblings.indexOf(node), 1);
+  node.parent = null;
+}
+
+// Insert a node before `reference`, or at the end when there is no reference
+export function insertBefore(parent: XmlElement, node: XmlNode, reference: XmlNode | null = null): void {
+  removeNode(node);
+  const index = reference ? parent.children.indexOf(reference) : -1;
+  if (index > -1) {
+    parent.children.splice(index, 0, node);
+  } else {
+    parent.children.push(node);
+  }
+  node.parent = parent;
+}
+
+export function appendChild(parent: XmlElement, node: XmlNode): void {
+  insertBefore(parent, node);
+}
+
+export function replaceNode(node: XmlNode, replacement: XmlNode): void {
+  const parent = node.parent;
+  if (!parent) return;
+  insertBefore(parent, replacement, node);
+  removeNode(node);
+}
+
+// Deep copy, detached from any parent
+export function cloneNode<T extends XmlNode>(node: T): T {
+  if (node.type !== 'element') {
+    return { ...node, parent: null };
+  }
+  const copy = createElement(node.name);
+  node.attributes.forEach((value, key) => copy.attributes.set(key, value));
+  node.children.forEach(child => appendChild(copy, cloneNode(child)));
+  return copy as T;
+}
+
+export function elementChildren(element: XmlElement): XmlElement[] {
+  return element.children.filter((child): child is XmlElement => child.type === 'element');
+}
+
+// Every element below `element`, in document order
+export function descendants(element: XmlElement): XmlElement[] {
+  const result: XmlElement[] = [];
+  const visit = (parent: XmlElement): void => {
+    for (const child of elementChildren(parent)) {
+      result.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return result;
+}
+
+// Local name without any namespace prefix
+export function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+// The nearest element (starting with `element` itself) whose local name is one of `names`
+export function closest(element: XmlElement, names: string[]): XmlElement | null {
+  for (let el: XmlElement | null = element; el; el = el.parent) {
+    if (names.includes(localName(el.name))) return el;
+  }
+  return null;
+}
+
+export function contains(ancestor: XmlElement, node: XmlNode): boolean {
+  for (let el: XmlElement | null = node.parent; el; el = el.parent) {
+    if (el === ancestor) return true;
+  }
+  return false;
+}
+
+export function findById(root: XmlElement, id: string): XmlElement | null {
+  if (root.attributes.get('id') === id) return root;
+  return descendants(root).find(el => el.attributes.get('id') === id) ?? null;
+}
+
+export function getTextContent(node: XmlNode): string {
+  if (node.type === 'element') return node.children.map(getTextContent).join('');
+  return node.type === 'comment' ? '' : node.value;
+}
+
+export function setTextContent(element: XmlElement, value: string): void {
+  [...element.children].forEach(removeNode);
+  appendChild(element, createText(value));
+}
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+// Parse an XML document and return its root element. Throws on malformed input.
+export function parseXml(text: string): XmlElement {
+  const entities: Record<string, string> = { ...PREDEFINED_ENTITIES };
+  let pos = 0;
+  let root: XmlElement | null = null;
+  let current: XmlElement | null = null;
+
+  const fail = (message: string): never => {
+    const line = text.slice(0, pos).split('\n').length;
+    throw new Error(`${message} (line ${line})`);
+  };
+
+  const decode = (value: string): string => value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[\w.:-]+);/g, (match, ref: string) => {
+    if (ref.startsWith('#x')) return String.fromCodePoint(parseInt(ref.slice(2), 16));
+    if (ref.startsWith('#')) return String.fromCodePoint(parseInt(ref.slice(1), 10));
+    return entities[ref] ?? fail(`Undefined entity ${match}`);
+  });
+
+  const expect = (token: string): void => {
+    const end = text.indexOf(token, pos);
+    if (end === -1) fail(`Expected "${token}"`);
+    pos = end + token.length;
+  };
+
+  const addNode = (node: XmlNode): void => {
+    if (current) {
+      appendChild(current, node);
+    } else if (node.type === 'element') {
+      if (root) fail('Document has more than one root element');
+      root = node;
+    } else if (node.type === 'text' && node.value.trim() !== '') {
+      fail('Text outside the root element');
+    }
+  };
+
+  while (pos < text.length) {
+    if (text[pos] !== '<') {
+      const end = text.indexOf('<', pos);
+      const raw = text.slice(pos, end === -1 ? text.length : end);
+      addNode(createText(decode(raw)));
+      pos += raw.length;
+      continue;
+    }
+
+    if (text.startsWith('<!--', pos)) {
+      const start = pos + 4;
+      expect('-->');
+      if (current) addNode({ type: 'comment', value: text.slice(start, pos - 3), parent: null });
+    } else if (text.startsWith('<![CDATA[', pos)) {
+      const start = pos + 9;
+      expect(']]>');
+      addNode({ type: 'cdata', value: text.slice(start, pos - 3), parent: null });
+    } else if (text.startsWith('<?', pos)) {
+      expect('?>');
+    } else if (text.startsWith('<!DOCTYPE', pos)) {
+      // Entities declared in the internal subset (Illustrator uses them for namespaces)
+      const subsetStart = text.indexOf('[', pos);
+      const tagEnd = text.indexOf('>', pos);
+      if (subsetStart !== -1 && subsetStart < tagEnd) {
+        pos = subsetStart;
+        expect(']');
+        const subset = text.slice(subsetStart + 1, pos - 1);
+        for (const match of subset.matchAll(/<!ENTITY\s+([\w.:-]+)\s+(["'])([\s\S]*?)\2\s*>/g)) {
+          entities[match[1]] = match[3];
+        }
+      }
+      expect('>');
+    } else if (text.startsWith('</', pos)) {
+      const match = /^<\/([^\s>]+)\s*>/.exec(text.slice(pos, pos + 256));
+      if (!match || !current || match[1] !== current.name) {
+        fail(`Unexpected closing tag ${match ? match[1] : ''}`.trim());
+      }
+      current = current!.parent;
+      pos += match![0].length;
+    } else {
+      const nameMatch = /^<([^\s/>]+)/.exec(text.slice(pos, pos + 256));
+      if (!nameMatch) fail('Malformed tag');
+      const element = createElement(nameMatch![1]);
+      pos += nameMatch![0].length;
+
+      const attributePattern = /\s*([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')|\s*(\/?>)/y;
+      for (;;) {
+        attributePattern.lastIndex = pos;
+        const match = attributePattern.exec(text);
+        if (!match) fail(`Malformed attributes on <${element.name}>`);
+        pos = attributePattern.lastIndex;
+        if (match![4]) {
+          addNode(element);
+          if (match![4] === '>') current = element;
+          break;
+        }
+        element.attributes.set(match![1], decode(match![2] ?? match![3]));
+      }
+    }
+  }
+
+  if (current) fail(`Unclosed element <${(current as XmlElement).name}>`);
+  if (!root) fail('Document has no root element');
+  return root!;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;').replace(/\n/g, '&#10;').replace(/\t/g, '&#9;');
+}
+
+export function serializeXml(node: XmlNode): string {
+  switch (node.type) {
+    case 'text':
+      return escapeText(node.value);
+    case 'cdata':
+      return `<![CDATA[${node.value}]]>`;
+    case 'comment':
+      return `<!--${node.value}-->`;
+  }
+
+  let attributes = '';
+  node.attributes.forEach((value, key) => {
+    attributes += ` ${key}="${escapeAttribute(value)}"`;
+  });
+  if (node.children.length === 0) {
+    return `<${node.name}${attributes}/>`;
+  }
+  return `<${node.name}${attributes}>${node.children.map(serializeXml).join('')}</${node.name}>`;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { encodeGif } from './gif';
+
+interface DecodedGif {
+  width: number;
+  height: number;
+  palette: number[][];
+  loops: boolean;
+  delays: number[];
+  frames: Uint8Array[]; // Palette indices
+}
+
+// Just enough of a GIF decoder to read back what encodeGif writes
+function decodeGif(bytes: Uint8Array): DecodedGif {
+  let offset = 6;
+  const word = (): number => bytes[offset++] | (bytes[offset++] << 8);
+  const width = word();
+  const height = word();
+  const tableSize = 2 << (bytes[offset] & 7);
+  offset += 3;
+  const palette: number[][] = [];
+  for (let i = 0; i < tableSize; i++, offset += 3) {
+    palette.push([bytes[offset], bytes[offset + 1], bytes[offset + 2]]);
+  }
+
+  const result: DecodedGif = { width, height, palette, loops: false, delays: [], frames: [] };
+  const readBlocks = (): number[] => {
+    const data: number[] = [];
+    for (let size = bytes[offset++]; size > 0; size = bytes[offset++]) {
+      data.push(...bytes.subarray(offset, offset + size));
+      offset += size;
+    }
+    return data;
+  };
+
+  while (bytes[offset] !== 0x3B) {
+    const block = bytes[offset++];
+    if (block === 0x21) {
+      const label = bytes[offset++];
+      const data = readBlocks();
+      if (label === 0xFF) result.loops = true;
+      if (label === 0xF9) result.delays.push(data[1] | (data[2] << 8));
+    } else {
+      offset += 9; // Image descriptor
+      const minCodeSize = bytes[offset++];
+      result.frames.push(decompress(readBlocks(), minCodeSize, width * height));
+    }
+  }
+  return result;
+}
+
+function decompress(data: number[], minCodeSize: number, length: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const output = new Uint8Array(length);
+  let written = 0;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitOffset = 0;
+
+  const reset = (): void => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  for (;;) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, bitOffset++) {
+      code |= ((data[bitOffset >> 3] >> (bitOffset & 7)) & 1) << bit;
+    }
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === clearCode + 1) break;
+
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    if (previous) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    output.set(entry, written);
+    written += entry.length;
+    previous = entry;
+  }
+  expect(written).toBe(length);
+  return output;
+}
+
+// Frames of horizontal bands of a few colours, shifting by a row each frame
+function bandFrames(width: number, height: number, colors: number[][], count: number): Uint8ClampedArray[] {
+  return Array.from({ length: count }, (_, frame) => {
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      const color = colors[(Math.floor(i / width) + frame + i % 7) % colors.length];
+      pixels.set([...color, 255], i * 4);
+    }
+    return pixels;
+  });
+}
+
+describe('encodeGif', () => {
+  it('reproduces frames with few colours exactly', async () => {
+    const colors = [[255, 0, 0], [0, 128, 255], [30, 30, 30], [250, 240, 200]];
+    const frames = bandFrames(37, 23, colors, 3);
+    const gif = decodeGif(new Uint8Array(await encodeGif(frames, { width: 37, height: 23, delay: 250, loop: true }).arrayBuffer()));
+
+    expect(gif.width).toBe(37);
+    expect(gif.height).toBe(23);
+    expect(gif.loops).toBe(true);
+    expect(gif.delays).toEqual([25, 25, 25]);
+    gif.frames.forEach((indices, frame) => {
+      const pixels = Array.from(indices, index => [...gif.palette[index], 255]).flat();
+      expect(pixels).toEqual(Array.from(frames[frame]));
+    });
+  });
+
+  it('keeps long runs decodable across a full code table', async () => {
+    // Noise fills the 4096-entry table, so the encoder has to start it over
+    let value = 1;
+    const colors = Array.from({ length: 64 }, () => {
+      value = (value * 48271) % 2147483647;
+      return [value & 255, (value >> 8) & 255, (value >> 16) & 255];
+    });
+    const frames = bandFrames(200, 150, colors, 1);
+    const gif = decodeGif(new Uint8Array(await encodeGif(frames, { width: 200, height: 150, delay: 100, loop: false }).arrayBuffer()));
+
+    expect(gif.loops).toBe(false);
+    const pixels = Array.from(gif.frames[0], index => [...gif.palette[index], 255]).flat();
+    expect(pixels).toEqual(Array.from(frames[0]));
+  });
+
+  it('maps many colours to the nearest of at most 256', async () => {
+    const width = 64;
+    const frame = new Uint8ClampedArray(width * width * 4);
+    for (let i = 0; i < width * width; i++) {
+      frame.set([(i % width) * 4, Math.floor(i / width) * 4, 128, 255], i * 4);
+    }
+    const gif = decodeGif(new Uint8Array(await encodeGif([frame], { width, height: width, delay: 100, loop: true }).arrayBuffer()));
+
+    expect(gif.palette).toHaveLength(256);
+    let worst = 0;
+    gif.frames[0].forEach((index, i) => {
+      const color = gif.palette[index];
+      worst = Math.max(worst, ...[0, 1, 2].map(c => Math.abs(color[c] - frame[i * 4 + c])));
+    });
+    expect(worst).toBeLessThanOrEqual(16);
+  });
+});
@@ -0,0 +1,205 @@
+// Minimal animated GIF writer: one 256-colour palette shared by every frame,
+// chosen by median cut over a sample of the pixels, and LZW-compressed frames
+
+export interface GifOptions {
+  width: number;
+  height: number;
+  delay: number; // Milliseconds per frame; GIF rounds to hundredths of a second
+  loop: boolean; // Repeat forever; otherwise play once
+}
+
+// Pixels looked at when choosing the palette
+const PALETTE_SAMPLES = 200000;
+const PALETTE_SIZE = 256;
+const MAX_CODES = 4096;
+
+type Color = [number, number, number];
+
+// A set of sampled colours and the channel they vary most in
+interface ColorBox {
+  colors: Color[];
+  channel: number;
+  range: number;
+}
+
+function createBox(colors: Color[]): ColorBox {
+  const box: ColorBox = { colors, channel: 0, range: 0 };
+  for (let c = 0; c < 3; c++) {
+    let min = 255;
+    let max = 0;
+    for (const color of colors) {
+      min = Math.min(min, color[c]);
+      max = Math.max(max, color[c]);
+    }
+    if (max - min > box.range) {
+      box.channel = c;
+      box.range = max - min;
+    }
+  }
+  return box;
+}
+
+// Split the sampled colours into boxes along their widest channel until there
+// are as many boxes as palette entries, then average each box
+function medianCut(samples: Color[]): Color[] {
+  const boxes: ColorBox[] = [createBox(samples)];
+  while (boxes.length < PALETTE_SIZE) {
+    const widest = boxes.reduce((best, box, index) => box.range > boxes[best].range ? index : best, 0);
+    const { colors, channel, range } = boxes[widest];
+    if (range === 0) break; // Every box holds a single colour
+
+    // Split near the median, between two different values so no colour ends up in both halves
+    colors.sort((a, b) => a[channel] - b[channel]);
+    const middle = colors.length >> 1;
+    const value = colors[middle][channel];
+    let below = middle;
+    while (below > 0 && colors[below - 1][channel] === value) below--;
+    let above = middle;
+    while (above < colors.length && colors[above][channel] === value) above++;
+    const split = below > 0 && (middle - below <= above - middle || above === colors.length) ? below : above;
+    boxes.splice(widest, 1, createBox(colors.slice(0, split)), createBox(colors.slice(split)));
+  }
+
+  return boxes.map(({ colors }) => {
+    const sum = colors.reduce((total, color) => [total[0] + color[0], total[1] + color[1], total[2] + color[2]], [0, 0, 0]);
+    return sum.map(value => Math.round(value / colors.length)) as Color;
+  });
+}
+
+function choosePalette(frames: Uint8ClampedArray[]): Color[] {
+  const pixels = frames.reduce((total, frame) => total + frame.length / 4, 0);
+  const step = Math.max(1, Math.floor(pixels / PALETTE_SAMPLES));
+  const samples: Color[] = [];
+  let skip = 0;
+  for (const frame of frames) {
+    for (let i = 0; i < frame.length; i += 4) {
+      if (skip++ % step === 0) samples.push([frame[i], frame[i + 1], frame[i + 2]]);
+    }
+  }
+  return medianCut(samples);
+}
+
+// Palette index of each pixel, remembering the nearest entry for colours already seen
+function mapToPalette(frame: Uint8ClampedArray, palette: Color[], cache: Map<number, number>): Uint8Array {
+  const indices = new Uint8Array(frame.length / 4);
+  for (let i = 0; i < indices.length; i++) {
+    const r = frame[i * 4];
+    const g = frame[i * 4 + 1];
+    const b = frame[i * 4 + 2];
+    const key = (r << 16) | (g << 8) | b;
+    let index = cache.get(key);
+    if (index === undefined) {
+      let best = Infinity;
+      index = 0;
+      palette.forEach((color, entry) => {
+        const distance = (color[0] - r) ** 2 + (color[1] - g) ** 2 + (color[2] - b) ** 2;
+        if (distance < best) {
+          best = distance;
+          index = entry;
+        }
+      });
+      cache.set(key, index);
+    }
+    indices[i] = index;
+  }
+  return indices;
+}
+
+// LZW-compress palette indices as GIF image data, split into sub-blocks
+function compressIndices(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let codes = new Map<number, number>(); // prefix code * 256 + index -> code
+  let bits = 0;
+  let bitCount = 0;
+
+  const emit = (code: number): void => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bits & 0xFF);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = prefix * 256 + indices[i];
+    const code = codes.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      // Table full: start over
+      emit(clearCode);
+      codes = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      codes.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(bits & 0xFF);
+
+  // Sub-blocks of at most 255 bytes, each preceded by its length, then a terminator
+  const blocks = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let offset = 0;
+  for (let start = 0; start < bytes.length; start += 255) {
+    const block = bytes.slice(start, start + 255);
+    blocks[offset++] = block.length;
+    blocks.set(block, offset);
+    offset += block.length;
+  }
+  blocks[offset] = 0;
+  return blocks;
+}
+
+function word(value: number): number[] {
+  return [value & 0xFF, (value >> 8) & 0xFF];
+}
+
+// Encode RGBA frames (alpha is ignored) as an animated GIF
+export function encodeGif(frames: Uint8ClampedArray[], options: GifOptions): Blob {
+  const { width, height } = options;
+  const palette = choosePalette(frames);
+  const colorTable = new Uint8Array(PALETTE_SIZE * 3);
+  palette.forEach((color, index) => colorTable.set(color, index * 3));
+
+  const parts: Uint8Array[] = [
+    new TextEncoder().encode('GIF89a'),
+    // Logical screen: a global colour table of 256 entries, 8 bits per channel
+    new Uint8Array([...word(width), ...word(height), 0xF7, 0, 0]),
+    colorTable
+  ];
+  if (options.loop) {
+    // NETSCAPE2.0 application extension: repeat forever
+    parts.push(new Uint8Array([0x21, 0xFF, 0x0B, ...new TextEncoder().encode('NETSCAPE2.0'), 0x03, 0x01, 0, 0, 0]));
+  }
+
+  const delay = Math.max(2, Math.round(options.delay / 10)); // Browsers slow down shorter delays
+  const cache = new Map<number, number>();
+  for (const frame of frames) {
+    parts.push(
+      // Graphic control: each frame replaces the last
+      new Uint8Array([0x21, 0xF9, 0x04, 0x04, ...word(delay), 0, 0]),
+      // Image descriptor covering the whole screen, using the global colour table
+      new Uint8Array([0x2C, 0, 0, 0, 0, ...word(width), ...word(height), 0]),
+      new Uint8Array([8]),
+      compressIndices(mapToPalette(frame, palette, cache), 8)
+    );
+  }
+  parts.push(new Uint8Array([0x3B]));
+
+  return new Blob(parts as BlobPart[], { type: 'image/gif' });
+}
@@ -0,0 +1,49 @@
+// Bounded undo/redo history. Each entry is a snapshot of whatever the caller
+// tracks, taken before a change; restoring one is up to the caller.
+
+export interface History<T> {
+  past: T[]; // Oldest first
+  future: T[]; // Next redo last
+  limit: number;
+  lastGroup: string | null;
+  lastChange: number;
+}
+
+// Changes to the same control closer together than this become a single step,
+// so stepping a number field with its arrows is undone in one go
+const MERGE_WINDOW_MS = 1000;
+
+export function createHistory<T>(limit: number): History<T> {
+  return { past: [], future: [], limit, lastGroup: null, lastChange: 0 };
+}
+
+// Record the snapshot from before a change. Any redo steps are discarded.
+export function recordChange<T>(history: History<T>, before: T, group: string | null = null, now = Date.now()): void {
+  const merge = group !== null && group === history.lastGroup && now - history.lastChange < MERGE_WINDOW_MS;
+  history.future = [];
+  history.lastGroup = group;
+  history.lastChange = now;
+  if (merge) return;
+
+  history.past.push(before);
+  if (history.past.length > history.limit) {
+    history.past.shift();
+  }
+}
+
+// Step back, returning the snapshot to restore, or null when there is nothing to undo
+export function undo<T>(history: History<T>, current: T): T | null {
+  const previous = history.past.pop();
+  if (previous === undefined) return null;
+  history.future.push(current);
+  history.lastGroup = null;
+  return previous;
+}
+
+export function redo<T>(history: History<T>, current: T): T | null {
+  const next = history.future.pop();
+  if (next === undefined) return null;
+  history.past.push(current);
+  history.lastGroup = null;
+  return next;
+}
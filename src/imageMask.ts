@@ -0,0 +1,85 @@
+// Browser-side image sampling: turn an uploaded image into the small greyscale
+// grid the image mask and the mosaic reference use, and measure seed tones
+
+import type { ImageMask } from './core/emptyCells';
+import type { SeedTone } from './core/mosaic';
+import { getSeedSvg } from './core/render';
+import type { Seed } from './core/seeds';
+
+// Longest side of the stored mask; enough for a couple of samples per cell on the largest grid
+const MASK_SIZE = 100;
+// Pixels per grid cell when rasterizing a seed to measure its tone
+const TONE_CELL_SIZE = 32;
+
+// Same weights as getColorLuminance in the core
+function getLuminance(data: Uint8ClampedArray, i: number): number {
+  return 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+}
+
+async function loadImage(file: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function createImageMask(file: Blob): Promise<ImageMask> {
+  const img = await loadImage(file);
+  // SVGs without a size of their own are drawn square
+  const naturalWidth = img.naturalWidth || MASK_SIZE;
+  const naturalHeight = img.naturalHeight || MASK_SIZE;
+  const scale = Math.min(1, MASK_SIZE / Math.max(naturalWidth, naturalHeight));
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  // Transparent areas count as white, so they stay filled
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const values: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    values.push(Math.round(getLuminance(data, i)));
+  }
+  return { width, height, values };
+}
+
+// Rasterize a seed on a transparent canvas and average what it paints
+export async function measureSeedTone(seed: Seed): Promise<SeedTone> {
+  const img = await loadImage(new Blob([getSeedSvg(seed)], { type: 'image/svg+xml' }));
+  const width = seed.footprint.width * TONE_CELL_SIZE;
+  const height = seed.footprint.height * TONE_CELL_SIZE;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(img, 0, 0, width, height);
+
+  // Canvas pixels are not premultiplied, so weight each pixel's brightness by its alpha
+  const { data } = ctx.getImageData(0, 0, width, height);
+  let painted = 0;
+  let brightness = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    painted += alpha;
+    brightness += alpha * getLuminance(data, i) / 255;
+  }
+  return {
+    luminance: painted > 0 ? brightness / painted : 0,
+    coverage: painted / (width * height)
+  };
+}
@@ -0,0 +1,173 @@
+// @vitest-environment jsdom
+// The app against a DOM stand-in: uploads go through the file input as in the browser
+
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { StoredSeed } from './seedStore';
+import { readFixture } from './test/fixtures';
+
+const html = readFileSync(join(dirname(fileURLToPath(import.meta.url)), '..', 'index.html'), 'utf8');
+
+// An in-memory seed store in place of IndexedDB, kept across reloads of the app
+const storage = vi.hoisted(() => ({ seeds: new Map<number, StoredSeed>(), nextKey: 1, initialized: false }));
+vi.mock('./seedStore', () => ({
+  loadStoredSeeds: async () => [...storage.seeds.values()].sort((a, b) => a.order - b.order).map(seed => ({ ...seed })),
+  saveStoredSeed: async (seed: StoredSeed) => {
+    const key = seed.key ?? storage.nextKey++;
+    storage.seeds.set(key, { ...seed, key });
+    return key;
+  },
+  updateStoredSeed: async (key: number, changes: Partial<StoredSeed>) => {
+    const seed = storage.seeds.get(key);
+    if (seed) storage.seeds.set(key, { ...seed, ...changes });
+  },
+  deleteStoredSeed: async (key: number) => {
+    storage.seeds.delete(key);
+  },
+  clearStoredSeeds: async () => storage.seeds.clear(),
+  isSeedLibraryInitialized: async () => storage.initialized,
+  markSeedLibraryInitialized: async () => {
+    storage.initialized = true;
+  }
+}));
+
+// Let pending uploads and their storage calls finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+// jsdom's files can't be read as text, so each one brings its own reader
+function svgFile(name: string, text = readFixture(name), type = 'image/svg+xml'): File {
+  return Object.assign(new File([text], name, { type }), { text: async () => text });
+}
+
+// Pick files with the upload button and wait for them to be added
+async function upload(...files: File[]): Promise<void> {
+  const input = document.getElementById('uploadInput') as HTMLInputElement;
+  Object.defineProperty(input, 'files', { value: files, configurable: true });
+  input.dispatchEvent(new Event('change'));
+  await settle();
+}
+
+// Start the app afresh on the page, as a reload does
+async function load(): Promise<void> {
+  vi.resetModules();
+  document.body.innerHTML = html.replace(/^[\s\S]*<body>|<script[\s\S]*$/g, '');
+  await import('./main');
+  await settle();
+}
+
+const seedCount = () => document.querySelectorAll('.seed-item').length;
+const seedNames = () => Array.from(document.querySelectorAll<HTMLInputElement>('.seed-name'), input => input.value);
+const reportText = () => (document.getElementById('importReport') as HTMLElement).textContent ?? '';
+
+// Offline, the app starts with the built-in shapes
+let builtInCount = 0;
+
+beforeAll(async () => {
+  // No network or dialogs
+  vi.stubGlobal('fetch', () => Promise.reject(new Error('Offline')));
+  vi.stubGlobal('alert', vi.fn());
+  vi.stubGlobal('confirm', () => true);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  Element.prototype.scrollIntoView = () => {};
+  await load();
+  builtInCount = seedCount();
+});
+
+describe('initialize', () => {
+  it('saves the built-in shapes so a reload restores them', async () => {
+    expect(builtInCount).toBeGreaterThan(0);
+    const names = seedNames();
+    const preview = document.getElementById('preview')!.innerHTML;
+    expect(storage.seeds.size).toBe(builtInCount);
+
+    await load();
+    expect(seedNames()).toEqual(names);
+    expect(document.getElementById('preview')!.innerHTML).toBe(preview);
+  });
+});
+
+describe('handleFileUpload', () => {
+  it('adds valid SVGs and draws them', async () => {
+    await upload(svgFile('square.svg'), svgFile('large.svg'));
+    expect(seedCount()).toBe(builtInCount + 2);
+    expect(document.getElementById('importReport')!.hidden).toBe(true);
+    expect(document.querySelectorAll('#preview g[data-cell]').length).toBeGreaterThan(0);
+  });
+
+  it('fits off-size SVGs and reports it', async () => {
+    await upload(svgFile('off-size.svg'));
+    expect(seedCount()).toBe(builtInCount + 3);
+    expect(reportText()).toContain('300×200px is off-size');
+  });
+
+  it('turns away files that are not SVGs', async () => {
+    await upload(svgFile('notes.txt', 'Not a picture', 'text/plain'));
+    expect(seedCount()).toBe(builtInCount + 3);
+    expect(reportText()).toContain('Not an SVG file');
+  });
+
+  it('turns away malformed and non-SVG documents', async () => {
+    await upload(svgFile('malformed.svg'), svgFile('not-svg.svg'));
+    expect(seedCount()).toBe(builtInCount + 3);
+    expect(reportText()).toContain('Added 0 of 2 file(s)');
+    expect(reportText()).toContain('Invalid SVG format');
+    expect(reportText()).toContain('Not an SVG document');
+  });
+
+  it('turns away documents without an absolute size', async () => {
+    await upload(svgFile('relative-size.svg'));
+    expect(seedCount()).toBe(builtInCount + 3);
+    expect(reportText()).toContain('Has no usable viewBox or absolute width and height');
+  });
+
+  it('adds a file only once', async () => {
+    await upload(svgFile('square-copy.svg', readFixture('square.svg')), svgFile('circle.svg'));
+    expect(seedCount()).toBe(builtInCount + 4);
+    expect(reportText()).toContain('Added 1 of 2 file(s)');
+    expect(reportText()).toContain('Already in the library as square.svg');
+  });
+});
+
+describe('history', () => {
+  it('makes one undo step of edits once the control commits them', async () => {
+    const cols = document.getElementById('cols') as HTMLInputElement;
+    const before = cols.value;
+    // Typed slowly enough that steps on each input would not be merged
+    let now = Date.now();
+    const clock = vi.spyOn(Date, 'now').mockImplementation(() => now += 2000);
+    ['9', '12'].forEach(value => {
+      cols.value = value;
+      cols.dispatchEvent(new Event('input', { bubbles: true }));
+    });
+    cols.dispatchEvent(new Event('change', { bubbles: true }));
+    clock.mockRestore();
+    const gridWidth = () => document.getElementById('border-rect')!.getAttribute('width');
+    expect(gridWidth()).toBe(String(12 * 200));
+
+    (document.getElementById('undoBtn') as HTMLButtonElement).click();
+    expect(cols.value).toBe(before);
+    expect(gridWidth()).toBe(String(Number(before) * 200));
+  });
+});
+
+describe('loadState', () => {
+  it('moves the images out of the saved settings and restores them', async () => {
+    const saved = JSON.parse(localStorage.getItem('svgPatternState')!);
+    saved.emptyCells.image.mask = { width: 2, height: 2, values: [0, 255, 255, 0] };
+    localStorage.setItem('svgPatternState', JSON.stringify(saved));
+    localStorage.removeItem('svgPatternImages');
+    const maskInfo = () => document.getElementById('maskInfo')!.textContent;
+
+    // Settings saved with the image inline still load it, and the next save moves it to its own key
+    await load();
+    expect(maskInfo()).toBe('2×2 mask');
+    document.getElementById('cols')!.dispatchEvent(new Event('input', { bubbles: true }));
+    expect(JSON.parse(localStorage.getItem('svgPatternState')!).emptyCells.image.mask).toBeNull();
+    expect(JSON.parse(localStorage.getItem('svgPatternImages')!).mask).toEqual(saved.emptyCells.image.mask);
+
+    await load();
+    expect(maskInfo()).toBe('2×2 mask');
+  });
+});
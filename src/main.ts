@@ -1,497 +1,1462 @@
-// Deterministic RNG functions
-function mulberry32(a: number) {
-  return function() {
-    let t = a += 0x6D2B79F5;
-    t = Math.imul(t ^ t >>> 15, t | 1);
-    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
-    return ((t ^ t >>> 14) >>> 0) / 4294967296;
-  };
+import { encodeApng } from './apng';
+import { type BundleSeed, createBundle, hasStableSeedIds, parseBundle } from './bundle';
+import {
+  type AnimationFormat,
+  type AnimationMode,
+  type AnimationOrder,
+  type AnimationSettings,
+  type PatternAnimation,
+  addAnimationMarkup,
+  animationLimits,
+  defaultAnimation,
+  getCrossfadeSeed,
+  poseAnimationFrame,
+  prepareAnimation,
+  restoreAnimation
+} from './core/animation';
+import { type ConstraintRule, RULE_LABELS } from './core/constraints';
+import { type EmptyCellMode, type ImageMask, emptyCellLimits, isImageMask } from './core/emptyCells';
+import { type SvgExportOptions, defaultExportOptions, optimizeSvgExport } from './core/exportSvg';
+import {
+  type CellOverride,
+  type Layout,
+  type Placement,
+  MAX_LAYOUT_ATTEMPTS,
+  getOverrideCells,
+  layoutPattern
+} from './core/layout';
+import type { SavedPalette } from './core/palette';
+import { renderPdf } from './core/pdf';
+import {
+  type PrintDocument,
+  type PrintSettings,
+  type PrintUnit,
+  MM_PER_UNIT,
+  buildPrintSvg,
+  defaultPrint,
+  getPrintGeometry,
+  isOutsideCmykGamut,
+  printLimits,
+  restorePrint
+} from './core/print';
+import { sanitizeSvg } from './core/sanitize';
+import { SVG_NS, buildPatternSvg, exportPatternSvg, exportRepeatingPatternSvg, getSeedSvg } from './core/render';
+import {
+  type Footprint,
+  type Seed,
+  type SeedFit,
+  SEED_FITS,
+  createSeed,
+  parseSeedSvg,
+  planSeedImport,
+  rotateFootprint,
+  singleCell
+} from './core/seeds';
+import {
+  type PatternSettings,
+  defaultSettings,
+  gridLimits,
+  parseGridValue,
+  renameSeedIds,
+  restoreSettings,
+  ruleLimits
+} from './core/settings';
+import { transformLimits } from './core/transforms';
+import { type XmlElement, appendChild, createElement, serializeXml, setTextContent } from './core/xml';
+import { encodeGif } from './gif';
+import { createHistory, recordChange, redo, undo } from './history';
+import { createImageMask, measureSeedTone } from './imageMask';
+import { type Preset, type PresetLibrary, createPresetFile, isPreset, parsePresetFile } from './presets';
+import { type RasterFormat, renderFramePixels, renderRaster } from './raster';
+import {
+  clearStoredSeeds,
+  deleteStoredSeed,
+  isSeedLibraryInitialized,
+  loadStoredSeeds,
+  markSeedLibraryInitialized,
+  saveStoredSeed,
+  updateStoredSeed
+} from './seedStore';
+import { toDom } from './svgDom';
+import { createZip } from './zip';
+
+// Application state: the pattern settings plus editor preferences
+interface AppState extends PatternSettings {
+  svgExport: SvgExportOptions;
+  savedPalettes: SavedPalette[];
+  seedFit: SeedFit; // How uploads that aren't a whole footprint are placed
+  animation: AnimationSettings;
+  print: PrintSettings;
 }
 
-function hashSeed(str: string): number {
-  let h = 1779033703;
-  for (let i = 0; i < str.length; i++) {
-    h = Math.imul(h ^ str.charCodeAt(i), 3432918353);
-    h = h << 13 | h >>> 19;
-  }
-  return h >>> 0;
+const defaultState: AppState = {
+  ...defaultSettings,
+  svgExport: defaultExportOptions,
+  savedPalettes: [],
+  seedFit: 'fit',
+  animation: defaultAnimation,
+  print: defaultPrint
+};
+
+const percentLimits = { min: 0, max: 100 };
+const PRESETS_KEY = 'svgPatternPresets'; // localStorage key of the preset library
+const SEED_DRAG_TYPE = 'application/x-seed-id'; // Drag data of a seed being reordered in the seed list
+const batchLimits = { min: 1, max: 100 };
+const frameLimits = { width: { min: 16, max: 2048 }, rate: { min: 1, max: 30 } };
+const MAX_FRAMES = 300; // Frames rendered for one GIF or APNG
+
+interface LibrarySeed extends Seed {
+  storeKey?: number; // IndexedDB key, for seeds that are persisted
+  enabled: boolean; // Disabled seeds stay in the library but are left out of generation
+  tags: string[];
 }
 
-// Application state
-interface AppState {
-  cols: number;
-  rows: number;
-  tileSize: number;
+// Restored from the defaults so the state never shares arrays with them
+let state: AppState = restoreState({});
+// Every seed, by its content-hashed id, in the order shown in the seed list.
+// Footprints in grid cells: 1x1 (single-cell), 2x1, 2x2, 3x3, ... (multi-cell)
+const seedLibrary = new Map<string, LibrarySeed>();
+let nextSeedOrder = 0; // Insertion order for persisted seeds
+let presetLibrary: PresetLibrary = { active: null, presets: [] };
+
+// A batch variant, kept exactly as it was generated so downloads match the thumbnail
+interface Variant {
   seed: string;
-  randomRotation: boolean;
-  allowFlips: boolean;
-  blackClustering: boolean;
+  svg: string;
+  url: string; // Object URL of the SVG, shown as the thumbnail
+  starred: boolean;
 }
 
-const defaultState: AppState = {
-  cols: 8,
-  rows: 5,
-  tileSize: 200, // Doubled from 100 to make output 1600px × 1000px
-  seed: 'pattern-2024',
-  randomRotation: true,
-  allowFlips: false,
-  blackClustering: true
-};
+let variants: Variant[] = [];
+let variantBase = ''; // Seed string the batch was derived from
+
+// Everything undo and redo restore: the settings and the seed library
+interface Snapshot {
+  state: AppState;
+  seeds: LibrarySeed[];
+  key: string; // Serialized form, to tell whether anything changed
+}
+
+const HISTORY_LIMIT = 100;
+const history = createHistory<Snapshot>(HISTORY_LIMIT);
+let committed: Snapshot | null = null; // The latest recorded snapshot; null until startup finishes
+const imageIds = new WeakMap<ImageMask, number>(); // Identity of each image, for snapshot keys
+let nextImageId = 1;
+
+// The reference images, saved apart from the rest of the state since they are large
+interface StateImages {
+  mask: ImageMask | null; // Empty-cell image mask
+  mosaic: ImageMask | null; // Mosaic reference image
+}
+
+const IMAGES_KEY = 'svgPatternImages'; // localStorage key of the state's images
+let storedImages: StateImages | null = null; // The images as last saved
 
-let state: AppState = { ...defaultState };
-let seedCount = 0;
-// Track SVG sizes: 1 = 1x1 (200x200), 2 = 2x2 (400x400)
-const seedSizes = new Map<string, number>(); // seedId -> size
-const seedMetadata = new Map<string, { filename: string; size: number }>(); // seedId -> metadata
-const smallSeeds: string[] = [];
-const largeSeeds: string[] = [];
+let currentLayout: Layout | null = null; // Layout shown in the preview
+let measuringTones = false; // Seed tones for mosaic mode are being rasterized
+let selectedCell: { row: number; col: number } | null = null; // Top-left cell of the tile being edited
+const seedThumbnails = new WeakMap<XmlElement, string>(); // Seed symbol -> thumbnail data URL
 
 // DOM elements
 const preview = document.getElementById('preview') as unknown as SVGElement;
-const seedDefs = document.getElementById('seed-defs') as unknown as SVGDefsElement;
 const seedInput = document.getElementById('seed') as HTMLInputElement;
-const randomRotationCheck = document.getElementById('randomRotation') as HTMLInputElement;
-const allowFlipsCheck = document.getElementById('allowFlips') as HTMLInputElement;
-const blackClusteringCheck = document.getElementById('blackClustering') as HTMLInputElement;
+const colsInput = document.getElementById('cols') as HTMLInputElement;
+const rowsInput = document.getElementById('rows') as HTMLInputElement;
+const tileSizeInput = document.getElementById('tileSize') as HTMLInputElement;
+const rotationChanceInput = document.getElementById('rotationChance') as HTMLInputElement;
+const rotationStepInput = document.getElementById('rotationStep') as HTMLInputElement;
+const flipXChanceInput = document.getElementById('flipXChance') as HTMLInputElement;
+const flipYChanceInput = document.getElementById('flipYChance') as HTMLInputElement;
+const scaleChanceInput = document.getElementById('scaleChance') as HTMLInputElement;
+const scaleMinInput = document.getElementById('scaleMin') as HTMLInputElement;
+const scaleMaxInput = document.getElementById('scaleMax') as HTMLInputElement;
+const offsetChanceInput = document.getElementById('offsetChance') as HTMLInputElement;
+const offsetAmountInput = document.getElementById('offsetAmount') as HTMLInputElement;
+const clipTilesCheck = document.getElementById('clipTiles') as HTMLInputElement;
+const largeSeedChanceInput = document.getElementById('largeSeedChance') as HTMLInputElement;
+const seamlessCheck = document.getElementById('seamless') as HTMLInputElement;
+const emptyModeSelect = document.getElementById('emptyMode') as HTMLSelectElement;
+const emptyParamPanels = document.querySelectorAll<HTMLElement>('.empty-params');
+const clusterDensityInput = document.getElementById('clusterDensity') as HTMLInputElement;
+const clusterRadiusInput = document.getElementById('clusterRadius') as HTMLInputElement;
+const clusterFalloffInput = document.getElementById('clusterFalloff') as HTMLInputElement;
+const clusterAvoidEdgesCheck = document.getElementById('clusterAvoidEdges') as HTMLInputElement;
+const noiseScaleInput = document.getElementById('noiseScale') as HTMLInputElement;
+const noiseAmountInput = document.getElementById('noiseAmount') as HTMLInputElement;
+const caveFillInput = document.getElementById('caveFill') as HTMLInputElement;
+const caveStepsInput = document.getElementById('caveSteps') as HTMLInputElement;
+const gradientDirectionSelect = document.getElementById('gradientDirection') as HTMLSelectElement;
+const gradientAmountInput = document.getElementById('gradientAmount') as HTMLInputElement;
+const gradientReverseCheck = document.getElementById('gradientReverse') as HTMLInputElement;
+const maskInput = document.getElementById('maskInput') as HTMLInputElement;
+const maskInfo = document.getElementById('maskInfo') as HTMLElement;
+const maskThresholdInput = document.getElementById('maskThreshold') as HTMLInputElement;
+const maskInvertCheck = document.getElementById('maskInvert') as HTMLInputElement;
+const mosaicEnabledCheck = document.getElementById('mosaicEnabled') as HTMLInputElement;
+const mosaicInput = document.getElementById('mosaicInput') as HTMLInputElement;
+const mosaicInfo = document.getElementById('mosaicInfo') as HTMLElement;
+const mosaicToleranceInput = document.getElementById('mosaicTolerance') as HTMLInputElement;
+const noAdjacentDuplicatesCheck = document.getElementById('noAdjacentDuplicates') as HTMLInputElement;
+const maxCopiesInput = document.getElementById('maxCopies') as HTMLInputElement;
+const maxColorRunInput = document.getElementById('maxColorRun') as HTMLInputElement;
+const pairFirstSelect = document.getElementById('pairFirst') as HTMLSelectElement;
+const pairSecondSelect = document.getElementById('pairSecond') as HTMLSelectElement;
+const addPairBtn = document.getElementById('addPairBtn') as HTMLButtonElement;
+const pairList = document.getElementById('pairList') as HTMLElement;
+const constraintReport = document.getElementById('constraintReport') as HTMLElement;
 const randomizeBtn = document.getElementById('randomizeBtn') as HTMLButtonElement;
+const undoBtn = document.getElementById('undoBtn') as HTMLButtonElement;
+const redoBtn = document.getElementById('redoBtn') as HTMLButtonElement;
 const downloadBtn = document.getElementById('downloadBtn') as HTMLButtonElement;
+const downloadPatternBtn = document.getElementById('downloadPatternBtn') as HTMLButtonElement;
+const rasterFormatSelect = document.getElementById('rasterFormat') as HTMLSelectElement;
+const rasterSizeModeSelect = document.getElementById('rasterSizeMode') as HTMLSelectElement;
+const rasterSizeInput = document.getElementById('rasterSize') as HTMLInputElement;
+const rasterDpiInput = document.getElementById('rasterDpi') as HTMLInputElement;
+const rasterBackgroundSelect = document.getElementById('rasterBackground') as HTMLSelectElement;
+const rasterBackgroundColorInput = document.getElementById('rasterBackgroundColor') as HTMLInputElement;
+const downloadRasterBtn = document.getElementById('downloadRasterBtn') as HTMLButtonElement;
+const animationModeSelect = document.getElementById('animationMode') as HTMLSelectElement;
+const crossfadeSeedLabel = document.getElementById('crossfadeSeedLabel') as HTMLElement;
+const crossfadeSeedInput = document.getElementById('crossfadeSeed') as HTMLInputElement;
+const animationOrderSelect = document.getElementById('animationOrder') as HTMLSelectElement;
+const animationDurationInput = document.getElementById('animationDuration') as HTMLInputElement;
+const animationStaggerInput = document.getElementById('animationStagger') as HTMLInputElement;
+const animationLoopCheck = document.getElementById('animationLoop') as HTMLInputElement;
+const animationFormatSelect = document.getElementById('animationFormat') as HTMLSelectElement;
+const downloadAnimatedSvgBtn = document.getElementById('downloadAnimatedSvgBtn') as HTMLButtonElement;
+const frameFormatSelect = document.getElementById('frameFormat') as HTMLSelectElement;
+const frameWidthInput = document.getElementById('frameWidth') as HTMLInputElement;
+const frameRateInput = document.getElementById('frameRate') as HTMLInputElement;
+const downloadFramesBtn = document.getElementById('downloadFramesBtn') as HTMLButtonElement;
+const printUnitSelect = document.getElementById('printUnit') as HTMLSelectElement;
+const printWidthInput = document.getElementById('printWidth') as HTMLInputElement;
+const printHeightInfo = document.getElementById('printHeight') as HTMLElement;
+const printBleedInput = document.getElementById('printBleed') as HTMLInputElement;
+const printCropMarksCheck = document.getElementById('printCropMarks') as HTMLInputElement;
+const printRegistrationMarksCheck = document.getElementById('printRegistrationMarks') as HTMLInputElement;
+const printCheckColorsCheck = document.getElementById('printCheckColors') as HTMLInputElement;
+const printReport = document.getElementById('printReport') as HTMLElement;
+const downloadPrintSvgBtn = document.getElementById('downloadPrintSvgBtn') as HTMLButtonElement;
+const downloadPdfBtn = document.getElementById('downloadPdfBtn') as HTMLButtonElement;
+const batchCountInput = document.getElementById('batchCount') as HTMLInputElement;
+const generateBatchBtn = document.getElementById('generateBatchBtn') as HTMLButtonElement;
+const downloadStarredBtn = document.getElementById('downloadStarredBtn') as HTMLButtonElement;
+const batchGallery = document.getElementById('batchGallery') as HTMLElement;
+const batchGrid = document.getElementById('batchGrid') as HTMLElement;
+const backgroundInput = document.getElementById('background') as HTMLInputElement;
+const colorizeCheck = document.getElementById('colorize') as HTMLInputElement;
+const paletteSwatches = document.getElementById('paletteSwatches') as HTMLElement;
+const presetSelect = document.getElementById('presetSelect') as HTMLSelectElement;
+const savePresetBtn = document.getElementById('savePresetBtn') as HTMLButtonElement;
+const duplicatePresetBtn = document.getElementById('duplicatePresetBtn') as HTMLButtonElement;
+const renamePresetBtn = document.getElementById('renamePresetBtn') as HTMLButtonElement;
+const deletePresetBtn = document.getElementById('deletePresetBtn') as HTMLButtonElement;
+const exportPresetsBtn = document.getElementById('exportPresetsBtn') as HTMLButtonElement;
+const importPresetsBtn = document.getElementById('importPresetsBtn') as HTMLButtonElement;
+const importPresetsInput = document.getElementById('importPresetsInput') as HTMLInputElement;
+const savedPalettesSelect = document.getElementById('savedPalettes') as HTMLSelectElement;
+const savePaletteBtn = document.getElementById('savePaletteBtn') as HTMLButtonElement;
+const deletePaletteBtn = document.getElementById('deletePaletteBtn') as HTMLButtonElement;
+const exportStripEditorCheck = document.getElementById('exportStripEditor') as HTMLInputElement;
+const exportPruneSymbolsCheck = document.getElementById('exportPruneSymbols') as HTMLInputElement;
+const exportPrefixIdsCheck = document.getElementById('exportPrefixIds') as HTMLInputElement;
+const exportInlineUsesCheck = document.getElementById('exportInlineUses') as HTMLInputElement;
 const uploadInput = document.getElementById('uploadInput') as HTMLInputElement;
 const clearSeedsBtn = document.getElementById('clearSeedsBtn') as HTMLButtonElement;
+const exportProjectBtn = document.getElementById('exportProjectBtn') as HTMLButtonElement;
+const importProjectInput = document.getElementById('importProjectInput') as HTMLInputElement;
 const seedList = document.getElementById('seedList') as HTMLElement;
-const previewOverlay = document.getElementById('previewOverlay') as HTMLElement;
+const seedSearchInput = document.getElementById('seedSearch') as HTMLInputElement;
+const seedTagFilterSelect = document.getElementById('seedTagFilter') as HTMLSelectElement;
+const bulkTagBtn = document.getElementById('bulkTagBtn') as HTMLButtonElement;
+const bulkUntagBtn = document.getElementById('bulkUntagBtn') as HTMLButtonElement;
+const bulkEnableBtn = document.getElementById('bulkEnableBtn') as HTMLButtonElement;
+const bulkDisableBtn = document.getElementById('bulkDisableBtn') as HTMLButtonElement;
+const seedFitSelect = document.getElementById('seedFit') as HTMLSelectElement;
+const importReport = document.getElementById('importReport') as HTMLElement;
+const cellEditor = document.getElementById('cellEditor') as HTMLElement;
+const cellEditorTitle = document.getElementById('cellEditorTitle') as HTMLElement;
+const cellCloseBtn = document.getElementById('cellCloseBtn') as HTMLButtonElement;
+const cellSeedSelect = document.getElementById('cellSeed') as HTMLSelectElement;
+const cellRotateBtn = document.getElementById('cellRotateBtn') as HTMLButtonElement;
+const cellFlipXBtn = document.getElementById('cellFlipXBtn') as HTMLButtonElement;
+const cellFlipYBtn = document.getElementById('cellFlipYBtn') as HTMLButtonElement;
+const cellClearBtn = document.getElementById('cellClearBtn') as HTMLButtonElement;
+const cellLockCheck = document.getElementById('cellLock') as HTMLInputElement;
+const cellResetBtn = document.getElementById('cellResetBtn') as HTMLButtonElement;
+
+// Merge saved settings over the defaults
+function restoreState(saved: Partial<AppState>): AppState {
+  return {
+    ...restoreSettings(saved),
+    svgExport: { ...defaultState.svgExport, ...saved.svgExport },
+    savedPalettes: Array.isArray(saved.savedPalettes)
+      ? saved.savedPalettes.filter(palette => typeof palette?.name === 'string' && Array.isArray(palette.colors))
+      : [],
+    seedFit: SEED_FITS.includes(saved.seedFit as SeedFit) ? saved.seedFit as SeedFit : defaultState.seedFit,
+    animation: restoreAnimation(saved.animation),
+    print: restorePrint(saved.print)
+  };
+}
 
 // Load state from localStorage
 function loadState(): void {
   const saved = localStorage.getItem('svgPatternState');
   if (saved) {
     try {
-      const parsed = JSON.parse(saved);
-      // Restore state but always use fixed grid dimensions
-      state = { ...defaultState, ...parsed };
-      state.cols = 8;
-      state.rows = 5;
-      state.tileSize = 200;
+      state = restoreState(JSON.parse(saved));
+      // States saved before the images had their own key hold them inline
+      const images = JSON.parse(localStorage.getItem(IMAGES_KEY) ?? '{}');
+      storedImages = {
+        mask: isImageMask(images.mask) ? images.mask : null,
+        mosaic: isImageMask(images.mosaic) ? images.mosaic : null
+      };
+      state.emptyCells.image.mask ??= storedImages.mask;
+      state.mosaic.image ??= storedImages.mosaic;
     } catch (e) {
       console.warn('Failed to load saved state', e);
     }
   }
   
-  // Update UI from state (cols, rows, tileSize are fixed, not from UI)
+  updateUIFromState();
+}
+
+// Update UI from state
+function updateUIFromState(): void {
+  colsInput.value = state.cols.toString();
+  rowsInput.value = state.rows.toString();
+  tileSizeInput.value = state.tileSize.toString();
   seedInput.value = state.seed;
-  randomRotationCheck.checked = state.randomRotation;
-  allowFlipsCheck.checked = state.allowFlips;
-  blackClusteringCheck.checked = state.blackClustering;
+  const { rotation, flipX, flipY, scale, offset } = state.transforms;
+  rotationChanceInput.value = Math.round(rotation.chance * 100).toString();
+  rotationStepInput.value = rotation.step.toString();
+  flipXChanceInput.value = Math.round(flipX.chance * 100).toString();
+  flipYChanceInput.value = Math.round(flipY.chance * 100).toString();
+  scaleChanceInput.value = Math.round(scale.chance * 100).toString();
+  scaleMinInput.value = Math.round(scale.min * 100).toString();
+  scaleMaxInput.value = Math.round(scale.max * 100).toString();
+  offsetChanceInput.value = Math.round(offset.chance * 100).toString();
+  offsetAmountInput.value = Math.round(offset.amount * 100).toString();
+  clipTilesCheck.checked = state.transforms.clip;
+  largeSeedChanceInput.value = Math.round(state.largeSeedChance * 100).toString();
+  seamlessCheck.checked = state.seamless;
+  const { clusters, noise, caves, gradient, image } = state.emptyCells;
+  emptyModeSelect.value = state.emptyCells.mode;
+  clusterDensityInput.value = Math.round(clusters.density * 100).toString();
+  clusterRadiusInput.value = clusters.radius.toString();
+  clusterFalloffInput.value = Math.round(clusters.falloff * 100).toString();
+  clusterAvoidEdgesCheck.checked = clusters.avoidEdgeRows;
+  noiseScaleInput.value = noise.scale.toString();
+  noiseAmountInput.value = Math.round(noise.amount * 100).toString();
+  caveFillInput.value = Math.round(caves.fill * 100).toString();
+  caveStepsInput.value = caves.steps.toString();
+  gradientDirectionSelect.value = gradient.direction;
+  gradientAmountInput.value = Math.round(gradient.amount * 100).toString();
+  gradientReverseCheck.checked = gradient.reverse;
+  maskThresholdInput.value = Math.round(image.threshold * 100).toString();
+  maskInvertCheck.checked = image.invert;
+  updateEmptyParamsUI();
+  mosaicEnabledCheck.checked = state.mosaic.enabled;
+  mosaicToleranceInput.value = Math.round(state.mosaic.tolerance * 100).toString();
+  updateMosaicInfo();
+  noAdjacentDuplicatesCheck.checked = state.rules.noAdjacentDuplicates;
+  maxCopiesInput.value = state.rules.maxCopies.toString();
+  maxColorRunInput.value = state.rules.maxColorRun.toString();
+  updateRulesUI();
+  backgroundInput.value = state.background;
+  colorizeCheck.checked = state.colorize;
+  updatePaletteUI();
+  exportStripEditorCheck.checked = state.svgExport.stripEditorElements;
+  exportPruneSymbolsCheck.checked = state.svgExport.pruneUnusedSymbols;
+  exportPrefixIdsCheck.checked = state.svgExport.prefixIds;
+  exportInlineUsesCheck.checked = state.svgExport.inlineUses;
+  seedFitSelect.value = state.seedFit;
+  const { animation } = state;
+  animationModeSelect.value = animation.mode;
+  crossfadeSeedInput.value = animation.crossfadeSeed;
+  crossfadeSeedLabel.hidden = animation.mode !== 'crossfade';
+  animationOrderSelect.value = animation.order;
+  animationDurationInput.value = animation.duration.toString();
+  animationStaggerInput.value = Math.round(animation.stagger * 100).toString();
+  animationLoopCheck.checked = animation.loop;
+  animationFormatSelect.value = animation.format;
+  const { print } = state;
+  printUnitSelect.value = print.unit;
+  printWidthInput.value = print.width.toString();
+  printBleedInput.value = print.bleed.toString();
+  printCropMarksCheck.checked = print.cropMarks;
+  printRegistrationMarksCheck.checked = print.registrationMarks;
+  printCheckColorsCheck.checked = print.checkColors;
+  updatePrintInfo();
+  downloadPatternBtn.disabled = !state.seamless;
+}
+
+// The state's images, by the setting that uses each
+function getStateImages(source: AppState): StateImages {
+  return { mask: source.emptyCells.image.mask, mosaic: source.mosaic.image };
+}
+
+// The state with its images left out
+function withoutImages(source: AppState): AppState {
+  return {
+    ...source,
+    emptyCells: { ...source.emptyCells, image: { ...source.emptyCells.image, mask: null } },
+    mosaic: { ...source.mosaic, image: null }
+  };
+}
+
+// A copy of the state that shares its images and edited cells, which are only ever
+// replaced and never changed in place, and clones the rest
+function cloneState(source: AppState): AppState {
+  const copy: AppState = structuredClone({ ...withoutImages(source), cellOverrides: [] });
+  copy.cellOverrides = source.cellOverrides;
+  copy.emptyCells.image.mask = source.emptyCells.image.mask;
+  copy.mosaic.image = source.mosaic.image;
+  return copy;
+}
+
+// An id standing in for an image in snapshot keys, so the image isn't serialized to compare it
+function getImageId(image: ImageMask | null): number | null {
+  if (!image) return null;
+  if (!imageIds.has(image)) imageIds.set(image, nextImageId++);
+  return imageIds.get(image)!;
+}
+
+// Save state to localStorage. The images go under their own key, written only when one is replaced.
+function storeState(): void {
+  localStorage.setItem('svgPatternState', JSON.stringify(withoutImages(state)));
+  const images = getStateImages(state);
+  if (images.mask !== storedImages?.mask || images.mosaic !== storedImages?.mosaic) {
+    localStorage.setItem(IMAGES_KEY, JSON.stringify(images));
+    storedImages = images;
+  }
+}
+
+// Save state and record the change for undo. Changes sharing a history group in
+// quick succession are undone together.
+function saveState(historyGroup: string | null = null): void {
+  storeState();
+  recordHistory(historyGroup);
+}
+
+function takeSnapshot(): Snapshot {
+  const seeds = Array.from(seedLibrary.values(), seed => ({ ...seed }));
+  const { mask, mosaic } = getStateImages(state);
+  const key = JSON.stringify([
+    withoutImages(state),
+    getImageId(mask),
+    getImageId(mosaic),
+    seeds.map(seed => [seed.id, seed.filename, seed.weight, seed.enabled, seed.tags, seed.storeKey])
+  ]);
+  return { state: cloneState(state), seeds, key };
+}
+
+// Add an undo step if the settings or seed library changed since the last one
+function recordHistory(historyGroup: string | null = null): void {
+  if (!committed) return;
+  const snapshot = takeSnapshot();
+  if (snapshot.key === committed.key) return;
+  recordChange(history, committed, historyGroup);
+  committed = snapshot;
+  updateHistoryButtons();
+}
+
+function updateHistoryButtons(): void {
+  undoBtn.disabled = history.past.length === 0;
+  redoBtn.disabled = history.future.length === 0;
+}
+
+// Bring IndexedDB in line with the seed library after an undo, redo or reorder
+async function syncStoredSeeds(previousSeeds: LibrarySeed[]): Promise<void> {
+  const seeds = Array.from(seedLibrary.values());
+  const keptKeys = new Set(seeds.map(seed => seed.storeKey));
+  const storedKeys = new Set(previousSeeds.map(seed => seed.storeKey));
+  
+  for (const seed of previousSeeds) {
+    if (seed.storeKey !== undefined && !keptKeys.has(seed.storeKey)) {
+      await deleteStoredSeed(seed.storeKey);
+    }
+  }
+  // Orders are renumbered so restored seeds keep their place
+  for (const [order, seed] of seeds.entries()) {
+    if (seed.storeKey === undefined) continue;
+    if (storedKeys.has(seed.storeKey)) {
+      const { filename, weight, enabled, tags } = seed;
+      await updateStoredSeed(seed.storeKey, { filename, weight, enabled, tags, order });
+    } else {
+      const { storeKey: key, id, filename, footprint, weight, enabled, tags } = seed;
+      await saveStoredSeed({ key, id, filename, svg: getSeedSvg(seed), footprint, weight, enabled, tags, order });
+    }
+  }
+  nextSeedOrder = seeds.length;
+}
+
+function restoreSnapshot(snapshot: Snapshot): void {
+  const previousSeeds = Array.from(seedLibrary.values());
+  state = cloneState(snapshot.state);
+  resetSeedLibrary();
+  snapshot.seeds.forEach(seed => registerSeed({ ...seed }));
+  committed = snapshot;
+  
+  saveState();
+  updateUIFromState();
+  updateSeedListUI();
+  generatePattern();
+  updateHistoryButtons();
+  syncStoredSeeds(previousSeeds).catch(e => console.warn('Failed to update stored seeds', e));
+}
+
+// Edits not yet committed by their control become a step of their own first
+function undoChange(): void {
+  recordHistory();
+  const snapshot = committed && undo(history, committed);
+  if (snapshot) restoreSnapshot(snapshot);
+}
+
+function redoChange(): void {
+  recordHistory();
+  const snapshot = committed && redo(history, committed);
+  if (snapshot) restoreSnapshot(snapshot);
+}
+
+// Render the palette editor: one colour input per slot, plus the saved palette picker
+function updatePaletteUI(): void {
+  paletteSwatches.innerHTML = '';
+  
+  state.palette.forEach((color, index) => {
+    const swatch = document.createElement('span');
+    swatch.className = 'palette-swatch';
+    
+    const colorInput = document.createElement('input');
+    colorInput.type = 'color';
+    colorInput.value = color;
+    colorInput.addEventListener('input', () => {
+      state.palette[index] = colorInput.value;
+      storeState();
+      generatePattern();
+    });
+    
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'palette-remove';
+    removeBtn.textContent = '×';
+    removeBtn.title = 'Remove colour';
+    removeBtn.addEventListener('click', () => {
+      state.palette.splice(index, 1);
+      saveState();
+      updatePaletteUI();
+      generatePattern();
+    });
+    
+    swatch.appendChild(colorInput);
+    swatch.appendChild(removeBtn);
+    paletteSwatches.appendChild(swatch);
+  });
+  
+  const addBtn = document.createElement('button');
+  addBtn.className = 'palette-add';
+  addBtn.textContent = '+';
+  addBtn.title = 'Add colour';
+  addBtn.addEventListener('click', () => {
+    state.palette.push('#ffffff');
+    saveState();
+    updatePaletteUI();
+    generatePattern();
+  });
+  paletteSwatches.appendChild(addBtn);
+  
+  savedPalettesSelect.innerHTML = '<option value="">Saved palettes…</option>';
+  state.savedPalettes.forEach((saved, index) => {
+    const option = document.createElement('option');
+    option.value = index.toString();
+    option.textContent = saved.name;
+    savedPalettesSelect.appendChild(option);
+  });
+}
+
+// Render the never-adjacent pair list and fill the seed pickers used to add a pair
+function updateRulesUI(): void {
+  const seedName = (seedId: string): string => seedLibrary.get(seedId)?.filename || seedId;
+  
+  [pairFirstSelect, pairSecondSelect].forEach(select => {
+    const selected = select.value;
+    select.innerHTML = '';
+    seedLibrary.forEach((_, seedId) => {
+      const option = document.createElement('option');
+      option.value = seedId;
+      option.textContent = seedName(seedId);
+      select.appendChild(option);
+    });
+    if (seedLibrary.has(selected)) {
+      select.value = selected;
+    }
+  });
+  addPairBtn.disabled = seedLibrary.size === 0;
+  
+  pairList.innerHTML = '';
+  state.rules.forbiddenPairs.forEach(([first, second], index) => {
+    const item = document.createElement('li');
+    
+    const label = document.createElement('span');
+    label.textContent = `${seedName(first)} ↔ ${seedName(second)}`;
+    
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'seed-remove';
+    removeBtn.textContent = '×';
+    removeBtn.addEventListener('click', () => {
+      state.rules.forbiddenPairs.splice(index, 1);
+      saveState();
+      updateRulesUI();
+      generatePattern();
+    });
+    
+    item.appendChild(label);
+    item.appendChild(removeBtn);
+    pairList.appendChild(item);
+  });
+}
+
+function addForbiddenPair(): void {
+  const first = pairFirstSelect.value;
+  const second = pairSecondSelect.value;
+  if (!first || !second) return;
+  
+  const exists = state.rules.forbiddenPairs.some(([a, b]) =>
+    (a === first && b === second) || (a === second && b === first));
+  if (!exists) {
+    state.rules.forbiddenPairs.push([first, second]);
+    saveState();
+    updateRulesUI();
+    generatePattern();
+  }
+}
+
+// Store the current palette under a name, replacing any palette with the same name
+function savePalette(): void {
+  const name = prompt('Palette name:')?.trim();
+  if (!name) return;
+  
+  const existing = state.savedPalettes.findIndex(saved => saved.name === name);
+  const palette = { name, colors: [...state.palette] };
+  if (existing > -1) {
+    state.savedPalettes[existing] = palette;
+  } else {
+    state.savedPalettes.push(palette);
+  }
+  saveState();
+  updatePaletteUI();
+  savedPalettesSelect.value = (existing > -1 ? existing : state.savedPalettes.length - 1).toString();
+}
+
+function loadSavedPalette(): void {
+  const saved = state.savedPalettes[parseInt(savedPalettesSelect.value, 10)];
+  if (!saved) return;
+  
+  const selected = savedPalettesSelect.value;
+  state.palette = [...saved.colors];
+  saveState();
+  updatePaletteUI();
+  savedPalettesSelect.value = selected;
+  generatePattern();
+}
+
+function deleteSavedPalette(): void {
+  const index = parseInt(savedPalettesSelect.value, 10);
+  if (!state.savedPalettes[index]) return;
+  
+  state.savedPalettes.splice(index, 1);
+  saveState();
+  updatePaletteUI();
+}
+
+// Load the preset library from localStorage, dropping presets that don't validate
+function loadPresets(): void {
+  const saved = localStorage.getItem(PRESETS_KEY);
+  if (saved) {
+    try {
+      const library = JSON.parse(saved) as Partial<PresetLibrary>;
+      const presets = Array.isArray(library.presets) ? library.presets.filter(isPreset) : [];
+      const active = presets.some(preset => preset.name === library.active) ? library.active! : null;
+      presetLibrary = { active, presets };
+    } catch (e) {
+      console.warn('Failed to load saved presets', e);
+    }
+  }
+  updatePresetUI();
+}
+
+function savePresets(): void {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presetLibrary));
+  updatePresetUI();
+}
+
+// Fill the preset picker, showing the active preset
+function updatePresetUI(): void {
+  presetSelect.innerHTML = '';
+  presetSelect.appendChild(new Option('Presets…', ''));
+  presetLibrary.presets.forEach(preset => presetSelect.appendChild(new Option(preset.name, preset.name)));
+  presetSelect.value = presetLibrary.active ?? '';
+  [duplicatePresetBtn, renamePresetBtn, deletePresetBtn].forEach(button => {
+    button.disabled = presetLibrary.active === null;
+  });
+  exportPresetsBtn.disabled = presetLibrary.presets.length === 0;
+}
+
+function findPreset(name: string | null): Preset | undefined {
+  return presetLibrary.presets.find(preset => preset.name === name);
+}
+
+// Ask for a preset name, refusing one taken by another preset
+function promptPresetName(message: string, suggested: string, current: string | null = null): string | null {
+  const name = prompt(message, suggested)?.trim();
+  if (!name) return null;
+  if (name !== current && findPreset(name)) {
+    alert(`A preset named "${name}" already exists`);
+    return null;
+  }
+  return name;
+}
+
+// Save the settings and seed choices as a preset, replacing one of the same name
+function savePreset(): void {
+  const name = prompt('Preset name:', presetLibrary.active ?? '')?.trim();
+  if (!name) return;
+  
+  const preset: Preset = {
+    name,
+    state: { ...structuredClone(state) },
+    seeds: Object.fromEntries(Array.from(seedLibrary.values(), seed => [seed.id, { enabled: seed.enabled, weight: seed.weight }]))
+  };
+  const existing = presetLibrary.presets.findIndex(saved => saved.name === name);
+  if (existing > -1) {
+    presetLibrary.presets[existing] = preset;
+  } else {
+    presetLibrary.presets.push(preset);
+  }
+  presetLibrary.active = name;
+  savePresets();
+}
+
+// Switch to a preset: its settings replace the current ones, and only the seeds it
+// lists stay enabled. Seeds are kept in the library either way.
+function applyPreset(name: string): void {
+  const preset = findPreset(name);
+  if (!preset) return;
+  
+  state = restoreState(preset.state as Partial<AppState>);
+  seedLibrary.forEach((seed, seedId) => {
+    const setting = preset.seeds[seedId];
+    seed.enabled = setting?.enabled ?? false;
+    seed.weight = setting?.weight ?? seed.weight;
+  });
+  syncStoredSeeds(Array.from(seedLibrary.values())).catch(e => console.warn('Failed to update stored seeds', e));
+  presetLibrary.active = name;
+  savePresets();
+  
+  saveState();
+  updateUIFromState();
+  updateSeedListUI();
+  generatePattern();
+  
+  const missing = Object.keys(preset.seeds).filter(seedId => !seedLibrary.has(seedId)).length;
+  if (missing > 0) {
+    alert(`${missing} seed(s) saved in "${name}" are no longer in the library, so the pattern may differ`);
+  }
+}
+
+function duplicatePreset(): void {
+  const preset = findPreset(presetLibrary.active);
+  if (!preset) return;
+  
+  const name = promptPresetName('Name of the copy:', `${preset.name} copy`);
+  if (!name) return;
+  presetLibrary.presets.push({ ...structuredClone(preset), name });
+  presetLibrary.active = name;
+  savePresets();
+}
+
+function renamePreset(): void {
+  const preset = findPreset(presetLibrary.active);
+  if (!preset) return;
+  
+  const name = promptPresetName('Preset name:', preset.name, preset.name);
+  if (!name) return;
+  preset.name = name;
+  presetLibrary.active = name;
+  savePresets();
+}
+
+function deletePreset(): void {
+  const preset = findPreset(presetLibrary.active);
+  if (!preset || !confirm(`Delete the preset "${preset.name}"?`)) return;
+  
+  presetLibrary.presets = presetLibrary.presets.filter(saved => saved !== preset);
+  presetLibrary.active = null;
+  savePresets();
 }
 
-// Save state to localStorage
-function saveState(): void {
-  localStorage.setItem('svgPatternState', JSON.stringify(state));
+function exportPresets(): void {
+  const file = createPresetFile(presetLibrary.presets);
+  downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), 'pattern-presets.json');
+}
+
+// Add the presets from an exported file; ones with the name of an existing preset replace it
+async function importPresets(file: File): Promise<void> {
+  let presets: Preset[];
+  try {
+    presets = parsePresetFile(await file.text());
+  } catch (error) {
+    alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return;
+  }
+  
+  presets.forEach(preset => {
+    const name = preset.name.trim();
+    presetLibrary.presets = [...presetLibrary.presets.filter(saved => saved.name !== name), { ...preset, name }];
+  });
+  savePresets();
 }
 
 // Create fallback shapes
-function createFallbackShapes(): void {
+async function createFallbackShapes(): Promise<void> {
   // Solid black rectangle
-  const solidBlack = document.createElementNS('http://www.w3.org/2000/svg', 'symbol');
-  const seedId1 = `seed-${seedCount++}`;
-  solidBlack.id = seedId1;
-  solidBlack.setAttribute('viewBox', '0 0 100 100');
-  const blackRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-  blackRect.setAttribute('x', '0');
-  blackRect.setAttribute('y', '0');
-  blackRect.setAttribute('width', '100');
-  blackRect.setAttribute('height', '100');
-  blackRect.setAttribute('fill', '#000');
-  solidBlack.appendChild(blackRect);
-  seedDefs.appendChild(solidBlack);
-  seedSizes.set(seedId1, 1);
-  seedMetadata.set(seedId1, { filename: 'Fallback: Solid Black', size: 1 });
-  smallSeeds.push(seedId1);
+  const solidBlack = createElement('svg', { xmlns: SVG_NS, viewBox: '0 0 100 100' });
+  const blackRect = createElement('rect');
+  blackRect.attributes.set('x', '0');
+  blackRect.attributes.set('y', '0');
+  blackRect.attributes.set('width', '100');
+  blackRect.attributes.set('height', '100');
+  blackRect.attributes.set('fill', '#000');
+  appendChild(solidBlack, blackRect);
+  await addFallbackShape(solidBlack, 'Fallback: Solid Black');
   
   // Solid gray rectangle
-  const solidGray = document.createElementNS('http://www.w3.org/2000/svg', 'symbol');
-  const seedId2 = `seed-${seedCount++}`;
-  solidGray.id = seedId2;
-  solidGray.setAttribute('viewBox', '0 0 100 100');
-  const grayRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-  grayRect.setAttribute('x', '0');
-  grayRect.setAttribute('y', '0');
-  grayRect.setAttribute('width', '100');
-  grayRect.setAttribute('height', '100');
-  grayRect.setAttribute('fill', '#666');
-  solidGray.appendChild(grayRect);
-  seedDefs.appendChild(solidGray);
-  seedSizes.set(seedId2, 1);
-  seedMetadata.set(seedId2, { filename: 'Fallback: Solid Gray', size: 1 });
-  smallSeeds.push(seedId2);
+  const solidGray = createElement('svg', { xmlns: SVG_NS, viewBox: '0 0 100 100' });
+  const grayRect = createElement('rect');
+  grayRect.attributes.set('x', '0');
+  grayRect.attributes.set('y', '0');
+  grayRect.attributes.set('width', '100');
+  grayRect.attributes.set('height', '100');
+  grayRect.attributes.set('fill', '#666');
+  appendChild(solidGray, grayRect);
+  await addFallbackShape(solidGray, 'Fallback: Solid Gray');
   
   // Solid white rectangle
-  const solidWhite = document.createElementNS('http://www.w3.org/2000/svg', 'symbol');
-  const seedId3 = `seed-${seedCount++}`;
-  solidWhite.id = seedId3;
-  solidWhite.setAttribute('viewBox', '0 0 100 100');
-  const whiteRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-  whiteRect.setAttribute('x', '0');
-  whiteRect.setAttribute('y', '0');
-  whiteRect.setAttribute('width', '100');
-  whiteRect.setAttribute('height', '100');
-  whiteRect.setAttribute('fill', '#fff');
-  solidWhite.appendChild(whiteRect);
-  seedDefs.appendChild(solidWhite);
-  seedSizes.set(seedId3, 1);
-  seedMetadata.set(seedId3, { filename: 'Fallback: Solid White', size: 1 });
-  smallSeeds.push(seedId3);
+  const solidWhite = createElement('svg', { xmlns: SVG_NS, viewBox: '0 0 100 100' });
+  const whiteRect = createElement('rect');
+  whiteRect.attributes.set('x', '0');
+  whiteRect.attributes.set('y', '0');
+  whiteRect.attributes.set('width', '100');
+  whiteRect.attributes.set('height', '100');
+  whiteRect.attributes.set('fill', '#fff');
+  appendChild(solidWhite, whiteRect);
+  await addFallbackShape(solidWhite, 'Fallback: Solid White');
   
   // Thin vertical stripes (2px wide)
-  const thinStripes = document.createElementNS('http://www.w3.org/2000/svg', 'symbol');
-  const seedId4 = `seed-${seedCount++}`;
-  thinStripes.id = seedId4;
-  thinStripes.setAttribute('viewBox', '0 0 100 100');
+  const thinStripes = createElement('svg', { xmlns: SVG_NS, viewBox: '0 0 100 100' });
   let thinIsBlack = true;
   for (let x = 0; x < 100; x += 2) {
-    const stripe = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    stripe.setAttribute('x', x.toString());
-    stripe.setAttribute('y', '0');
-    stripe.setAttribute('width', '2');
-    stripe.setAttribute('height', '100');
-    stripe.setAttribute('fill', thinIsBlack ? '#000' : '#fff');
-    thinStripes.appendChild(stripe);
+    const stripe = createElement('rect');
+    stripe.attributes.set('x', x.toString());
+    stripe.attributes.set('y', '0');
+    stripe.attributes.set('width', '2');
+    stripe.attributes.set('height', '100');
+    stripe.attributes.set('fill', thinIsBlack ? '#000' : '#fff');
+    appendChild(thinStripes, stripe);
     thinIsBlack = !thinIsBlack;
   }
-  seedDefs.appendChild(thinStripes);
-  seedSizes.set(seedId4, 1);
-  seedMetadata.set(seedId4, { filename: 'Fallback: Thin Stripes', size: 1 });
-  smallSeeds.push(seedId4);
+  await addFallbackShape(thinStripes, 'Fallback: Thin Stripes');
   
   // Medium vertical stripes (5px wide)
-  const mediumStripes = document.createElementNS('http://www.w3.org/2000/svg', 'symbol');
-  const seedId5 = `seed-${seedCount++}`;
-  mediumStripes.id = seedId5;
-  mediumStripes.setAttribute('viewBox', '0 0 100 100');
+  const mediumStripes = createElement('svg', { xmlns: SVG_NS, viewBox: '0 0 100 100' });
   for (let x = 0; x < 100; x += 10) {
-    const stripe = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    stripe.setAttribute('x', x.toString());
-    stripe.setAttribute('y', '0');
-    stripe.setAttribute('width', '5');
-    stripe.setAttribute('height', '100');
-    stripe.setAttribute('fill', '#000');
-    mediumStripes.appendChild(stripe);
-    const whiteStripe = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    whiteStripe.setAttribute('x', (x + 5).toString());
-    whiteStripe.setAttribute('y', '0');
-    whiteStripe.setAttribute('width', '5');
-    whiteStripe.setAttribute('height', '100');
-    whiteStripe.setAttribute('fill', '#fff');
-    mediumStripes.appendChild(whiteStripe);
-  }
-  seedDefs.appendChild(mediumStripes);
-  seedSizes.set(seedId5, 1);
-  seedMetadata.set(seedId5, { filename: 'Fallback: Medium Stripes', size: 1 });
-  smallSeeds.push(seedId5);
+    const stripe = createElement('rect');
+    stripe.attributes.set('x', x.toString());
+    stripe.attributes.set('y', '0');
+    stripe.attributes.set('width', '5');
+    stripe.attributes.set('height', '100');
+    stripe.attributes.set('fill', '#000');
+    appendChild(mediumStripes, stripe);
+    const whiteStripe = createElement('rect');
+    whiteStripe.attributes.set('x', (x + 5).toString());
+    whiteStripe.attributes.set('y', '0');
+    whiteStripe.attributes.set('width', '5');
+    whiteStripe.attributes.set('height', '100');
+    whiteStripe.attributes.set('fill', '#fff');
+    appendChild(mediumStripes, whiteStripe);
+  }
+  await addFallbackShape(mediumStripes, 'Fallback: Medium Stripes');
   
   // Thick vertical stripes (10px wide)
-  const thickStripes = document.createElementNS('http://www.w3.org/2000/svg', 'symbol');
-  const seedId6 = `seed-${seedCount++}`;
-  thickStripes.id = seedId6;
-  thickStripes.setAttribute('viewBox', '0 0 100 100');
+  const thickStripes = createElement('svg', { xmlns: SVG_NS, viewBox: '0 0 100 100' });
   for (let x = 0; x < 100; x += 20) {
-    const stripe = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    stripe.setAttribute('x', x.toString());
-    stripe.setAttribute('y', '0');
-    stripe.setAttribute('width', '10');
-    stripe.setAttribute('height', '100');
-    stripe.setAttribute('fill', '#000');
-    thickStripes.appendChild(stripe);
-    const whiteStripe = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    whiteStripe.setAttribute('x', (x + 10).toString());
-    whiteStripe.setAttribute('y', '0');
-    whiteStripe.setAttribute('width', '10');
-    whiteStripe.setAttribute('height', '100');
-    whiteStripe.setAttribute('fill', '#fff');
-    thickStripes.appendChild(whiteStripe);
-  }
-  seedDefs.appendChild(thickStripes);
-  seedSizes.set(seedId6, 1);
-  seedMetadata.set(seedId6, { filename: 'Fallback: Thick Stripes', size: 1 });
-  smallSeeds.push(seedId6);
+    const stripe = createElement('rect');
+    stripe.attributes.set('x', x.toString());
+    stripe.attributes.set('y', '0');
+    stripe.attributes.set('width', '10');
+    stripe.attributes.set('height', '100');
+    stripe.attributes.set('fill', '#000');
+    appendChild(thickStripes, stripe);
+    const whiteStripe = createElement('rect');
+    whiteStripe.attributes.set('x', (x + 10).toString());
+    whiteStripe.attributes.set('y', '0');
+    whiteStripe.attributes.set('width', '10');
+    whiteStripe.attributes.set('height', '100');
+    whiteStripe.attributes.set('fill', '#fff');
+    appendChild(thickStripes, whiteStripe);
+  }
+  await addFallbackShape(thickStripes, 'Fallback: Thick Stripes');
   
   // Variable width stripes (mixed sizes)
-  const variableStripes = document.createElementNS('http://www.w3.org/2000/svg', 'symbol');
-  const seedId7 = `seed-${seedCount++}`;
-  variableStripes.id = seedId7;
-  variableStripes.setAttribute('viewBox', '0 0 100 100');
+  const variableStripes = createElement('svg', { xmlns: SVG_NS, viewBox: '0 0 100 100' });
   let xPos = 0;
   const widths = [3, 7, 2, 12, 4, 8, 5, 6];
   let isBlack = true;
   for (const width of widths) {
     if (xPos >= 100) break;
-    const stripe = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    stripe.setAttribute('x', xPos.toString());
-    stripe.setAttribute('y', '0');
-    stripe.setAttribute('width', Math.min(width, 100 - xPos).toString());
-    stripe.setAttribute('height', '100');
-    stripe.setAttribute('fill', isBlack ? '#000' : '#fff');
-    variableStripes.appendChild(stripe);
+    const stripe = createElement('rect');
+    stripe.attributes.set('x', xPos.toString());
+    stripe.attributes.set('y', '0');
+    stripe.attributes.set('width', Math.min(width, 100 - xPos).toString());
+    stripe.attributes.set('height', '100');
+    stripe.attributes.set('fill', isBlack ? '#000' : '#fff');
+    appendChild(variableStripes, stripe);
     xPos += width;
     isBlack = !isBlack;
   }
   // Fill remaining space
   if (xPos < 100) {
-    const remaining = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    remaining.setAttribute('x', xPos.toString());
-    remaining.setAttribute('y', '0');
-    remaining.setAttribute('width', (100 - xPos).toString());
-    remaining.setAttribute('height', '100');
-    remaining.setAttribute('fill', isBlack ? '#000' : '#fff');
-    variableStripes.appendChild(remaining);
-  }
-  seedDefs.appendChild(variableStripes);
-  seedSizes.set(seedId7, 1);
-  seedMetadata.set(seedId7, { filename: 'Fallback: Variable Stripes', size: 1 });
-  smallSeeds.push(seedId7);
-  
-  updateSeedListUI();
+    const remaining = createElement('rect');
+    remaining.attributes.set('x', xPos.toString());
+    remaining.attributes.set('y', '0');
+    remaining.attributes.set('width', (100 - xPos).toString());
+    remaining.attributes.set('height', '100');
+    remaining.attributes.set('fill', isBlack ? '#000' : '#fff');
+    appendChild(variableStripes, remaining);
+  }
+  await addFallbackShape(variableStripes, 'Fallback: Variable Stripes');
 }
 
-// Detect SVG size from dimensions
-function detectSVGSize(svgRoot: SVGElement): number | null {
-  let width: number, height: number;
-  
-  // Check viewBox first: "0 0 width height"
-  const viewBox = svgRoot.getAttribute('viewBox');
-  if (viewBox) {
-    const parts = viewBox.split(/\s+/);
-    if (parts.length >= 4) {
-      width = parseFloat(parts[2]);
-      height = parseFloat(parts[3]);
-    } else {
-      return null;
-    }
-  } else {
-    // Fall back to width/height attributes
-    const widthAttr = svgRoot.getAttribute('width') || '0';
-    const heightAttr = svgRoot.getAttribute('height') || '0';
-    width = parseFloat(widthAttr.replace('px', ''));
-    height = parseFloat(heightAttr.replace('px', ''));
-  }
-  
-  // Validate exact dimensions
-  if (width === 200 && height === 200) return 1;
-  if (width === 400 && height === 400) return 2;
-  return null; // Invalid size
+// Add a built-in shape to the library, saved like the default seeds so a reload restores it
+async function addFallbackShape(svgRoot: XmlElement, filename: string): Promise<void> {
+  const seedId = addSVGSymbol(svgRoot, singleCell, filename);
+  await persistSeed(seedId, serializeXml(svgRoot));
+}
+
+// Track a seed in the library; new seeds start enabled and untagged
+function registerSeed(seed: Seed & Partial<LibrarySeed>): void {
+  seedLibrary.set(seed.id, { enabled: true, tags: [], ...seed });
 }
 
-// Helper function to add SVG symbol and track its size
-function addSVGSymbol(svgRoot: SVGElement, size: number, filename: string = ''): void {
+// The seeds generation draws from, in library order (generation itself sorts them by id)
+function getActiveSeeds(): LibrarySeed[] {
+  return Array.from(seedLibrary.values()).filter(seed => seed.enabled);
+}
+
+// Helper function to add SVG symbol and track its size. Throws if the library
+// already has the same seed. Seeds restored or imported with an id keep it.
+function addSVGSymbol(svgRoot: XmlElement, footprint: Footprint, filename: string = '', fit: SeedFit = 'stretch', id?: string): string {
   // Extract filename from path if not provided
-  if (!filename && svgRoot.getAttribute('data-filename')) {
-    filename = svgRoot.getAttribute('data-filename') || '';
+  if (!filename && svgRoot.attributes.get('data-filename')) {
+    filename = svgRoot.attributes.get('data-filename') || '';
   }
   
-  // Normalize viewBox to exact dimensions: 200x200 for size 1, 400x400 for size 2
-  const expectedSize = size === 1 ? 200 : 400;
-  const viewBox = `0 0 ${expectedSize} ${expectedSize}`;
-  
-  // Get the original viewBox or dimensions to calculate scale
-  let originalViewBox = svgRoot.getAttribute('viewBox');
-  let originalWidth = 0;
-  let originalHeight = 0;
-  
-  if (originalViewBox) {
-    const parts = originalViewBox.split(/\s+/);
-    if (parts.length >= 4) {
-      originalWidth = parseFloat(parts[2]);
-      originalHeight = parseFloat(parts[3]);
-    }
-  } else {
-    const widthAttr = svgRoot.getAttribute('width') || '0';
-    const heightAttr = svgRoot.getAttribute('height') || '0';
-    originalWidth = parseFloat(widthAttr.replace('px', ''));
-    originalHeight = parseFloat(heightAttr.replace('px', ''));
+  const seed = createSeed(svgRoot, footprint, filename, fit, id);
+  const existing = seedLibrary.get(seed.id);
+  if (existing) {
+    throw new Error(`Already in the library as ${existing.filename || existing.id}`);
   }
+  registerSeed(seed);
   
-  // If we have original dimensions, calculate scale to fit expected size
-  const scaleX = originalWidth > 0 ? expectedSize / originalWidth : 1;
-  const scaleY = originalHeight > 0 ? expectedSize / originalHeight : 1;
-  
-  const symbol = document.createElementNS('http://www.w3.org/2000/svg', 'symbol');
-  const seedId = `seed-${seedCount++}`;
-  symbol.id = seedId;
-  symbol.setAttribute('viewBox', viewBox);
+  updateSeedListUI();
+  return seed.id;
+}
+
+// Save a seed's SVG source to IndexedDB so it survives reloads
+async function persistSeed(seedId: string, svgText: string, fit: SeedFit = 'stretch'): Promise<void> {
+  const metadata = seedLibrary.get(seedId);
+  if (!metadata) return;
   
-  // Wrap content in a group and scale if needed
-  const contentGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-  if (scaleX !== 1 || scaleY !== 1) {
-    contentGroup.setAttribute('transform', `scale(${scaleX}, ${scaleY})`);
+  try {
+    metadata.storeKey = await saveStoredSeed({
+      id: seedId,
+      filename: metadata.filename,
+      svg: svgText,
+      footprint: metadata.footprint,
+      ...(fit !== 'stretch' && { fit }),
+      weight: metadata.weight,
+      enabled: metadata.enabled,
+      tags: metadata.tags,
+      order: nextSeedOrder++
+    });
+  } catch (e) {
+    console.warn(`Failed to save seed ${metadata.filename}`, e);
   }
+}
+
+// Rebuild seeds saved in IndexedDB, in the order they were added. Returns the
+// numbered ids of seeds saved before ids were content hashes, mapped to their new ids.
+async function restoreStoredSeeds(): Promise<Map<string, string>> {
+  const storedSeeds = await loadStoredSeeds();
+  const legacyIds = new Map<string, string>();
+  let legacyIndex = 0; // Numbered ids counted the seeds that loaded
   
-  Array.from(svgRoot.childNodes).forEach(child => {
-    if (child.nodeType === Node.ELEMENT_NODE) {
-      contentGroup.appendChild(child.cloneNode(true));
+  for (const stored of storedSeeds) {
+    nextSeedOrder = Math.max(nextSeedOrder, stored.order + 1);
+    let svgRoot: XmlElement;
+    try {
+      svgRoot = parseSeedSvg(stored.svg);
+    } catch (e) {
+      console.warn(`Skipping stored seed ${stored.filename}: invalid SVG`, e);
+      continue;
     }
-  });
-  
-  symbol.appendChild(contentGroup);
-  
-  seedDefs.appendChild(symbol);
-  seedSizes.set(seedId, size);
-  seedMetadata.set(seedId, { filename, size });
+    // Seeds saved before uploads were sanitized may still hold active content
+    const removed = sanitizeSvg(svgRoot);
+    if (removed.length > 0) {
+      console.warn(`Sanitized stored seed ${stored.filename}: ${removed.join('; ')}`);
+    }
+    
+    const legacyId = `seed-${legacyIndex++}`;
+    let seedId: string;
+    try {
+      seedId = addSVGSymbol(svgRoot, stored.footprint, stored.filename, stored.fit, stored.id);
+    } catch (e) {
+      // Earlier versions let the same file be added more than once
+      console.warn(`Skipping stored seed ${stored.filename}`, e);
+      if (stored.key !== undefined) {
+        deleteStoredSeed(stored.key).catch(error => console.warn('Failed to delete stored seed', error));
+      }
+      continue;
+    }
+    if (stored.id === undefined && stored.key !== undefined) {
+      legacyIds.set(legacyId, seedId);
+      updateStoredSeed(stored.key, { id: seedId }).catch(e => console.warn('Failed to save seed id', e));
+    }
+    
+    const metadata = seedLibrary.get(seedId);
+    if (metadata) {
+      metadata.storeKey = stored.key;
+      metadata.weight = stored.weight ?? 1;
+      metadata.enabled = stored.enabled ?? true;
+      metadata.tags = stored.tags ?? [];
+    }
+  }
+  return legacyIds;
+}
+
+// Point the saved settings and presets at seeds' new ids after restoring seeds
+// that had numbered ones
+function migrateLegacySeedIds(legacyIds: Map<string, string>): void {
+  if (legacyIds.size === 0) return;
   
-  if (size === 1) {
-    smallSeeds.push(seedId);
-  } else if (size === 2) {
-    largeSeeds.push(seedId);
+  renameSeedIds(state, legacyIds);
+  storeState();
+  presetLibrary.presets.forEach(preset => {
+    const settings = restoreSettings(preset.state);
+    renameSeedIds(settings, legacyIds);
+    preset.state = { ...settings };
+    preset.seeds = Object.fromEntries(Object.entries(preset.seeds).map(([seedId, setting]) => [legacyIds.get(seedId) ?? seedId, setting]));
+  });
+  savePresets();
+}
+
+// Data URL of a seed's standalone SVG, for its thumbnail in the seed list
+function getSeedThumbnail(seed: LibrarySeed): string {
+  let url = seedThumbnails.get(seed.symbol);
+  if (!url) {
+    url = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(getSeedSvg(seed))}`;
+    seedThumbnails.set(seed.symbol, url);
   }
+  return url;
+}
+
+// Parse a comma-separated tag list, dropping blanks and repeats
+function parseTags(value: string): string[] {
+  return Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(tag => tag !== '')));
+}
+
+// Whether a seed matches the search text and tag filter of the seed list
+function isSeedShown(seed: LibrarySeed): boolean {
+  const query = seedSearchInput.value.trim().toLowerCase();
+  const filter = seedTagFilterSelect.value;
+  if (filter === 'untagged' && seed.tags.length > 0) return false;
+  if (filter.startsWith('tag:') && !seed.tags.includes(filter.slice(4))) return false;
+  return query === '' ||
+    (seed.filename || seed.id).toLowerCase().includes(query) ||
+    seed.tags.some(tag => tag.toLowerCase().includes(query));
+}
+
+// List every tag in use in the filter picker, keeping the current choice if it still exists
+function updateTagFilterUI(): void {
+  const selected = seedTagFilterSelect.value;
+  const tags = new Set<string>();
+  seedLibrary.forEach(seed => seed.tags.forEach(tag => tags.add(tag)));
   
-  updateSeedListUI();
+  seedTagFilterSelect.innerHTML = '';
+  seedTagFilterSelect.appendChild(new Option('All tags', 'all'));
+  seedTagFilterSelect.appendChild(new Option('Untagged', 'untagged'));
+  Array.from(tags).sort().forEach(tag => seedTagFilterSelect.appendChild(new Option(tag, `tag:${tag}`)));
+  seedTagFilterSelect.value = selected === 'untagged' || tags.has(selected.slice(4)) ? selected : 'all';
 }
 
 // Update seed list UI
 function updateSeedListUI(): void {
   if (!seedList) return;
   
+  updateRulesUI();
+  updateTagFilterUI();
+  
   seedList.innerHTML = '';
   
-  if (seedCount === 0) {
+  if (seedLibrary.size === 0) {
     seedList.innerHTML = '<p style="color: #999; font-size: 12px;">No seeds loaded. Upload SVGs to get started.</p>';
     return;
   }
   
+  const shownSeeds = Array.from(seedLibrary.values()).filter(isSeedShown);
+  
   // Show count
   const countText = document.createElement('p');
   countText.style.cssText = 'font-size: 12px; color: #666; margin-bottom: 8px;';
-  countText.textContent = `${smallSeeds.length} small (200×200), ${largeSeeds.length} large (400×400)`;
+  const activeSeeds = getActiveSeeds();
+  const singleCount = activeSeeds.filter(seed => seed.footprint.width === 1 && seed.footprint.height === 1).length;
+  const disabledCount = seedLibrary.size - activeSeeds.length;
+  countText.textContent = `${singleCount} single-cell, ${activeSeeds.length - singleCount} multi-cell` +
+    (disabledCount > 0 ? `, ${disabledCount} disabled` : '') +
+    (shownSeeds.length < seedLibrary.size ? ` (showing ${shownSeeds.length})` : '');
   seedList.appendChild(countText);
   
-  // List all seeds
-  seedMetadata.forEach((metadata, seedId) => {
+  // List the seeds matching the search and filter
+  shownSeeds.forEach(metadata => {
+    const seedId = metadata.id;
     const seedItem = document.createElement('div');
     seedItem.className = 'seed-item';
+    seedItem.classList.toggle('disabled', !metadata.enabled);
+    
+    // The thumbnail doubles as the handle for dragging the seed to a new place
+    const thumbnail = document.createElement('img');
+    thumbnail.className = 'seed-thumbnail';
+    thumbnail.src = getSeedThumbnail(metadata);
+    thumbnail.alt = '';
+    thumbnail.draggable = true;
+    thumbnail.title = 'Drag to reorder';
+    thumbnail.addEventListener('dragstart', (e) => {
+      e.dataTransfer?.setData(SEED_DRAG_TYPE, seedId);
+      e.dataTransfer?.setDragImage(seedItem, 0, 0);
+    });
+    seedItem.addEventListener('dragover', (e) => {
+      if (!e.dataTransfer?.types.includes(SEED_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      seedItem.classList.add('drag-over');
+    });
+    seedItem.addEventListener('dragleave', () => seedItem.classList.remove('drag-over'));
+    seedItem.addEventListener('drop', (e) => {
+      const draggedId = e.dataTransfer?.getData(SEED_DRAG_TYPE);
+      if (!draggedId) return;
+      e.preventDefault();
+      e.stopPropagation();
+      moveSeed(draggedId, seedId);
+    });
     
-    const seedName = document.createElement('span');
-    seedName.className = 'seed-name';
-    seedName.textContent = metadata.filename || seedId;
+    const enabledCheck = document.createElement('input');
+    enabledCheck.type = 'checkbox';
+    enabledCheck.className = 'seed-enabled';
+    enabledCheck.checked = metadata.enabled;
+    enabledCheck.title = 'Use this seed when generating';
+    enabledCheck.addEventListener('change', () => setSeedsEnabled([metadata], enabledCheck.checked));
+    
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.className = 'seed-name';
+    nameInput.value = metadata.filename;
+    nameInput.placeholder = seedId;
+    nameInput.title = 'Rename';
+    nameInput.addEventListener('change', () => renameSeed(seedId, nameInput));
     
     const seedSize = document.createElement('span');
     seedSize.className = 'seed-size';
-    seedSize.textContent = metadata.size === 1 ? '200×200' : '400×400';
+    seedSize.textContent = `${metadata.footprint.width}×${metadata.footprint.height}`;
+    seedSize.title = `${metadata.footprint.width * state.tileSize}×${metadata.footprint.height * state.tileSize}px`;
+    
+    const weightInput = document.createElement('input');
+    weightInput.type = 'number';
+    weightInput.className = 'seed-weight';
+    weightInput.min = '0';
+    weightInput.step = '0.5';
+    weightInput.value = metadata.weight.toString();
+    weightInput.title = 'Weight (0 disables this seed)';
+    weightInput.addEventListener('change', () => setSeedWeight(seedId, weightInput));
     
     const removeBtn = document.createElement('button');
     removeBtn.className = 'seed-remove';
     removeBtn.textContent = '×';
     removeBtn.addEventListener('click', () => removeSeed(seedId));
     
-    seedItem.appendChild(seedName);
+    const tagsInput = document.createElement('input');
+    tagsInput.type = 'text';
+    tagsInput.className = 'seed-tags';
+    tagsInput.value = metadata.tags.join(', ');
+    tagsInput.placeholder = 'Tags, comma-separated';
+    tagsInput.addEventListener('change', () => setSeedTags(seedId, tagsInput));
+    
+    seedItem.appendChild(thumbnail);
+    seedItem.appendChild(enabledCheck);
+    seedItem.appendChild(nameInput);
     seedItem.appendChild(seedSize);
+    seedItem.appendChild(weightInput);
     seedItem.appendChild(removeBtn);
+    seedItem.appendChild(tagsInput);
     seedList.appendChild(seedItem);
   });
 }
 
-// Remove a single seed
-function removeSeed(seedId: string): void {
-  // Remove from DOM
-  const symbol = seedDefs.querySelector(`#${seedId}`);
-  if (symbol) {
-    symbol.remove();
-  }
+// Update a seed's weight from its input in the seed list
+function setSeedWeight(seedId: string, input: HTMLInputElement): void {
+  const metadata = seedLibrary.get(seedId);
+  if (!metadata) return;
   
-  // Remove from tracking
-  seedSizes.delete(seedId);
-  seedMetadata.delete(seedId);
-  
-  // Remove from arrays
-  const smallIndex = smallSeeds.indexOf(seedId);
-  if (smallIndex > -1) {
-    smallSeeds.splice(smallIndex, 1);
+  const weight = parseFloat(input.value);
+  if (!Number.isFinite(weight) || weight < 0) {
+    input.value = metadata.weight.toString();
+    return;
   }
-  const largeIndex = largeSeeds.indexOf(seedId);
-  if (largeIndex > -1) {
-    largeSeeds.splice(largeIndex, 1);
+  
+  metadata.weight = weight;
+  if (metadata.storeKey !== undefined) {
+    updateStoredSeed(metadata.storeKey, { weight }).catch(e => console.warn('Failed to save seed weight', e));
   }
+  recordHistory(`weight-${seedId}`);
+  generatePattern();
+}
+
+// Rename a seed from its name field; a blank name falls back to the seed id
+function renameSeed(seedId: string, input: HTMLInputElement): void {
+  const metadata = seedLibrary.get(seedId);
+  if (!metadata) return;
   
-  seedCount--;
+  const filename = input.value.trim();
+  input.value = filename;
+  if (filename === metadata.filename) return;
+  metadata.filename = filename;
+  if (metadata.storeKey !== undefined) {
+    updateStoredSeed(metadata.storeKey, { filename }).catch(e => console.warn('Failed to save seed name', e));
+  }
+  recordHistory(`name-${seedId}`);
+  // Rule and cell pickers show seed names
+  updateRulesUI();
+  updateCellEditor();
+}
+
+// Replace a seed's tags from its tag field. The list keeps showing the seed
+// until it is next redrawn, even if it no longer matches the filter.
+function setSeedTags(seedId: string, input: HTMLInputElement): void {
+  const metadata = seedLibrary.get(seedId);
+  if (!metadata) return;
   
+  metadata.tags = parseTags(input.value);
+  input.value = metadata.tags.join(', ');
+  if (metadata.storeKey !== undefined) {
+    updateStoredSeed(metadata.storeKey, { tags: metadata.tags }).catch(e => console.warn('Failed to save seed tags', e));
+  }
+  recordHistory();
+  updateTagFilterUI();
+}
+
+// Switch seeds in or out of generation without removing them from the library
+function setSeedsEnabled(seeds: LibrarySeed[], enabled: boolean): void {
+  seeds.forEach(seed => {
+    seed.enabled = enabled;
+    if (seed.storeKey !== undefined) {
+      updateStoredSeed(seed.storeKey, { enabled }).catch(e => console.warn('Failed to save seed', e));
+    }
+  });
+  recordHistory();
   updateSeedListUI();
   generatePattern();
 }
 
-// Clear all seeds
-function clearSeeds(): void {
-  seedDefs.innerHTML = '';
-  seedCount = 0;
-  seedSizes.clear();
-  seedMetadata.clear();
-  smallSeeds.length = 0;
-  largeSeeds.length = 0;
+// Add a tag to, or remove it from, every seed shown in the seed list
+function tagShownSeeds(add: boolean): void {
+  const filter = seedTagFilterSelect.value;
+  const suggested = !add && filter.startsWith('tag:') ? filter.slice(4) : '';
+  const tag = prompt(add ? 'Tag the shown seeds with:' : 'Remove this tag from the shown seeds:', suggested)?.trim();
+  if (!tag) return;
   
+  Array.from(seedLibrary.values()).filter(isSeedShown).forEach(seed => {
+    const tags = add ? parseTags([...seed.tags, tag].join(',')) : seed.tags.filter(existing => existing !== tag);
+    if (tags.length === seed.tags.length) return;
+    seed.tags = tags;
+    if (seed.storeKey !== undefined) {
+      updateStoredSeed(seed.storeKey, { tags }).catch(e => console.warn('Failed to save seed tags', e));
+    }
+  });
+  recordHistory();
   updateSeedListUI();
-  generatePattern();
 }
 
-// Handle file upload
-async function handleFileUpload(files: FileList | null): Promise<void> {
-  if (!files || files.length === 0) return;
+// Move a seed to the place of another in the seed list. Generation sorts seeds
+// by id, so the pattern stays the same.
+function moveSeed(seedId: string, targetId: string): void {
+  const ids = Array.from(seedLibrary.keys());
+  const from = ids.indexOf(seedId);
+  const to = ids.indexOf(targetId);
+  if (from === -1 || to === -1 || from === to) return;
   
-  const errors: string[] = [];
-  let successCount = 0;
+  ids.splice(from, 1);
+  ids.splice(to, 0, seedId);
+  const seeds = ids.map(id => seedLibrary.get(id)!);
+  seedLibrary.clear();
+  seeds.forEach(seed => seedLibrary.set(seed.id, seed));
+  syncStoredSeeds(seeds).catch(e => console.warn('Failed to save seed order', e));
   
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
-    
-    // Check file type
-    if (!file.name.endsWith('.svg') && file.type !== 'image/svg+xml') {
-      errors.push(`${file.name}: Not an SVG file`);
-      continue;
-    }
-    
-    try {
-      const text = await file.text();
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(text, 'image/svg+xml');
-      const svgRoot = doc.documentElement as unknown as SVGElement;
-      
-      if (svgRoot.tagName !== 'svg') {
-        errors.push(`${file.name}: Invalid SVG format`);
-        continue;
-      }
-      
-      // Detect size
-      const size = detectSVGSize(svgRoot);
-      if (size === null) {
-        errors.push(`${file.name}: Must be exactly 200×200 or 400×400 pixels`);
+  recordHistory();
+  updateSeedListUI();
+}
+
+// Remove a single seed
+function removeSeed(seedId: string): void {
+  // Remove from persistent storage
+  const storeKey = seedLibrary.get(seedId)?.storeKey;
+  if (storeKey !== undefined) {
+    deleteStoredSeed(storeKey).catch(e => console.warn('Failed to delete stored seed', e));
+  }
+  
+  // Remove from tracking
+  seedLibrary.delete(seedId);
+  
+  // Drop rules and edited cells that mention the seed
+  state.rules.forbiddenPairs = state.rules.forbiddenPairs.filter(pair => !pair.includes(seedId));
+  state.cellOverrides = state.cellOverrides.filter(override => override.seedId !== seedId);
+  saveState();
+  
+  updateSeedListUI();
+  generatePattern();
+}
+
+// Remove every seed from memory and the DOM
+function resetSeedLibrary(): void {
+  seedLibrary.clear();
+}
+
+// Clear all seeds
+function clearSeeds(): void {
+  resetSeedLibrary();
+  
+  clearStoredSeeds().catch(e => console.warn('Failed to clear stored seeds', e));
+  
+  state.rules.forbiddenPairs = [];
+  state.cellOverrides = [];
+  saveState();
+  
+  updateSeedListUI();
+  generatePattern();
+}
+
+// Outcome of importing one seed file
+interface ImportResult {
+  filename: string;
+  error: string | null; // Why the file was not added
+  warnings: string[]; // Added, but changed on the way in
+}
+
+// List the files that were turned away or adjusted; clean imports need no report
+function showImportReport(results: ImportResult[]): void {
+  const problems = results.filter(result => result.error !== null || result.warnings.length > 0);
+  importReport.replaceChildren();
+  importReport.hidden = problems.length === 0;
+  if (problems.length === 0) return;
+  
+  const header = document.createElement('div');
+  header.className = 'import-report-header';
+  const summary = document.createElement('span');
+  const added = results.filter(result => result.error === null).length;
+  summary.textContent = `Added ${added} of ${results.length} file(s)`;
+  const dismissBtn = document.createElement('button');
+  dismissBtn.className = 'seed-remove';
+  dismissBtn.textContent = '×';
+  dismissBtn.title = 'Dismiss';
+  dismissBtn.addEventListener('click', () => {
+    importReport.hidden = true;
+  });
+  header.append(summary, dismissBtn);
+  importReport.appendChild(header);
+  
+  problems.forEach(result => {
+    const item = document.createElement('div');
+    item.className = `import-item ${result.error !== null ? 'error' : 'warning'}`;
+    const name = document.createElement('strong');
+    name.textContent = result.filename;
+    item.appendChild(name);
+    [result.error, ...result.warnings].forEach(message => {
+      if (message === null) return;
+      const line = document.createElement('div');
+      line.textContent = message;
+      item.appendChild(line);
+    });
+    importReport.appendChild(item);
+  });
+}
+
+// Handle file upload
+async function handleFileUpload(files: FileList | null): Promise<void> {
+  if (!files || files.length === 0) return;
+  
+  const results: ImportResult[] = [];
+  let successCount = 0;
+  
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const result: ImportResult = { filename: file.name, error: null, warnings: [] };
+    results.push(result);
+    
+    // Check file type
+    if (!file.name.endsWith('.svg') && file.type !== 'image/svg+xml') {
+      result.error = 'Not an SVG file';
+      continue;
+    }
+    
+    try {
+      const text = await file.text();
+      let svgRoot: XmlElement;
+      try {
+        svgRoot = parseSeedSvg(text);
+      } catch (error) {
+        result.error = `Invalid SVG format (${error instanceof Error ? error.message : 'Unknown error'})`;
         continue;
       }
       
-      // Add the SVG
-      addSVGSymbol(svgRoot, size, file.name);
+      // Strip scripts and remote references before anything reaches the page
+      const removed = sanitizeSvg(svgRoot);
+      
+      // Detect footprint, fitting off-size files as chosen
+      const { footprint, fit, warnings } = planSeedImport(svgRoot, state.tileSize, state.seedFit);
+      result.warnings = [...removed, ...warnings];
+      
+      // Add the SVG and persist it; sanitized files are stored as cleaned
+      const seedId = addSVGSymbol(svgRoot, footprint, file.name, fit);
+      await persistSeed(seedId, removed.length > 0 ? serializeXml(svgRoot) : text, fit);
       successCount++;
     } catch (error) {
-      errors.push(`${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      result.error = error instanceof Error ? error.message : 'Unknown error';
     }
   }
   
-  // Show results
-  if (errors.length > 0) {
-    alert(`Uploaded ${successCount} file(s) successfully.\n\nErrors:\n${errors.join('\n')}`);
-  } else if (successCount > 0) {
-    // Silent success if all files uploaded
-  }
+  showImportReport(results);
   
   // Regenerate pattern if any files were added
   if (successCount > 0) {
+    recordHistory();
     generatePattern();
   }
 }
 
-// Load SVGs from both svg-v2 (200x200, 1x1) and svg-large (400x400, 2x2) directories
-// (Kept for reference, but not called automatically)
+// Load SVGs from both svg-v2 (200x200, 1x1) and svg-large (400x400, 2x2) directories.
+// Called at startup for a new library; falls back to the built-in shapes when none load.
 async function loadDefaultSVGs(): Promise<void> {
   // Clear existing seeds
-  seedDefs.innerHTML = '';
-  seedCount = 0;
-  seedSizes.clear();
-  smallSeeds.length = 0;
-  largeSeeds.length = 0;
+  resetSeedLibrary();
+  
   // Small SVGs (200x200, 1x1 grid space)
   const smallSvgFiles = [
     '/svg-v2/Group-1.svg',
@@ -512,380 +1477,845 @@ async function loadDefaultSVGs(): Promise<void> {
     '/svg-large/pattern-3.svg'
   ];
   
-  try {
-    // Load small SVGs
-    for (const svgPath of smallSvgFiles) {
-      try {
-        const response = await fetch(svgPath);
-        if (response.ok) {
-          const text = await response.text();
-          const parser = new DOMParser();
-          const doc = parser.parseFromString(text, 'image/svg+xml');
-          const svgRoot = doc.documentElement as unknown as SVGElement;
-          
-          if (svgRoot.tagName === 'svg') {
-            // Extract filename from path
-            const filename = svgPath.split('/').pop() || svgPath;
-            addSVGSymbol(svgRoot, 1, filename); // 1x1 grid space
-          }
-        }
-      } catch (e) {
-        console.warn(`Failed to load ${svgPath}:`, e);
+  // Load small SVGs
+  for (const svgPath of smallSvgFiles) {
+    try {
+      const response = await fetch(svgPath);
+      if (response.ok) {
+        const text = await response.text();
+        const svgRoot = parseSeedSvg(text);
+        
+        // Extract filename from path
+        const filename = svgPath.split('/').pop() || svgPath;
+        const seedId = addSVGSymbol(svgRoot, singleCell, filename); // 1x1 grid space
+        await persistSeed(seedId, text);
       }
+    } catch (e) {
+      console.warn(`Failed to load ${svgPath}:`, e);
     }
-    
-    // Load large SVGs
-    for (const svgPath of largeSvgFiles) {
-      try {
-        const response = await fetch(svgPath);
-        if (response.ok) {
-          const text = await response.text();
-          const parser = new DOMParser();
-          const doc = parser.parseFromString(text, 'image/svg+xml');
-          const svgRoot = doc.documentElement as unknown as SVGElement;
-          
-          if (svgRoot.tagName === 'svg') {
-            // Extract filename from path
-            const filename = svgPath.split('/').pop() || svgPath;
-            addSVGSymbol(svgRoot, 2, filename); // 2x2 grid spaces
-          }
-        }
-      } catch (e) {
-        console.warn(`Failed to load ${svgPath}:`, e);
+  }
+  
+  // Load large SVGs
+  for (const svgPath of largeSvgFiles) {
+    try {
+      const response = await fetch(svgPath);
+      if (response.ok) {
+        const text = await response.text();
+        const svgRoot = parseSeedSvg(text);
+        
+        // Extract filename from path
+        const filename = svgPath.split('/').pop() || svgPath;
+        const seedId = addSVGSymbol(svgRoot, { width: 2, height: 2 }, filename); // 2x2 grid spaces
+        await persistSeed(seedId, text);
       }
+    } catch (e) {
+      console.warn(`Failed to load ${svgPath}:`, e);
     }
-  } catch (e) {
-    console.warn('Failed to load default SVGs, using fallback shapes:', e);
+  }
+  
+  if (seedLibrary.size === 0) {
+    console.warn('Failed to load default SVGs, using fallback shapes');
+    await createFallbackShapes();
   }
 }
 
-// Helper functions for grid occupancy tracking
-function getCellKey(row: number, col: number): string {
-  return `${row},${col}`;
+// Explain in the sidebar when the rules could not be met on this grid
+function updateConstraintReport(layout: Layout): void {
+  if (layout.blockedCells === 0) {
+    constraintReport.hidden = true;
+    constraintReport.textContent = '';
+    return;
+  }
+  
+  const rules = Array.from(layout.blockedBy, rule => RULE_LABELS[rule]).join(', ');
+  const cells = layout.blockedCells === 1 ? '1 cell' : `${layout.blockedCells} cells`;
+  constraintReport.textContent = `The rules can't be satisfied on a ${state.cols}×${state.rows} grid: ` +
+    `${cells} left empty after ${MAX_LAYOUT_ATTEMPTS} attempts (${rules}). ` +
+    'Add seeds or relax the rules.';
+  constraintReport.hidden = false;
 }
 
-function isOccupied(occupied: Set<string>, row: number, col: number): boolean {
-  return occupied.has(getCellKey(row, col));
+// Build the pattern document for the enabled seeds and the given settings; with
+// none it holds just the background and a hint
+function buildCurrentPattern(settings: PatternSettings = state): { svg: XmlElement; layout: Layout } {
+  const seeds = getActiveSeeds();
+  const layout: Layout = seeds.length > 0
+    ? layoutPattern(seeds, settings)
+    : { placements: [], blockedCells: 0, blockedBy: new Set<ConstraintRule>() };
+  const svg = buildPatternSvg(seeds, settings, layout);
+  
+  // Show empty state if no seeds
+  if (seeds.length === 0) {
+    const messageGroup = createElement('g', { id: 'empty-state-message' });
+    const text = createElement('text', {
+      x: settings.cols * settings.tileSize / 2,
+      y: settings.rows * settings.tileSize / 2,
+      'text-anchor': 'middle',
+      'dominant-baseline': 'middle',
+      fill: '#999',
+      'font-family': 'system-ui, -apple-system, sans-serif',
+      'font-size': 32
+    });
+    setTextContent(text, seedLibrary.size > 0 ? 'Enable seeds to generate a pattern' : 'Upload seeds to generate a pattern');
+    appendChild(messageGroup, text);
+    appendChild(svg, messageGroup);
+  }
+  
+  return { svg, layout };
 }
 
-function markOccupied(occupied: Set<string>, row: number, col: number, size: number): void {
-  for (let r = row; r < row + size; r++) {
-    for (let c = col; c < col + size; c++) {
-      occupied.add(getCellKey(r, c));
-    }
+// Generate the pattern with multi-size support
+function generatePattern(): void {
+  // Until every seed's tone is measured, mosaic mode falls back to the random pick
+  if (state.mosaic.enabled && state.mosaic.image) measureSeedTones();
+  const { svg, layout } = buildCurrentPattern();
+  currentLayout = layout;
+  updateConstraintReport(layout);
+  updatePrintReport();
+  
+  // Replace the preview's content with the new document
+  ['width', 'height', 'viewBox'].forEach(name => preview.setAttribute(name, svg.attributes.get(name) ?? ''));
+  preview.replaceChildren(...svg.children.map(toDom));
+  markActiveVariant();
+  drawCellMarkers();
+  updateCellEditor();
+}
+
+// The tile covering a cell, if any
+function findPlacementAt(row: number, col: number): Placement | undefined {
+  return currentLayout?.placements.find(placement => {
+    const placed = rotateFootprint(placement.footprint, placement.rotation);
+    // Offsets are wrapped so seamless tiles crossing an edge are found too
+    const dRow = ((row - placement.row) % state.rows + state.rows) % state.rows;
+    const dCol = ((col - placement.col) % state.cols + state.cols) % state.cols;
+    return dRow < placed.height && dCol < placed.width;
+  });
+}
+
+function findOverride(row: number, col: number): CellOverride | undefined {
+  return state.cellOverrides.find(override => override.row === row && override.col === col);
+}
+
+// Outline edited and locked tiles and the selected one. These live only in the
+// preview; exports are rebuilt from the core document.
+function drawCellMarkers(): void {
+  const markers = document.createElementNS(SVG_NS, 'g');
+  markers.setAttribute('id', 'cell-markers');
+  markers.setAttribute('fill', 'none');
+  markers.setAttribute('pointer-events', 'none');
+  const strokeWidth = Math.max(2, state.tileSize / 25);
+  
+  const outline = (row: number, col: number, stroke: string, dash: string | null): void => {
+    const placement = findPlacementAt(row, col);
+    const placed = placement && placement.row === row && placement.col === col
+      ? rotateFootprint(placement.footprint, placement.rotation)
+      : singleCell;
+    const rect = document.createElementNS(SVG_NS, 'rect');
+    rect.setAttribute('x', String(col * state.tileSize + strokeWidth / 2));
+    rect.setAttribute('y', String(row * state.tileSize + strokeWidth / 2));
+    rect.setAttribute('width', String(placed.width * state.tileSize - strokeWidth));
+    rect.setAttribute('height', String(placed.height * state.tileSize - strokeWidth));
+    rect.setAttribute('stroke', stroke);
+    rect.setAttribute('stroke-width', String(strokeWidth));
+    if (dash) rect.setAttribute('stroke-dasharray', dash);
+    markers.appendChild(rect);
+  };
+  
+  state.cellOverrides.forEach(override => {
+    outline(override.row, override.col, override.locked ? '#F5FC9F' : '#999', `${strokeWidth * 3} ${strokeWidth * 2}`);
+  });
+  if (selectedCell) {
+    outline(selectedCell.row, selectedCell.col, '#F5FC9F', null);
   }
+  preview.appendChild(markers);
+}
+
+// Select the tile under the pointer for editing
+function selectCell(e: MouseEvent): void {
+  const rect = preview.getBoundingClientRect();
+  const col = Math.floor((e.clientX - rect.left) / rect.width * state.cols);
+  const row = Math.floor((e.clientY - rect.top) / rect.height * state.rows);
+  if (row < 0 || row >= state.rows || col < 0 || col >= state.cols) return;
+  
+  const placement = findPlacementAt(row, col);
+  selectedCell = placement ? { row: placement.row, col: placement.col } : { row, col };
+  drawSelection();
 }
 
-function canPlaceLarge(occupied: Set<string>, row: number, col: number, rows: number, cols: number): boolean {
-  // Check if we can place a 2x2 starting at (row, col)
-  if (row + 1 >= rows || col + 1 >= cols) return false;
-  return !isOccupied(occupied, row, col) &&
-         !isOccupied(occupied, row, col + 1) &&
-         !isOccupied(occupied, row + 1, col) &&
-         !isOccupied(occupied, row + 1, col + 1);
+function deselectCell(): void {
+  selectedCell = null;
+  drawSelection();
 }
 
-// Generate clustered empty cells for dark background to show through
-function generateEmptyClusters(rows: number, cols: number, rng: () => number): Set<string> {
-  const emptyCells = new Set<string>();
+function drawSelection(): void {
+  preview.querySelector('#cell-markers')?.remove();
+  drawCellMarkers();
+  updateCellEditor();
+}
+
+// Show the selected tile in the cell editor
+function updateCellEditor(): void {
+  if (selectedCell && (selectedCell.row >= state.rows || selectedCell.col >= state.cols)) {
+    selectedCell = null;
+  }
+  cellEditor.hidden = selectedCell === null;
+  if (!selectedCell) return;
   
-  // Number of cluster seeds (adjust for desired density)
-  const numClusters = Math.floor(rows * cols * 0.12); // ~12% of cells will be cluster seeds
-  const clusterSeeds: Array<[number, number]> = [];
+  const { row, col } = selectedCell;
+  const override = findOverride(row, col);
+  const placement = findPlacementAt(row, col);
+  const seedId = override ? override.seedId : placement?.row === row && placement.col === col ? placement.seed.id : null;
   
-  // Generate random cluster seed positions (avoid top and bottom rows)
-  for (let i = 0; i < numClusters; i++) {
-    // Avoid first row (0) and last row (rows-1) to prevent black strips at top/bottom
-    const row = Math.floor(rng() * (rows - 2)) + 1; // Range: 1 to rows-2
-    const col = Math.floor(rng() * cols);
-    clusterSeeds.push([row, col]);
+  cellEditorTitle.textContent = `Cell ${row + 1}, ${col + 1}${override ? ' (edited)' : ''}`;
+  cellSeedSelect.innerHTML = '';
+  cellSeedSelect.appendChild(new Option('(empty)', ''));
+  getActiveSeeds().forEach(({ id, filename, footprint }) => {
+    cellSeedSelect.appendChild(new Option(`${filename || id} (${footprint.width}×${footprint.height})`, id));
+  });
+  cellSeedSelect.value = seedId ?? '';
+  
+  [cellRotateBtn, cellFlipXBtn, cellFlipYBtn, cellClearBtn].forEach(button => {
+    button.disabled = seedId === null;
+  });
+  cellLockCheck.checked = override?.locked ?? false;
+  cellResetBtn.disabled = !override;
+}
+
+// The selected tile as an override, starting from what the layout placed there
+function captureSelectedCell(): CellOverride {
+  const { row, col } = selectedCell!;
+  const existing = findOverride(row, col);
+  if (existing) return { ...existing };
+  
+  const placement = findPlacementAt(row, col);
+  if (placement && placement.row === row && placement.col === col) {
+    const { seed, rotation, scaleX, scaleY, offsetX, offsetY, paletteSlots } = placement;
+    return { row, col, seedId: seed.id, rotation, scaleX, scaleY, offsetX, offsetY, paletteSlots, locked: false };
   }
+  return { row, col, seedId: null, rotation: 0, scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0, paletteSlots: null, locked: false };
+}
+
+// Apply a change to the selected tile, refusing ones that don't fit
+function editSelectedCell(change: (override: CellOverride) => void): void {
+  if (!selectedCell) return;
+  const override = captureSelectedCell();
+  change(override);
   
-  // For each seed, create a cluster using distance-based probability
-  for (const [seedRow, seedCol] of clusterSeeds) {
-    // Mark the seed as empty
-    emptyCells.add(getCellKey(seedRow, seedCol));
-    
-    // Expand cluster to nearby cells (smaller radius for tighter clusters)
-    const clusterRadius = 1; // Maximum distance from seed (reduced from 2)
-    for (let r = Math.max(1, seedRow - clusterRadius); r <= Math.min(rows - 2, seedRow + clusterRadius); r++) {
-      for (let c = Math.max(0, seedCol - clusterRadius); c <= Math.min(cols - 1, seedCol + clusterRadius); c++) {
-        // Skip if already marked as empty
-        if (emptyCells.has(getCellKey(r, c))) continue;
-        
-        // Calculate distance from seed
-        const distance = Math.sqrt((r - seedRow) ** 2 + (c - seedCol) ** 2);
-        
-        // Probability decreases with distance (closer = more likely to be empty)
-        const maxDistance = clusterRadius * 1.5;
-        const probability = Math.max(0, 1 - (distance / maxDistance));
-        
-        // Add some randomness but favor closer cells (reduced probability for smaller clusters)
-        if (rng() < probability * 0.35) {
-          emptyCells.add(getCellKey(r, c));
-        }
-      }
-    }
+  const seeds = getActiveSeeds();
+  const others = state.cellOverrides.filter(other => other.row !== override.row || other.col !== override.col);
+  const cells = getOverrideCells(override, seeds, state);
+  const taken = new Set(others.flatMap(other => getOverrideCells(other, seeds, state) ?? []));
+  if (!cells) {
+    alert('That tile does not fit here');
+  } else if (cells.some(key => taken.has(key))) {
+    alert('That tile would overlap another edited cell');
+  } else {
+    state.cellOverrides = [...others, override];
+    saveState();
+    generatePattern();
+    return;
   }
+  updateCellEditor();
+}
+
+// Drop the selected cell's edits so the generated tile returns
+function resetSelectedCell(): void {
+  if (!selectedCell) return;
+  const { row, col } = selectedCell;
+  state.cellOverrides = state.cellOverrides.filter(override => override.row !== row || override.col !== col);
+  saveState();
+  generatePattern();
+}
+
+// Trigger a browser download for a blob
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Export SVG
+function downloadSVG(): void {
+  // Rebuilt rather than copied from the preview, so the file matches the CLI's output exactly
+  const svgString = exportPatternSvg(buildCurrentPattern().svg, state.svgExport);
   
-  return emptyCells;
+  // Create blob and download
+  const blob = new Blob([svgString], { type: 'image/svg+xml' });
+  downloadBlob(blob, `pattern-${state.seed || 'export'}.svg`);
 }
 
-// Generate the pattern with multi-size support
-function generatePattern(): void {
-  // Clear previous pattern
-  const existing = preview.querySelectorAll('g[data-cell]');
-  existing.forEach(el => el.remove());
+// Export the pattern as a PNG, JPEG or WebP image
+async function downloadRaster(): Promise<void> {
+  const totalWidth = state.cols * state.tileSize;
+  const totalHeight = state.rows * state.tileSize;
+  const format = rasterFormatSelect.value as RasterFormat;
   
-  // Clear any existing empty state message
-  const existingMessage = preview.querySelector('#empty-state-message');
-  if (existingMessage) {
-    existingMessage.remove();
+  // Size is either a multiplier of the pattern's own size or a target pixel width
+  const sizeValue = parseFloat(rasterSizeInput.value);
+  const dpi = parseFloat(rasterDpiInput.value);
+  if (!(sizeValue > 0) || !(dpi > 0)) {
+    alert('Enter a positive image size and DPI');
+    return;
   }
+  const width = Math.round(rasterSizeModeSelect.value === 'scale' ? totalWidth * sizeValue : sizeValue);
+  const height = Math.round(width * totalHeight / totalWidth);
   
-  // Show empty state if no seeds
-  if (seedCount === 0) {
-    const totalWidth = state.cols * state.tileSize;
-    const totalHeight = state.rows * state.tileSize;
-    
-    // Set SVG attributes
-    preview.setAttribute('width', totalWidth.toString());
-    preview.setAttribute('height', totalHeight.toString());
-    preview.setAttribute('viewBox', `0 0 ${totalWidth} ${totalHeight}`);
-    
-    // Add background rectangle
-    const existingBg = preview.querySelector('#background-rect');
-    if (existingBg) {
-      existingBg.remove();
+  const clone = preview.cloneNode(true) as SVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink');
+  clone.querySelector('#border-rect')?.remove();
+  clone.querySelector('#cell-markers')?.remove();
+  
+  // JPEG has no alpha channel, so a transparent background becomes white
+  const background = clone.querySelector('#background-rect');
+  if (rasterBackgroundSelect.value === 'transparent') {
+    if (format === 'jpeg') {
+      background?.setAttribute('fill', '#fff');
+    } else {
+      background?.remove();
     }
-    const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    bgRect.setAttribute('x', '0');
-    bgRect.setAttribute('y', '0');
-    bgRect.setAttribute('width', totalWidth.toString());
-    bgRect.setAttribute('height', totalHeight.toString());
-    bgRect.setAttribute('fill', '#1E1E1E');
-    bgRect.setAttribute('id', 'background-rect');
-    preview.insertBefore(bgRect, preview.firstChild);
-    
-    // Add border rectangle
-    const existingBorder = preview.querySelector('#border-rect');
-    if (existingBorder) {
-      existingBorder.remove();
+  } else if (rasterBackgroundSelect.value === 'custom') {
+    background?.setAttribute('fill', rasterBackgroundColorInput.value);
+  }
+  
+  const buttonContent = downloadRasterBtn.innerHTML;
+  downloadRasterBtn.disabled = true;
+  downloadRasterBtn.textContent = `Rendering ${width}×${height}…`;
+  try {
+    const blob = await renderRaster(clone, totalWidth, totalHeight, { format, width, height, dpi, quality: 0.92 });
+    const extension = format === 'jpeg' ? 'jpg' : format;
+    downloadBlob(blob, `pattern-${state.seed || 'export'}.${extension}`);
+  } catch (error) {
+    alert(`Image export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    downloadRasterBtn.disabled = false;
+    downloadRasterBtn.innerHTML = buttonContent;
+  }
+}
+
+// Plan the animation of the current pattern. A crossfade ends on the layout of
+// another seed string, which like a variant keeps only the locked cells.
+function buildAnimation(): PatternAnimation {
+  const { animation } = state;
+  const second = animation.mode === 'crossfade'
+    ? buildCurrentPattern({
+      ...state,
+      seed: getCrossfadeSeed(state.seed, animation),
+      cellOverrides: state.cellOverrides.filter(override => override.locked)
+    }).svg
+    : null;
+  return prepareAnimation(buildCurrentPattern().svg, state, animation, second);
+}
+
+// Export the pattern as an SVG that animates itself with SMIL or CSS
+function downloadAnimatedSVG(): void {
+  const animation = buildAnimation();
+  addAnimationMarkup(animation);
+  const svgString = exportPatternSvg(animation.svg, state.svgExport);
+  const blob = new Blob([svgString], { type: 'image/svg+xml' });
+  downloadBlob(blob, `pattern-${state.seed || 'export'}-${state.animation.mode}.svg`);
+}
+
+// Render the animation frame by frame and export it as an animated GIF or PNG
+async function downloadAnimationFrames(): Promise<void> {
+  const width = parseGridValue(frameWidthInput.value, frameLimits.width);
+  const rate = parseGridValue(frameRateInput.value, frameLimits.rate);
+  if (width === null || rate === null) {
+    alert(`Enter a frame width from ${frameLimits.width.min} to ${frameLimits.width.max} px and a frame rate from ${frameLimits.rate.min} to ${frameLimits.rate.max} fps`);
+    return;
+  }
+  const frameCount = Math.max(1, Math.round(state.animation.duration * rate));
+  if (frameCount > MAX_FRAMES) {
+    alert(`That is ${frameCount} frames; lower the frame rate or duration to stay within ${MAX_FRAMES}`);
+    return;
+  }
+  const height = Math.max(1, Math.round(width * state.rows / state.cols));
+  const format = frameFormatSelect.value === 'apng' ? 'apng' : 'gif';
+
+  // Optimized once up front; each frame then only changes opacities and rotations
+  const animation = buildAnimation();
+  optimizeSvgExport(animation.svg, { ...state.svgExport, stripEditorElements: true });
+
+  const buttonContent = downloadFramesBtn.innerHTML;
+  downloadFramesBtn.disabled = true;
+  try {
+    const frames: Uint8ClampedArray[] = [];
+    for (let i = 0; i < frameCount; i++) {
+      downloadFramesBtn.textContent = `Rendering frame ${i + 1}/${frameCount}…`;
+      poseAnimationFrame(animation, i / rate);
+      frames.push(await renderFramePixels(serializeXml(animation.svg), width, height));
     }
-    const borderRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    borderRect.setAttribute('x', '0');
-    borderRect.setAttribute('y', '0');
-    borderRect.setAttribute('width', totalWidth.toString());
-    borderRect.setAttribute('height', totalHeight.toString());
-    borderRect.setAttribute('fill', 'none');
-    borderRect.setAttribute('stroke', '#D3D3D3');
-    borderRect.setAttribute('stroke-width', '2');
-    borderRect.setAttribute('id', 'border-rect');
-    preview.insertBefore(borderRect, preview.firstChild);
+    downloadFramesBtn.textContent = `Encoding ${format.toUpperCase()}…`;
+    const options = { width, height, delay: 1000 / rate, loop: state.animation.loop };
+    const blob = format === 'apng' ? await encodeApng(frames, options) : encodeGif(frames, options);
+    downloadBlob(blob, `pattern-${state.seed || 'export'}-${state.animation.mode}.${format === 'apng' ? 'png' : 'gif'}`);
+  } catch (error) {
+    alert(`Animation export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    downloadFramesBtn.disabled = false;
+    downloadFramesBtn.innerHTML = buttonContent;
+  }
+}
+
+// Show the trimmed height, which follows from the width and the grid's proportions
+function updatePrintInfo(): void {
+  const { trim } = getPrintGeometry(state, state.print);
+  printHeightInfo.textContent = `× ${Math.round(trim.height * 100) / 100} ${state.print.unit}`;
+}
+
+// List the colours in use that a CMYK press is likely to print duller: the
+// background and either the palette or, without recolouring, the seeds' own colours
+function updatePrintReport(): void {
+  const colors = new Set([state.background, ...(state.colorize ? state.palette : getActiveSeeds().flatMap(seed => seed.colors))]);
+  const outside = state.print.checkColors ? Array.from(colors).filter(isOutsideCmykGamut) : [];
+  printReport.hidden = outside.length === 0;
+  printReport.textContent = outside.length === 0
+    ? ''
+    : `${outside.length === 1 ? 'This colour is' : 'These colours are'} likely to print duller in CMYK: ${outside.join(', ')}. ` +
+      'Ask your printer for a proof.';
+}
+
+// The pattern as a print document: physical size, bleed generated beyond the trim,
+// and marks. Null, after telling the user, when there is nothing to print.
+function buildCurrentPrint(): PrintDocument | null {
+  const seeds = getActiveSeeds();
+  if (seeds.length === 0) {
+    alert('Add or enable seeds before exporting for print');
+    return null;
+  }
+  return buildPrintSvg(seeds, state, currentLayout ?? buildCurrentPattern().layout, state.print, state.svgExport);
+}
+
+function downloadPrintSVG(): void {
+  const printDocument = buildCurrentPrint();
+  if (!printDocument) return;
+  const svgString = serializeXml(printDocument.svg);
+  const blob = new Blob([svgString], { type: 'image/svg+xml' });
+  downloadBlob(blob, `pattern-${state.seed || 'export'}-print.svg`);
+}
+
+// Export the print document as a vector PDF, reporting anything it had to leave out
+function downloadPDF(): void {
+  const printDocument = buildCurrentPrint();
+  if (!printDocument) return;
+  try {
+    const { svg, geometry } = printDocument;
+    const { data, warnings } = renderPdf(svg, { title: `Pattern ${state.seed}`, trim: geometry.trim, bleed: geometry.bleed });
+    downloadBlob(new Blob([data] as BlobPart[], { type: 'application/pdf' }), `pattern-${state.seed || 'export'}-print.pdf`);
+    if (warnings.length > 0) alert(`The PDF differs from the SVG:\n${warnings.map(warning => `• ${warning}`).join('\n')}`);
+  } catch (error) {
+    alert(`PDF export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Read a print length in the current unit, within limits given in millimetres
+function readPrintLength(input: HTMLInputElement, limits: { min: number; max: number }, unit: PrintUnit, current: number): number {
+  const value = parseFloat(input.value);
+  const mm = value * MM_PER_UNIT[unit];
+  const valid = mm >= limits.min && mm <= limits.max;
+  input.classList.toggle('invalid', !valid);
+  input.title = valid
+    ? ''
+    : `Enter a number from ${roundPrintLength(limits.min / MM_PER_UNIT[unit])} to ${roundPrintLength(limits.max / MM_PER_UNIT[unit])}`;
+  return valid ? value : current;
+}
+
+function roundPrintLength(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Switching units converts the sizes rather than reinterpreting them
+function changePrintUnit(): void {
+  const unit = printUnitSelect.value as PrintUnit;
+  const factor = MM_PER_UNIT[state.print.unit] / MM_PER_UNIT[unit];
+  printWidthInput.value = roundPrintLength(state.print.width * factor).toString();
+  printBleedInput.value = roundPrintLength(state.print.bleed * factor).toString();
+  updateState();
+}
+
+// Export the pattern as an SVG <pattern> definition that fills the document and repeats seamlessly
+function downloadPatternSVG(): void {
+  const svgString = exportRepeatingPatternSvg(buildCurrentPattern().svg, state.svgExport);
+  const blob = new Blob([svgString], { type: 'image/svg+xml' });
+  downloadBlob(blob, `pattern-${state.seed || 'export'}-repeat.svg`);
+}
+
+// Highlight the variant currently shown in the main preview
+function markActiveVariant(): void {
+  Array.from(batchGrid.children).forEach(card => {
+    card.classList.toggle('active', (card as HTMLElement).dataset.seed === state.seed);
+  });
+}
+
+// Rebuild the contact sheet from the current batch
+function updateVariantGallery(): void {
+  batchGallery.hidden = variants.length === 0;
+  batchGrid.innerHTML = '';
+  
+  variants.forEach(variant => {
+    const card = document.createElement('div');
+    card.className = 'variant-card';
+    card.dataset.seed = variant.seed;
+    card.classList.toggle('starred', variant.starred);
     
-    // Add empty state message
-    const messageGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-    messageGroup.setAttribute('id', 'empty-state-message');
+    const thumbnail = document.createElement('img');
+    thumbnail.src = variant.url;
+    thumbnail.alt = variant.seed;
+    thumbnail.title = 'Show in the preview';
+    thumbnail.addEventListener('click', () => promoteVariant(variant));
     
-    const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
-    text.setAttribute('x', (totalWidth / 2).toString());
-    text.setAttribute('y', (totalHeight / 2).toString());
-    text.setAttribute('text-anchor', 'middle');
-    text.setAttribute('dominant-baseline', 'middle');
-    text.setAttribute('fill', '#999');
-    text.setAttribute('font-family', 'system-ui, -apple-system, sans-serif');
-    text.setAttribute('font-size', '32');
-    text.textContent = 'Upload seeds to generate a pattern';
+    const caption = document.createElement('div');
+    caption.className = 'variant-caption';
+    const name = document.createElement('span');
+    name.className = 'variant-seed';
+    name.textContent = variant.seed;
+    name.title = variant.seed;
+    const starBtn = document.createElement('button');
+    starBtn.className = 'variant-star';
+    starBtn.textContent = variant.starred ? '★' : '☆';
+    starBtn.title = variant.starred ? 'Unstar' : 'Star';
+    starBtn.addEventListener('click', () => {
+      variant.starred = !variant.starred;
+      updateVariantGallery();
+    });
+    caption.appendChild(name);
+    caption.appendChild(starBtn);
     
-    messageGroup.appendChild(text);
-    preview.appendChild(messageGroup);
+    card.appendChild(thumbnail);
+    card.appendChild(caption);
+    batchGrid.appendChild(card);
+  });
+  
+  const starredCount = variants.filter(variant => variant.starred).length;
+  downloadStarredBtn.disabled = starredCount === 0;
+  downloadStarredBtn.lastChild!.textContent = ` Download Starred (${starredCount})`;
+  markActiveVariant();
+}
+
+function clearVariants(): void {
+  variants.forEach(variant => URL.revokeObjectURL(variant.url));
+  variants = [];
+}
+
+// Generate a batch of variants from seed strings derived from the current one
+async function generateVariants(): Promise<void> {
+  const count = parseGridValue(batchCountInput.value, batchLimits);
+  batchCountInput.classList.toggle('invalid', count === null);
+  if (count === null) {
+    alert(`Enter a variant count from ${batchLimits.min} to ${batchLimits.max}`);
+    return;
+  }
+  if (getActiveSeeds().length === 0) {
+    alert('Upload or enable seeds to generate variants');
     return;
   }
   
-  // Calculate dimensions (seamless grid, no gutter)
-  const totalWidth = state.cols * state.tileSize;
-  const totalHeight = state.rows * state.tileSize;
+  clearVariants();
+  variantBase = state.seed;
   
-  // Set SVG attributes
-  preview.setAttribute('width', totalWidth.toString());
-  preview.setAttribute('height', totalHeight.toString());
-  preview.setAttribute('viewBox', `0 0 ${totalWidth} ${totalHeight}`);
-  
-  // Add background rectangle that matches the exact pattern dimensions
-  // Remove existing background if present
-  const existingBg = preview.querySelector('#background-rect');
-  if (existingBg) {
-    existingBg.remove();
-  }
-  const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-  bgRect.setAttribute('x', '0');
-  bgRect.setAttribute('y', '0');
-  bgRect.setAttribute('width', totalWidth.toString());
-  bgRect.setAttribute('height', totalHeight.toString());
-  bgRect.setAttribute('fill', '#1E1E1E');
-    bgRect.setAttribute('id', 'background-rect');
-    preview.insertBefore(bgRect, preview.firstChild);
-    
-    // Add border rectangle
-    const existingBorder2 = preview.querySelector('#border-rect');
-    if (existingBorder2) {
-      existingBorder2.remove();
-    }
-    const borderRect2 = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    borderRect2.setAttribute('x', '0');
-    borderRect2.setAttribute('y', '0');
-    borderRect2.setAttribute('width', totalWidth.toString());
-    borderRect2.setAttribute('height', totalHeight.toString());
-    borderRect2.setAttribute('fill', 'none');
-    borderRect2.setAttribute('stroke', '#D3D3D3');
-    borderRect2.setAttribute('stroke-width', '2');
-    borderRect2.setAttribute('id', 'border-rect');
-    preview.insertBefore(borderRect2, preview.firstChild);
-    
-    // Initialize RNG
-  const seedHash = hashSeed(state.seed);
-  const rng = mulberry32(seedHash);
-  
-  // Generate clustered empty cells (black will show through) if enabled
-  const emptyCells = state.blackClustering 
-    ? generateEmptyClusters(state.rows, state.cols, rng)
-    : new Set<string>();
-  
-  // Track occupied cells
-  const occupied = new Set<string>();
-  
-  // Generate grid with multi-size placement
-  for (let row = 0; row < state.rows; row++) {
-    for (let col = 0; col < state.cols; col++) {
-      // Skip if cell is already occupied
-      if (isOccupied(occupied, row, col)) {
-        continue;
-      }
-      
-      // Skip if this cell is marked as empty (black background shows through)
-      if (emptyCells.has(getCellKey(row, col))) {
-        continue;
-      }
-      
-      // Decide whether to place large or small SVG
-      // 30% chance to try large if available and space allows
-      let size = 1;
-      let seedId: string;
-      
-      // Check if large SVG can be placed (not occupied and not in empty cluster)
-      const canPlaceLargeHere = largeSeeds.length > 0 && 
-        canPlaceLarge(occupied, row, col, state.rows, state.cols) &&
-        !emptyCells.has(getCellKey(row, col)) &&
-        !emptyCells.has(getCellKey(row, col + 1)) &&
-        !emptyCells.has(getCellKey(row + 1, col)) &&
-        !emptyCells.has(getCellKey(row + 1, col + 1));
-      
-      if (canPlaceLargeHere && rng() < 0.3) {
-        // Place large SVG (2x2)
-        size = 2;
-        const largeIndex = Math.floor(rng() * largeSeeds.length);
-        seedId = largeSeeds[largeIndex];
-        markOccupied(occupied, row, col, 2);
-      } else if (smallSeeds.length > 0) {
-        // Place small SVG (1x1)
-        size = 1;
-        const smallIndex = Math.floor(rng() * smallSeeds.length);
-        seedId = smallSeeds[smallIndex];
-        markOccupied(occupied, row, col, 1);
-      } else {
-        // Fallback: use any available seed
-        const seedIndex = Math.floor(rng() * seedCount);
-        seedId = `seed-${seedIndex}`;
-        size = seedSizes.get(seedId) || 1;
-        markOccupied(occupied, row, col, size);
-      }
-      
-      const x = col * state.tileSize;
-      const y = row * state.tileSize;
-      const svgSize = size * state.tileSize;
-      
-      // Random rotation
-      let rotation = 0;
-      if (state.randomRotation) {
-        const rotations = [0, 90, 180, 270];
-        rotation = rotations[Math.floor(rng() * rotations.length)];
-      }
-      
-      // Random flip
-      let scaleX = 1;
-      let scaleY = 1;
-      if (state.allowFlips && rng() > 0.5) {
-        scaleX *= -1;
-      }
-      
-      // Create cell group
-      const cellGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-      cellGroup.setAttribute('data-cell', `${row}-${col}`);
-      
-      // Build transform string - translate to cell position, then apply rotation/flip
-      // For rotation/flip, we translate to center, transform, then translate back
-      const transforms: string[] = [];
-      transforms.push(`translate(${x + svgSize / 2}, ${y + svgSize / 2})`);
-      if (rotation !== 0) {
-        transforms.push(`rotate(${rotation})`);
-      }
-      if (scaleX !== 1 || scaleY !== 1) {
-        transforms.push(`scale(${scaleX}, ${scaleY})`);
-      }
-      transforms.push(`translate(${-svgSize / 2}, ${-svgSize / 2})`);
-      cellGroup.setAttribute('transform', transforms.join(' '));
-      
-      // Create use element - fill the entire cell(s)
-      const use = document.createElementNS('http://www.w3.org/2000/svg', 'use');
-      use.setAttribute('href', `#${seedId}`);
-      use.setAttribute('x', '0');
-      use.setAttribute('y', '0');
-      use.setAttribute('width', svgSize.toString());
-      use.setAttribute('height', svgSize.toString());
-      cellGroup.appendChild(use);
-      
-      preview.appendChild(cellGroup);
+  const buttonContent = generateBatchBtn.innerHTML;
+  generateBatchBtn.disabled = true;
+  try {
+    for (let i = 1; i <= count; i++) {
+      generateBatchBtn.textContent = `Generating ${i}/${count}…`;
+      const seed = `${variantBase}-${i}`;
+      // Like randomizing, only locked cells carry over to another seed string
+      const settings = { ...state, seed, cellOverrides: state.cellOverrides.filter(override => override.locked) };
+      const svg = exportPatternSvg(buildCurrentPattern(settings).svg, state.svgExport);
+      const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+      variants.push({ seed, svg, url, starred: false });
+      updateVariantGallery();
+      // Let the thumbnail and progress paint before the next one
+      await new Promise(resolve => setTimeout(resolve));
     }
+  } finally {
+    generateBatchBtn.disabled = false;
+    generateBatchBtn.innerHTML = buttonContent;
   }
 }
 
-// Export SVG
-function downloadSVG(): void {
-  // Clone the SVG to avoid modifying the original
-  const clone = preview.cloneNode(true) as SVGElement;
+// Show a variant in the main preview by switching to its seed string
+function promoteVariant(variant: Variant): void {
+  seedInput.value = variant.seed;
+  updateState();
+  preview.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+}
+
+// Download the starred variants as a zip, one SVG per seed string
+function downloadStarredVariants(): void {
+  const encoder = new TextEncoder();
+  const entries = variants
+    .filter(variant => variant.starred)
+    .map(variant => ({ name: `pattern-${variant.seed}.svg`, data: encoder.encode(variant.svg) }));
+  if (entries.length === 0) return;
+  downloadBlob(createZip(entries), `pattern-variants-${variantBase || 'export'}.zip`);
+}
+
+// Export every seed and the full settings as a single project file
+function exportProject(): void {
+  const seeds: BundleSeed[] = [];
+  seedLibrary.forEach((metadata, seedId) => {
+    seeds.push({
+      id: seedId,
+      filename: metadata.filename,
+      footprint: metadata.footprint,
+      weight: metadata.weight,
+      ...(!metadata.enabled && { enabled: false }),
+      ...(metadata.tags.length > 0 && { tags: metadata.tags }),
+      ...(metadata.tone && { tone: metadata.tone }),
+      svg: getSeedSvg(metadata)
+    });
+  });
   
-  // Ensure all attributes are set
-  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
-  clone.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink');
+  const bundle = createBundle(state, seeds);
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `pattern-project-${state.seed || 'export'}.json`);
+}
+
+// Replace the seed library and settings with those from a project file
+async function importProject(file: File): Promise<void> {
+  let parsed: ReturnType<typeof parseBundle>;
+  try {
+    parsed = parseBundle(await file.text());
+  } catch (error) {
+    alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return;
+  }
   
-  // Serialize
-  const serializer = new XMLSerializer();
-  const svgString = serializer.serializeToString(clone);
+  const { bundle, warnings } = parsed;
+  if (warnings.length > 0 && !confirm(`${warnings.join('\n')}\n\nImport anyway?`)) {
+    return;
+  }
   
-  // Create blob and download
-  const blob = new Blob([svgString], { type: 'image/svg+xml' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = `pattern-${state.seed || 'export'}.svg`;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+  // Seeds are re-added in their original order, so the list looks the same
+  resetSeedLibrary();
+  try {
+    await clearStoredSeeds();
+  } catch (e) {
+    console.warn('Failed to clear stored seeds', e);
+  }
+  
+  const results: ImportResult[] = [];
+  const seedIds = new Map<string, string>(); // Bundle id -> library id, for bundles with numbered ids
+  for (const seed of bundle.seeds) {
+    const result: ImportResult = { filename: seed.filename || seed.id, error: null, warnings: [] };
+    results.push(result);
+    let svgRoot: XmlElement;
+    try {
+      svgRoot = parseSeedSvg(seed.svg);
+    } catch {
+      result.error = 'Invalid SVG format';
+      continue;
+    }
+    result.warnings = sanitizeSvg(svgRoot);
+    let seedId: string;
+    try {
+      seedId = addSVGSymbol(svgRoot, seed.footprint, seed.filename, 'stretch', hasStableSeedIds(bundle) ? seed.id : undefined);
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+      continue;
+    }
+    seedIds.set(seed.id, seedId);
+    const metadata = seedLibrary.get(seedId);
+    if (metadata) {
+      metadata.weight = seed.weight ?? 1;
+      metadata.enabled = seed.enabled ?? true;
+      metadata.tags = seed.tags ?? [];
+      metadata.tone = seed.tone ?? null;
+    }
+    await persistSeed(seedId, result.warnings.length > 0 ? serializeXml(svgRoot) : seed.svg);
+  }
+  
+  state = restoreState(bundle.state as Partial<AppState>);
+  renameSeedIds(state, seedIds);
+  updateUIFromState();
+  saveState();
+  updateSeedListUI();
+  generatePattern();
+  showImportReport(results);
 }
 
-// Update state from UI
-function updateState(): void {
-  // Grid dimensions are fixed: 8 cols × 5 rows, tileSize 200
-  state.cols = 8;
-  state.rows = 5;
-  state.tileSize = 200;
-  state.seed = seedInput.value || 'pattern-2024';
-  state.randomRotation = randomRotationCheck.checked;
-  state.allowFlips = allowFlipsCheck.checked;
-  state.blackClustering = blackClusteringCheck.checked;
-  
+// Show the parameters of the chosen empty-cell strategy
+function updateEmptyParamsUI(): void {
+  emptyParamPanels.forEach(panel => {
+    panel.hidden = panel.dataset.mode !== state.emptyCells.mode;
+  });
+  const { mask } = state.emptyCells.image;
+  maskInfo.textContent = mask ? `${mask.width}×${mask.height} mask` : 'No image';
+}
+
+function updateMosaicInfo(): void {
+  const { image } = state.mosaic;
+  mosaicInfo.textContent = image ? `${image.width}×${image.height} image` : 'No image';
+}
+
+// Sample an uploaded image into a greyscale grid for the setting that uses it
+async function loadImageSetting(file: File, apply: (image: ImageMask) => void): Promise<void> {
+  try {
+    apply(await createImageMask(file));
+  } catch (error) {
+    alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return;
+  }
   saveState();
+  updateEmptyParamsUI();
+  updateMosaicInfo();
+  generatePattern();
+}
+
+// Rasterize the seeds whose tone is not known yet, then redraw so mosaic mode can use them
+async function measureSeedTones(): Promise<void> {
+  if (measuringTones) return;
+  measuringTones = true;
+  let measured = 0;
+  for (const seed of getActiveSeeds()) {
+    if (seed.tone !== null) continue;
+    try {
+      seed.tone = await measureSeedTone(seed);
+      measured++;
+    } catch (e) {
+      console.warn(`Failed to measure the tone of ${seed.filename || seed.id}`, e);
+    }
+  }
+  measuringTones = false;
+  if (measured > 0) generatePattern();
+}
+
+// Read a whole-number input, flagging it as invalid and keeping the previous value if out of range
+function readNumberInput(input: HTMLInputElement, limits: { min: number; max: number }, current: number): number {
+  const value = parseGridValue(input.value, limits);
+  input.classList.toggle('invalid', value === null);
+  input.title = value === null ? `Enter a whole number from ${limits.min} to ${limits.max}` : '';
+  return value ?? current;
+}
+
+// Read a percentage input as a share from 0 to 1
+function readPercentInput(input: HTMLInputElement, current: number): number {
+  return readNumberInput(input, percentLimits, Math.round(current * 100)) / 100;
+}
+
+// Update state from UI. Typing in a field is undone as one step.
+function updateState(e?: Event): void {
+  state.cols = readNumberInput(colsInput, gridLimits.cols, state.cols);
+  state.rows = readNumberInput(rowsInput, gridLimits.rows, state.rows);
+  state.tileSize = readNumberInput(tileSizeInput, gridLimits.tileSize, state.tileSize);
+  const seed = seedInput.value || 'pattern-2024';
+  if (seed !== state.seed) {
+    // Hand edits fix one layout; only locked cells carry over to a new one
+    state.cellOverrides = state.cellOverrides.filter(override => override.locked);
+  }
+  state.seed = seed;
+  const { rotation, flipX, flipY, scale, offset } = state.transforms;
+  state.transforms = {
+    rotation: {
+      chance: readPercentInput(rotationChanceInput, rotation.chance),
+      step: readNumberInput(rotationStepInput, transformLimits.step, rotation.step)
+    },
+    flipX: { chance: readPercentInput(flipXChanceInput, flipX.chance) },
+    flipY: { chance: readPercentInput(flipYChanceInput, flipY.chance) },
+    scale: {
+      chance: readPercentInput(scaleChanceInput, scale.chance),
+      min: readNumberInput(scaleMinInput, transformLimits.scale, Math.round(scale.min * 100)) / 100,
+      max: readNumberInput(scaleMaxInput, transformLimits.scale, Math.round(scale.max * 100)) / 100
+    },
+    offset: {
+      chance: readPercentInput(offsetChanceInput, offset.chance),
+      amount: readNumberInput(offsetAmountInput, transformLimits.offset, Math.round(offset.amount * 100)) / 100
+    },
+    clip: clipTilesCheck.checked
+  };
+  state.largeSeedChance = readPercentInput(largeSeedChanceInput, state.largeSeedChance);
+  state.seamless = seamlessCheck.checked;
+  const { clusters, noise, caves, gradient, image } = state.emptyCells;
+  state.emptyCells = {
+    mode: emptyModeSelect.value as EmptyCellMode,
+    clusters: {
+      density: readPercentInput(clusterDensityInput, clusters.density),
+      radius: readNumberInput(clusterRadiusInput, emptyCellLimits.radius, clusters.radius),
+      falloff: readPercentInput(clusterFalloffInput, clusters.falloff),
+      avoidEdgeRows: clusterAvoidEdgesCheck.checked
+    },
+    noise: {
+      scale: readNumberInput(noiseScaleInput, emptyCellLimits.scale, noise.scale),
+      amount: readPercentInput(noiseAmountInput, noise.amount)
+    },
+    caves: {
+      fill: readPercentInput(caveFillInput, caves.fill),
+      steps: readNumberInput(caveStepsInput, emptyCellLimits.steps, caves.steps)
+    },
+    gradient: {
+      direction: gradientDirectionSelect.value === 'radial' ? 'radial' : 'diagonal',
+      amount: readPercentInput(gradientAmountInput, gradient.amount),
+      reverse: gradientReverseCheck.checked
+    },
+    image: {
+      mask: image.mask,
+      threshold: readPercentInput(maskThresholdInput, image.threshold),
+      invert: maskInvertCheck.checked
+    }
+  };
+  updateEmptyParamsUI();
+  state.mosaic = {
+    ...state.mosaic,
+    enabled: mosaicEnabledCheck.checked,
+    tolerance: readPercentInput(mosaicToleranceInput, state.mosaic.tolerance)
+  };
+  state.rules = {
+    ...state.rules,
+    noAdjacentDuplicates: noAdjacentDuplicatesCheck.checked,
+    maxCopies: readNumberInput(maxCopiesInput, ruleLimits.maxCopies, state.rules.maxCopies),
+    maxColorRun: readNumberInput(maxColorRunInput, ruleLimits.maxColorRun, state.rules.maxColorRun)
+  };
+  state.background = backgroundInput.value;
+  state.colorize = colorizeCheck.checked;
+  state.svgExport = {
+    stripEditorElements: exportStripEditorCheck.checked,
+    pruneUnusedSymbols: exportPruneSymbolsCheck.checked,
+    prefixIds: exportPrefixIdsCheck.checked,
+    inlineUses: exportInlineUsesCheck.checked
+  };
+  state.seedFit = seedFitSelect.value as SeedFit;
+  // Durations take halves and tenths of a second, unlike the whole-number fields
+  const duration = parseFloat(animationDurationInput.value);
+  const durationValid = duration >= animationLimits.duration.min && duration <= animationLimits.duration.max;
+  animationDurationInput.classList.toggle('invalid', !durationValid);
+  animationDurationInput.title = durationValid
+    ? ''
+    : `Enter a number from ${animationLimits.duration.min} to ${animationLimits.duration.max}`;
+  state.animation = {
+    mode: animationModeSelect.value as AnimationMode,
+    format: animationFormatSelect.value as AnimationFormat,
+    duration: durationValid ? duration : state.animation.duration,
+    stagger: readPercentInput(animationStaggerInput, state.animation.stagger),
+    order: animationOrderSelect.value as AnimationOrder,
+    loop: animationLoopCheck.checked,
+    crossfadeSeed: crossfadeSeedInput.value
+  };
+  crossfadeSeedLabel.hidden = state.animation.mode !== 'crossfade';
+  const unit = printUnitSelect.value as PrintUnit;
+  state.print = {
+    unit,
+    width: readPrintLength(printWidthInput, printLimits.width, unit, state.print.width),
+    bleed: readPrintLength(printBleedInput, printLimits.bleed, unit, state.print.bleed),
+    cropMarks: printCropMarksCheck.checked,
+    registrationMarks: printRegistrationMarksCheck.checked,
+    checkColors: printCheckColorsCheck.checked
+  };
+  updatePrintInfo();
+  downloadPatternBtn.disabled = !state.seamless;
+  
+  // Typing and dragging are saved as they go, but only become an undo step once the control commits its value
+  if (e?.type === 'input') {
+    storeState();
+  } else {
+    const target = e?.target as HTMLInputElement | undefined;
+    saveState(target && target.type !== 'checkbox' ? target.id : null);
+  }
   generatePattern();
 }
 
@@ -897,18 +2327,174 @@ function randomize(): void {
 }
 
 // Event listeners
+// A control commits its value on release, blur or Enter; edits made since the last step become one
+document.addEventListener('change', (e) => {
+  const target = e.target as HTMLInputElement;
+  recordHistory(target.type === 'checkbox' ? null : target.id || null);
+});
 seedInput.addEventListener('input', updateState);
-randomRotationCheck.addEventListener('change', updateState);
-allowFlipsCheck.addEventListener('change', updateState);
-blackClusteringCheck.addEventListener('change', updateState);
+colsInput.addEventListener('input', updateState);
+rowsInput.addEventListener('input', updateState);
+tileSizeInput.addEventListener('input', updateState);
+[rotationChanceInput, rotationStepInput, flipXChanceInput, flipYChanceInput, scaleChanceInput, scaleMinInput,
+  scaleMaxInput, offsetChanceInput, offsetAmountInput].forEach(input => {
+  input.addEventListener('input', updateState);
+});
+clipTilesCheck.addEventListener('change', updateState);
+emptyModeSelect.addEventListener('change', updateState);
+[clusterDensityInput, clusterRadiusInput, clusterFalloffInput, noiseScaleInput, noiseAmountInput,
+  caveFillInput, caveStepsInput, gradientAmountInput, maskThresholdInput].forEach(input => {
+  input.addEventListener('input', updateState);
+});
+[clusterAvoidEdgesCheck, gradientDirectionSelect, gradientReverseCheck, maskInvertCheck].forEach(control => {
+  control.addEventListener('change', updateState);
+});
+maskInput.addEventListener('change', () => {
+  const file = maskInput.files?.[0];
+  if (file) loadImageSetting(file, mask => { state.emptyCells.image.mask = mask; });
+  maskInput.value = '';
+});
+mosaicEnabledCheck.addEventListener('change', updateState);
+mosaicToleranceInput.addEventListener('input', updateState);
+mosaicInput.addEventListener('change', () => {
+  const file = mosaicInput.files?.[0];
+  if (file) {
+    loadImageSetting(file, image => {
+      state.mosaic.image = image;
+      state.mosaic.enabled = true;
+      mosaicEnabledCheck.checked = true;
+    });
+  }
+  mosaicInput.value = '';
+});
+largeSeedChanceInput.addEventListener('input', updateState);
+seamlessCheck.addEventListener('change', updateState);
+noAdjacentDuplicatesCheck.addEventListener('change', updateState);
+maxCopiesInput.addEventListener('input', updateState);
+maxColorRunInput.addEventListener('input', updateState);
+addPairBtn.addEventListener('click', addForbiddenPair);
+backgroundInput.addEventListener('input', updateState);
+colorizeCheck.addEventListener('change', updateState);
+presetSelect.addEventListener('change', () => {
+  if (presetSelect.value) {
+    applyPreset(presetSelect.value);
+  } else {
+    presetLibrary.active = null;
+    savePresets();
+  }
+});
+savePresetBtn.addEventListener('click', savePreset);
+duplicatePresetBtn.addEventListener('click', duplicatePreset);
+renamePresetBtn.addEventListener('click', renamePreset);
+deletePresetBtn.addEventListener('click', deletePreset);
+exportPresetsBtn.addEventListener('click', exportPresets);
+importPresetsBtn.addEventListener('click', () => importPresetsInput.click());
+importPresetsInput.addEventListener('change', async () => {
+  const file = importPresetsInput.files?.[0];
+  if (file) await importPresets(file);
+  importPresetsInput.value = '';
+});
+savedPalettesSelect.addEventListener('change', loadSavedPalette);
+savePaletteBtn.addEventListener('click', savePalette);
+deletePaletteBtn.addEventListener('click', deleteSavedPalette);
+[exportStripEditorCheck, exportPruneSymbolsCheck, exportPrefixIdsCheck, exportInlineUsesCheck].forEach(check => {
+  check.addEventListener('change', updateState);
+});
+seedFitSelect.addEventListener('change', updateState);
+seedSearchInput.addEventListener('input', updateSeedListUI);
+seedTagFilterSelect.addEventListener('change', updateSeedListUI);
+bulkTagBtn.addEventListener('click', () => tagShownSeeds(true));
+bulkUntagBtn.addEventListener('click', () => tagShownSeeds(false));
+bulkEnableBtn.addEventListener('click', () => setSeedsEnabled(Array.from(seedLibrary.values()).filter(isSeedShown), true));
+bulkDisableBtn.addEventListener('click', () => setSeedsEnabled(Array.from(seedLibrary.values()).filter(isSeedShown), false));
 randomizeBtn.addEventListener('click', randomize);
+undoBtn.addEventListener('click', undoChange);
+redoBtn.addEventListener('click', redoChange);
 downloadBtn.addEventListener('click', downloadSVG);
-previewOverlay.addEventListener('click', downloadSVG);
+downloadPatternBtn.addEventListener('click', downloadPatternSVG);
+downloadRasterBtn.addEventListener('click', downloadRaster);
+[animationModeSelect, animationOrderSelect, animationLoopCheck, animationFormatSelect].forEach(control => {
+  control.addEventListener('change', updateState);
+});
+[crossfadeSeedInput, animationDurationInput, animationStaggerInput].forEach(input => {
+  input.addEventListener('input', updateState);
+});
+downloadAnimatedSvgBtn.addEventListener('click', downloadAnimatedSVG);
+downloadFramesBtn.addEventListener('click', downloadAnimationFrames);
+printUnitSelect.addEventListener('change', changePrintUnit);
+[printWidthInput, printBleedInput].forEach(input => input.addEventListener('input', updateState));
+[printCropMarksCheck, printRegistrationMarksCheck, printCheckColorsCheck].forEach(check => {
+  check.addEventListener('change', updateState);
+});
+downloadPrintSvgBtn.addEventListener('click', downloadPrintSVG);
+downloadPdfBtn.addEventListener('click', downloadPDF);
+generateBatchBtn.addEventListener('click', generateVariants);
+downloadStarredBtn.addEventListener('click', downloadStarredVariants);
+rasterSizeModeSelect.addEventListener('change', () => {
+  rasterSizeInput.value = rasterSizeModeSelect.value === 'scale' ? '1' : (state.cols * state.tileSize).toString();
+});
+rasterBackgroundSelect.addEventListener('change', () => {
+  rasterBackgroundColorInput.hidden = rasterBackgroundSelect.value !== 'custom';
+});
+preview.addEventListener('click', selectCell);
+cellCloseBtn.addEventListener('click', deselectCell);
+cellSeedSelect.addEventListener('change', () => editSelectedCell(override => {
+  override.seedId = cellSeedSelect.value || null;
+  // Only square seeds can sit at angles between the quarter turns
+  const seed = seedLibrary.get(override.seedId ?? '');
+  if (seed && seed.footprint.width !== seed.footprint.height) {
+    override.rotation = Math.round(override.rotation / 90) % 4 * 90;
+  }
+}));
+cellRotateBtn.addEventListener('click', () => editSelectedCell(override => {
+  override.rotation = (override.rotation + 90) % 360;
+}));
+cellFlipXBtn.addEventListener('click', () => editSelectedCell(override => {
+  override.scaleX *= -1;
+}));
+cellFlipYBtn.addEventListener('click', () => editSelectedCell(override => {
+  override.scaleY *= -1;
+}));
+cellClearBtn.addEventListener('click', () => editSelectedCell(override => {
+  override.seedId = null;
+}));
+cellLockCheck.addEventListener('change', () => editSelectedCell(override => {
+  override.locked = cellLockCheck.checked;
+}));
+cellResetBtn.addEventListener('click', resetSelectedCell);
+document.addEventListener('keydown', (e) => {
+  if (e.key === 'Escape' && selectedCell) {
+    deselectCell();
+  }
+  
+  // Ctrl/Cmd+Z undoes, adding Shift redoes; text fields keep their own undo, except the
+  // seed string, which regenerates as it's typed and so is undone with the pattern
+  const target = e.target as HTMLElement;
+  const editingText = target instanceof HTMLInputElement && target !== seedInput &&
+    ['text', 'number', 'search'].includes(target.type);
+  if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z' && !editingText) {
+    e.preventDefault();
+    if (e.shiftKey) {
+      redoChange();
+    } else {
+      undoChange();
+    }
+  }
+});
 uploadInput.addEventListener('change', (e) => {
   const target = e.target as HTMLInputElement;
   handleFileUpload(target.files);
 });
 clearSeedsBtn.addEventListener('click', clearSeeds);
+exportProjectBtn.addEventListener('click', exportProject);
+importProjectInput.addEventListener('change', async (e) => {
+  const target = e.target as HTMLInputElement;
+  const file = target.files?.[0];
+  if (file) {
+    await importProject(file);
+  }
+  target.value = '';
+});
 
 // Drag and drop
 const dropzone = document.body;
@@ -933,12 +2519,28 @@ dropzone.addEventListener('drop', async (e) => {
 // Initialize
 async function initialize(): Promise<void> {
   loadState();
+  loadPresets();
+  
+  // Restore seeds from previous sessions; an emptied library stays empty
+  let libraryInitialized = false;
+  try {
+    migrateLegacySeedIds(await restoreStoredSeeds());
+    libraryInitialized = await isSeedLibraryInitialized();
+  } catch (e) {
+    console.warn('Failed to restore stored seeds', e);
+  }
+  
   // Load default SVGs if no seeds are present (first time load)
-  if (seedCount === 0) {
+  if (seedLibrary.size === 0 && !libraryInitialized) {
     await loadDefaultSVGs();
   }
+  markSeedLibraryInitialized().catch(e => console.warn('Failed to update seed library', e));
   generatePattern();
   updateSeedListUI();
+  
+  // History starts from the restored session
+  committed = takeSnapshot();
+  updateHistoryButtons();
 }
 
 initialize();
@@ -0,0 +1,79 @@
+// Named presets: saved configurations that can be switched between, each holding
+// the app settings and which seeds are active with what weight
+
+export const PRESET_FORMAT = 'minka-pattern-presets';
+export const PRESET_VERSION = 1;
+
+// A seed's part in a preset. Seeds the preset doesn't mention are switched off.
+export interface PresetSeed {
+  enabled: boolean;
+  weight: number;
+}
+
+export interface Preset {
+  name: string;
+  state: Record<string, unknown>; // App settings, validated like saved state when applied
+  seeds: Record<string, PresetSeed>; // seedId -> setting
+}
+
+// Presets as kept in localStorage
+export interface PresetLibrary {
+  active: string | null; // Name of the preset last saved or switched to
+  presets: Preset[];
+}
+
+export interface PresetFile {
+  format: string;
+  version: number;
+  exportedAt: string;
+  presets: Preset[];
+}
+
+export function createPresetFile(presets: Preset[]): PresetFile {
+  return {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets
+  };
+}
+
+function isPresetSeed(value: unknown): value is PresetSeed {
+  const seed = value as PresetSeed;
+  return typeof seed === 'object' && seed !== null &&
+    typeof seed.enabled === 'boolean' &&
+    typeof seed.weight === 'number' && seed.weight >= 0;
+}
+
+export function isPreset(value: unknown): value is Preset {
+  const preset = value as Preset;
+  return typeof preset === 'object' && preset !== null &&
+    typeof preset.name === 'string' && preset.name.trim() !== '' &&
+    typeof preset.state === 'object' && preset.state !== null && !Array.isArray(preset.state) &&
+    typeof preset.seeds === 'object' && preset.seeds !== null &&
+    Object.values(preset.seeds).every(isPresetSeed);
+}
+
+// Parse and validate an exported preset file. Throws on files that cannot be imported.
+export function parsePresetFile(text: string): Preset[] {
+  let data: PresetFile;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null || data.format !== PRESET_FORMAT || !Array.isArray(data.presets)) {
+    throw new Error('File is not a pattern preset file');
+  }
+  if (typeof data.version !== 'number' || data.version > PRESET_VERSION) {
+    throw new Error(`Unsupported preset file version (this app reads v${PRESET_VERSION})`);
+  }
+  data.presets.forEach((preset, index) => {
+    if (!isPreset(preset)) {
+      throw new Error(`Preset ${index + 1} in the file is malformed`);
+    }
+  });
+
+  return data.presets;
+}
@@ -0,0 +1,199 @@
+// Raster export: render the pattern SVG through offscreen canvases.
+// Large outputs are drawn tile by tile; PNGs are encoded here so their
+// size is not limited by the largest canvas the browser allows.
+
+import { crc32 } from './crc32';
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+
+export interface RasterOptions {
+  format: RasterFormat;
+  width: number; // Output size in pixels
+  height: number;
+  dpi: number; // Written to PNG pHYs metadata
+  quality: number; // 0-1, used by JPEG and WebP
+}
+
+// Largest tile drawn in one go; well under every browser's canvas limits
+const TILE_SIZE = 2048;
+// Rows of PNG output held in memory at once
+const BAND_HEIGHT = 256;
+// Largest single canvas used for JPEG/WebP, which the browser has to encode in one piece
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 4096;
+
+const MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+// Load an SVG string as an image
+async function loadSVGImage(svgString: string): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(new Blob([svgString], { type: 'image/svg+xml' }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Draw one region of the output. The SVG is re-rendered with its viewBox
+// narrowed to the region, so each tile is rasterized at full resolution.
+async function renderRegion(
+  svg: SVGElement,
+  viewWidth: number,
+  viewHeight: number,
+  options: RasterOptions,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): Promise<HTMLCanvasElement> {
+  const scaleX = viewWidth / options.width;
+  const scaleY = viewHeight / options.height;
+
+  const tileSvg = svg.cloneNode(true) as SVGElement;
+  tileSvg.setAttribute('width', width.toString());
+  tileSvg.setAttribute('height', height.toString());
+  tileSvg.setAttribute('viewBox', `${x * scaleX} ${y * scaleY} ${width * scaleX} ${height * scaleY}`);
+  tileSvg.setAttribute('preserveAspectRatio', 'none');
+
+  const img = await loadSVGImage(new XMLSerializer().serializeToString(tileSvg));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas rendering is not available');
+  }
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas;
+}
+
+export const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+export function pngChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// Encode the output as an RGBA PNG, rendering and compressing one band of rows at a time
+async function encodePNG(svg: SVGElement, viewWidth: number, viewHeight: number, options: RasterOptions): Promise<Blob> {
+  const { width, height } = options;
+  const compressor = new CompressionStream('deflate'); // zlib format, as PNG's IDAT expects
+  const writer = compressor.writable.getWriter();
+  const compressed = new Response(compressor.readable).arrayBuffer();
+
+  for (let bandY = 0; bandY < height; bandY += BAND_HEIGHT) {
+    const bandHeight = Math.min(BAND_HEIGHT, height - bandY);
+    // Each scanline is a filter-type byte (0 = none) followed by the RGBA pixels
+    const band = new Uint8Array(bandHeight * (width * 4 + 1));
+
+    for (let tileX = 0; tileX < width; tileX += TILE_SIZE) {
+      const tileWidth = Math.min(TILE_SIZE, width - tileX);
+      const canvas = await renderRegion(svg, viewWidth, viewHeight, options, tileX, bandY, tileWidth, bandHeight);
+      const pixels = canvas.getContext('2d')!.getImageData(0, 0, tileWidth, bandHeight).data;
+      for (let row = 0; row < bandHeight; row++) {
+        const offset = row * (width * 4 + 1) + 1 + tileX * 4;
+        band.set(pixels.subarray(row * tileWidth * 4, (row + 1) * tileWidth * 4), offset);
+      }
+    }
+
+    await writer.write(band);
+  }
+  await writer.close();
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // Colour type: RGBA
+
+  // Physical pixel density in pixels per metre
+  const pixelsPerMetre = Math.round(options.dpi / 0.0254);
+  const physical = new Uint8Array(9);
+  const physicalView = new DataView(physical.buffer);
+  physicalView.setUint32(0, pixelsPerMetre);
+  physicalView.setUint32(4, pixelsPerMetre);
+  physical[8] = 1; // Unit: metre
+
+  return new Blob([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('pHYs', physical),
+    pngChunk('IDAT', new Uint8Array(await compressed)),
+    pngChunk('IEND', new Uint8Array(0))
+  ], { type: MIME_TYPES.png });
+}
+
+// JPEG and WebP are encoded by the browser, so the output has to fit in one canvas
+async function encodeWithCanvas(svg: SVGElement, viewWidth: number, viewHeight: number, options: RasterOptions): Promise<Blob> {
+  const { width, height } = options;
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_AREA) {
+    throw new Error(`${options.format.toUpperCase()} export is limited to ${MAX_CANVAS_AREA.toLocaleString()} pixels; use PNG for larger images`);
+  }
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas rendering is not available');
+  }
+
+  for (let tileY = 0; tileY < height; tileY += TILE_SIZE) {
+    for (let tileX = 0; tileX < width; tileX += TILE_SIZE) {
+      const tileWidth = Math.min(TILE_SIZE, width - tileX);
+      const tileHeight = Math.min(TILE_SIZE, height - tileY);
+      const tile = await renderRegion(svg, viewWidth, viewHeight, options, tileX, tileY, tileWidth, tileHeight);
+      ctx.drawImage(tile, tileX, tileY);
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    output.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error(`The browser could not encode ${options.format.toUpperCase()}`));
+      }
+    }, MIME_TYPES[options.format], options.quality);
+  });
+}
+
+// Render an SVG (whose viewBox is viewWidth × viewHeight) to a raster image
+export async function renderRaster(svg: SVGElement, viewWidth: number, viewHeight: number, options: RasterOptions): Promise<Blob> {
+  if (!Number.isInteger(options.width) || !Number.isInteger(options.height) || options.width < 1 || options.height < 1) {
+    throw new Error('Output size must be at least 1×1 pixels');
+  }
+  return options.format === 'png'
+    ? encodePNG(svg, viewWidth, viewHeight, options)
+    : encodeWithCanvas(svg, viewWidth, viewHeight, options);
+}
+
+// Render a whole SVG document at the given pixel size and return its RGBA pixels,
+// for animation frames, which are small enough to draw in one go
+export async function renderFramePixels(svgString: string, width: number, height: number): Promise<Uint8ClampedArray> {
+  const img = await loadSVGImage(svgString);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas rendering is not available');
+  }
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+}
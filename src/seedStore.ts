@@ -0,0 +1,113 @@
+// IndexedDB persistence for uploaded seed SVGs
+
+import type { SeedFit } from './core/seeds';
+
+const DB_NAME = 'svgPatternSeeds';
+const DB_VERSION = 1;
+const SEED_STORE = 'seeds';
+const META_STORE = 'meta';
+
+// A seed as persisted: the raw SVG source plus what is needed to rebuild its symbol
+export interface StoredSeed {
+  key?: number; // Assigned by IndexedDB on first save
+  id?: string; // Seed id; missing on seeds saved when ids were numbered by load order
+  filename: string;
+  svg: string;
+  footprint: { width: number; height: number };
+  fit?: SeedFit; // How an off-size document was placed in its footprint; missing means stretched
+  weight?: number; // Missing on seeds saved before weighting existed; treated as 1
+  enabled?: boolean; // Missing means enabled
+  tags?: string[];
+  order: number; // Insertion order, so seeds are rehydrated in the order they were added
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open (and create on first use) the seed database
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SEED_STORE)) {
+          db.createObjectStore(SEED_STORE, { keyPath: 'key', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Run a single request in its own transaction and resolve with its result
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Load all stored seeds in insertion order
+export async function loadStoredSeeds(): Promise<StoredSeed[]> {
+  const seeds = await runRequest<StoredSeed[]>(SEED_STORE, 'readonly', store => store.getAll());
+  return seeds.sort((a, b) => a.order - b.order);
+}
+
+// Insert or update a seed, returning its key
+export async function saveStoredSeed(seed: StoredSeed): Promise<number> {
+  const key = await runRequest(SEED_STORE, 'readwrite', store => store.put(seed));
+  return key as number;
+}
+
+// Change some fields of a stored seed, leaving the rest as saved
+export async function updateStoredSeed(key: number, changes: Partial<Omit<StoredSeed, 'key'>>): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SEED_STORE, 'readwrite');
+    const store = transaction.objectStore(SEED_STORE);
+    const request = store.get(key);
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put({ ...request.result, ...changes });
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function deleteStoredSeed(key: number): Promise<void> {
+  await runRequest(SEED_STORE, 'readwrite', store => store.delete(key));
+}
+
+export async function clearStoredSeeds(): Promise<void> {
+  await runRequest(SEED_STORE, 'readwrite', store => store.clear());
+}
+
+// Whether the seed library has been set up before (so an emptied library stays empty)
+export async function isSeedLibraryInitialized(): Promise<boolean> {
+  const value = await runRequest(META_STORE, 'readonly', store => store.get('initialized'));
+  return value === true;
+}
+
+export async function markSeedLibraryInitialized(): Promise<void> {
+  await runRequest(META_STORE, 'readwrite', store => store.put(true, 'initialized'));
+}
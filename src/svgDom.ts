@@ -0,0 +1,36 @@
+// Turn pattern documents built by the core into live DOM nodes for the preview
+
+import { SVG_NS, XLINK_NS } from './core/render';
+import type { XmlNode } from './core/xml';
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+
+function getAttributeNamespace(name: string): string | null {
+  if (name === 'xmlns' || name.startsWith('xmlns:')) return XMLNS_NS;
+  if (name.startsWith('xlink:')) return XLINK_NS;
+  if (name.startsWith('xml:')) return XML_NS;
+  return null;
+}
+
+export function toDom(node: XmlNode): Node {
+  switch (node.type) {
+    case 'text':
+    case 'cdata':
+      return document.createTextNode(node.value);
+    case 'comment':
+      return document.createComment(node.value);
+  }
+
+  const element = document.createElementNS(SVG_NS, node.name);
+  node.attributes.forEach((value, name) => {
+    try {
+      element.setAttributeNS(getAttributeNamespace(name), name, value);
+    } catch (e) {
+      // Names the parser accepts but the DOM rejects are dropped from the preview
+      console.warn(`Skipping attribute ${name} on <${node.name}>`, e);
+    }
+  });
+  node.children.forEach(child => element.appendChild(toDom(child)));
+  return element;
+}
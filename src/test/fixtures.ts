@@ -0,0 +1,25 @@
+// Helpers for the tests: read the SVG fixtures and turn them into seeds
+
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { type Seed, createSeed, detectSVGSize, parseSeedSvg } from '../core/seeds';
+
+export function readFixture(name: string): string {
+  return readFileSync(join(dirname(fileURLToPath(import.meta.url)), 'fixtures', name), 'utf8');
+}
+
+// Seeds from fixture files, sized for 200px tiles as the app sizes uploads
+export function loadFixtureSeeds(names: string[]): Seed[] {
+  return names.map(name => {
+    const svgRoot = parseSeedSvg(readFixture(name));
+    const footprint = detectSVGSize(svgRoot, 200);
+    if (!footprint) throw new Error(`${name} is not a whole footprint`);
+    return createSeed(svgRoot, footprint, name);
+  });
+}
+
+// Seed strings for property tests
+export function seedStrings(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `property-${i}`);
+}
@@ -0,0 +1,77 @@
+// Minimal zip writer: stored (uncompressed) entries, which is all a handful of
+// SVG files needs, and keeps the archive byte-for-byte predictable
+
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// Date and time in MS-DOS format, as zip headers store them
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    // Local file header
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034B50, true);
+    view.setUint16(4, 20, true); // Version needed to extract
+    view.setUint16(6, 0x0800, true); // Filenames are UTF-8
+    view.setUint16(8, 0, true); // Stored
+    view.setUint16(10, stamp.time, true);
+    view.setUint16(12, stamp.date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, entry.data.length, true);
+    view.setUint32(22, entry.data.length, true);
+    view.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    // Central directory record pointing back at the local header
+    const record = new Uint8Array(46 + name.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, 0x02014B50, true);
+    recordView.setUint16(4, 20, true); // Version made by
+    recordView.setUint16(6, 20, true);
+    recordView.setUint16(8, 0x0800, true);
+    recordView.setUint16(10, 0, true);
+    recordView.setUint16(12, stamp.time, true);
+    recordView.setUint16(14, stamp.date, true);
+    recordView.setUint32(16, crc, true);
+    recordView.setUint32(20, entry.data.length, true);
+    recordView.setUint32(24, entry.data.length, true);
+    recordView.setUint16(28, name.length, true);
+    recordView.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    parts.push(header, entry.data);
+    directory.push(record);
+    offset += header.length + entry.data.length;
+  }
+
+  const directorySize = directory.reduce((size, record) => size + record.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054B50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end] as BlobPart[], { type: 'application/zip' });
+}